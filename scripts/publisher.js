@@ -18,12 +18,7 @@ async function main() {
   const { topic = 'doc:123', rate = '50', type = 'metric', duration = '10', token = '' } = parseArgs();
   const rateNum = parseInt(rate, 10);
   const durationSec = parseInt(duration, 10);
-  const url = 'http://localhost:4000/graphql';
-
-  const body = (payload) => ({
-    query: `mutation($input: PublishEventInput!){ publishEvent(input:$input){ success eventId message } }`,
-    variables: { input: payload },
-  });
+  const url = `http://localhost:4000/v1/topics/${encodeURIComponent(topic)}/events`;
 
   const headers = {
     'content-type': 'application/json',
@@ -42,15 +37,14 @@ async function main() {
       return;
     }
     const payload = {
-      topicId: topic,
       type,
       data: { key: 'value', n: sent },
     };
     try {
-      const res = await fetch(url, { method: 'POST', headers, body: JSON.stringify(body(payload)) });
+      const res = await fetch(url, { method: 'POST', headers, body: JSON.stringify(payload) });
       const json = await res.json();
-      if (!json.data?.publishEvent?.success) {
-        console.error('Publish failed:', json);
+      if (!res.ok) {
+        console.error(`Publish failed (${res.status}, ${res.headers.get('ratelimit-remaining')} left):`, json);
       }
       sent++;
     } catch (e) {
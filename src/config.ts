@@ -1,4 +1,5 @@
 import dotenv from 'dotenv';
+import { SlowClientPolicy, WireEncoding } from './types';
 
 // Load environment variables
 dotenv.config();
@@ -28,6 +29,7 @@ export interface Config {
     maxBufferSize: number;
     maxSubscriberQueueSize: number;
     slowClientThresholdMs: number;
+    slowClientPolicy: SlowClientPolicy;
   };
   logging: {
     level: string;
@@ -38,6 +40,62 @@ export interface Config {
   };
   limits: {
     maxPayloadBytes: number;
+    maxBatchSize: number;
+    maxSchemaBytes: number;
+  };
+  idempotency: {
+    ttlSeconds: number;
+    pendingTtlSeconds: number;
+  };
+  presence: {
+    ttlSeconds: number;
+    sweepIntervalMs: number;
+  };
+  scheduler: {
+    pollIntervalMs: number;
+    maxDelayMs: number;
+    retryDelayMs: number;
+    maxAttempts: number;
+  };
+  ack: {
+    timeoutMs: number;
+    maxRedeliveries: number;
+    cursorTtlSeconds: number;
+  };
+  coalescing: {
+    cacheTtlMs: number;
+  };
+  consumerGroups: {
+    pollIntervalMs: number;
+    batchSize: number;
+    claimIdleMs: number;
+  };
+  longPoll: {
+    maxWaitSeconds: number;
+    pollIntervalMs: number;
+    subscriberTtlMs: number;
+  };
+  encoding: {
+    streamData: WireEncoding;
+  };
+  rawWebSocket: {
+    path: string;
+    maxSubscriptions: number;
+    maxPayloadBytes: number;
+  };
+  webhooks: {
+    maxAttempts: number;
+    retryDelayMs: number;
+    maxRetryDelayMs: number;
+    timeoutMs: number;
+    breakerThreshold: number;
+    breakerResetMs: number;
+    attemptHistory: number;
+  };
+  snapshot: {
+    backend: 'redis' | 'file';
+    fileDir: string;
+    maxBytes: number;
   };
 }
 
@@ -66,6 +124,8 @@ export const config: Config = {
     maxBufferSize: parseInt(process.env.MAX_TOPIC_BUFFER_SIZE || '1000', 10),
     maxSubscriberQueueSize: parseInt(process.env.MAX_SUBSCRIBER_QUEUE_SIZE || '100', 10),
     slowClientThresholdMs: parseInt(process.env.SLOW_CLIENT_THRESHOLD_MS || '5000', 10),
+    slowClientPolicy: (['drop_oldest', 'drop_newest', 'disconnect', 'pause_resync'] as const)
+      .find(policy => policy === process.env.SLOW_CLIENT_POLICY) ?? 'drop_oldest',
   },
   logging: {
     level: process.env.LOG_LEVEL || 'info',
@@ -76,5 +136,61 @@ export const config: Config = {
   },
   limits: {
     maxPayloadBytes: parseInt(process.env.MAX_PAYLOAD_BYTES || '65536', 10), // 64KB default
+    maxBatchSize: parseInt(process.env.MAX_BATCH_SIZE || '100', 10),
+    maxSchemaBytes: parseInt(process.env.MAX_SCHEMA_BYTES || '65536', 10),
+  },
+  idempotency: {
+    ttlSeconds: parseInt(process.env.IDEMPOTENCY_TTL_SECONDS || '86400', 10), // 24h default
+    pendingTtlSeconds: parseInt(process.env.IDEMPOTENCY_PENDING_TTL_SECONDS || '30', 10),
+  },
+  presence: {
+    ttlSeconds: parseInt(process.env.PRESENCE_TTL_SECONDS || '30', 10),
+    sweepIntervalMs: parseInt(process.env.PRESENCE_SWEEP_INTERVAL_MS || '5000', 10),
+  },
+  scheduler: {
+    pollIntervalMs: parseInt(process.env.SCHEDULER_POLL_INTERVAL_MS || '1000', 10),
+    maxDelayMs: parseInt(process.env.MAX_DELIVERY_DELAY_MS || '604800000', 10), // 7 days default
+    retryDelayMs: parseInt(process.env.SCHEDULER_RETRY_DELAY_MS || '5000', 10),
+    maxAttempts: parseInt(process.env.SCHEDULER_MAX_ATTEMPTS || '5', 10),
+  },
+  ack: {
+    timeoutMs: parseInt(process.env.ACK_TIMEOUT_MS || '30000', 10),
+    maxRedeliveries: parseInt(process.env.ACK_MAX_REDELIVERIES || '5', 10),
+    cursorTtlSeconds: parseInt(process.env.ACK_CURSOR_TTL_SECONDS || '604800', 10), // 7 days default
+  },
+  coalescing: {
+    cacheTtlMs: parseInt(process.env.COALESCING_CACHE_TTL_MS || '5000', 10),
+  },
+  consumerGroups: {
+    pollIntervalMs: parseInt(process.env.GROUP_POLL_INTERVAL_MS || '500', 10),
+    batchSize: parseInt(process.env.GROUP_BATCH_SIZE || '10', 10),
+    claimIdleMs: parseInt(process.env.GROUP_CLAIM_IDLE_MS || '60000', 10),
+  },
+  longPoll: {
+    maxWaitSeconds: parseInt(process.env.LONG_POLL_MAX_WAIT_SECONDS || '30', 10),
+    pollIntervalMs: parseInt(process.env.LONG_POLL_INTERVAL_MS || '500', 10),
+    subscriberTtlMs: parseInt(process.env.LONG_POLL_SUBSCRIBER_TTL_MS || '120000', 10),
+  },
+  encoding: {
+    streamData: process.env.STREAM_DATA_ENCODING === 'msgpack' ? 'msgpack' : 'json',
+  },
+  rawWebSocket: {
+    path: process.env.RAW_WS_PATH || '/ws',
+    maxSubscriptions: parseInt(process.env.RAW_WS_MAX_SUBSCRIPTIONS || '100', 10),
+    maxPayloadBytes: parseInt(process.env.RAW_WS_MAX_PAYLOAD_BYTES || '65536', 10),
+  },
+  webhooks: {
+    maxAttempts: parseInt(process.env.WEBHOOK_MAX_ATTEMPTS || '5', 10),
+    retryDelayMs: parseInt(process.env.WEBHOOK_RETRY_DELAY_MS || '1000', 10),
+    maxRetryDelayMs: parseInt(process.env.WEBHOOK_MAX_RETRY_DELAY_MS || '30000', 10),
+    timeoutMs: parseInt(process.env.WEBHOOK_TIMEOUT_MS || '5000', 10),
+    breakerThreshold: parseInt(process.env.WEBHOOK_BREAKER_THRESHOLD || '5', 10),
+    breakerResetMs: parseInt(process.env.WEBHOOK_BREAKER_RESET_MS || '60000', 10),
+    attemptHistory: parseInt(process.env.WEBHOOK_ATTEMPT_HISTORY || '100', 10),
+  },
+  snapshot: {
+    backend: (process.env.SNAPSHOT_BACKEND || 'redis').toLowerCase() === 'file' ? 'file' : 'redis',
+    fileDir: process.env.SNAPSHOT_DIR || './data/snapshots',
+    maxBytes: parseInt(process.env.MAX_SNAPSHOT_BYTES || '1048576', 10), // 1MB default
   },
 }; 
\ No newline at end of file
@@ -2,12 +2,22 @@ import { getFirestore, Firestore, FieldValue } from 'firebase-admin/firestore';
 import { logger } from '../utils/logger';
 import { redisConnection } from '../redis/connection';
 import { config } from '../config';
+import { TopicOperation, TopicRole } from '../types';
+import { canPerform, resolveTopicRole } from '../utils/roles';
+
+// gRPC status Firestore reports when create() finds the document already there
+const ALREADY_EXISTS = 6;
+const INVALIDATE_SCAN_COUNT = 100;
 
 export interface TopicAccess {
   topicId: string;
   allowedUsers: string[];
   allowedRoles: string[];
   isPublic: boolean;
+  // Optional role overrides; see utils/roles for the defaults
+  publicRole?: TopicRole;
+  userRoles?: Record<string, TopicRole>;
+  operationRoles?: Partial<Record<TopicOperation, TopicRole>>;
   createdAt: number;
   updatedAt: number;
 }
@@ -21,59 +31,57 @@ export class TopicAccessControl {
     this.firestore = getFirestore();
   }
 
-  async checkTopicAccess(userId: string, topicId: string): Promise<boolean> {
+  /**
+   * Checks whether the user may perform an operation on a topic. Roles come
+   * from the caller's token claims, or from the `roles` collection when the
+   * token carries none.
+   */
+  async checkTopicAccess(
+    userId: string,
+    topicId: string,
+    operation: TopicOperation = 'read',
+    claimRoles: string[] = []
+  ): Promise<boolean> {
+    const cacheKey = `${this.cachePrefix}${topicId}:${userId}:${operation}`;
     try {
       const redis = redisConnection.getClient();
       if (redis) {
-        const cached = await redis.get(`${this.cachePrefix}${topicId}:${userId}`);
+        const cached = await redis.get(cacheKey);
         if (cached !== null) {
           return cached === '1';
         }
       }
 
       const topicDoc = await this.firestore.collection('topics').doc(topicId).get();
-      
+
+      let topicAccess: TopicAccess;
       if (!topicDoc.exists) {
         // Topic doesn't exist, create it with default access (public)
-        await this.createTopic(topicId, {
+        topicAccess = {
           topicId,
           allowedUsers: [],
           allowedRoles: [],
           isPublic: true,
           createdAt: Date.now(),
           updatedAt: Date.now(),
-        });
-        if (redis) {
-          await redis.setEx(`${this.cachePrefix}${topicId}:${userId}`, this.cacheTtlSeconds, '1');
-        }
-        return true;
-      }
-
-      const topicAccess = topicDoc.data() as TopicAccess;
-      
-      // If topic is public, allow access
-      if (topicAccess.isPublic) {
-        if (redis) {
-          await redis.setEx(`${this.cachePrefix}${topicId}:${userId}`, this.cacheTtlSeconds, '1');
-        }
-        return true;
+        };
+        await this.createTopic(topicId, topicAccess);
+      } else {
+        topicAccess = topicDoc.data() as TopicAccess;
       }
 
-      // Check if user is explicitly allowed
-      if (topicAccess.allowedUsers.includes(userId)) {
-        if (redis) {
-          await redis.setEx(`${this.cachePrefix}${topicId}:${userId}`, this.cacheTtlSeconds, '1');
-        }
-        return true;
-      }
+      // Only look up stored roles when the topic actually grants access by role
+      const roles = claimRoles.length > 0 || topicAccess.allowedRoles.length === 0
+        ? claimRoles
+        : await this.getUserRoles(userId);
 
-      // TODO: Check user roles against allowedRoles
-      // This would require fetching user roles from Firebase Auth or a separate collection
+      const role = resolveTopicRole(topicAccess, userId, roles);
+      const allowed = canPerform(role, operation, topicAccess.operationRoles);
 
       if (redis) {
-        await redis.setEx(`${this.cachePrefix}${topicId}:${userId}`, this.cacheTtlSeconds, '0');
+        await redis.setEx(cacheKey, this.cacheTtlSeconds, allowed ? '1' : '0');
       }
-      return false;
+      return allowed;
     } catch (error) {
       logger.error(`Error checking topic access for user ${userId} on topic ${topicId}:`, error);
       // Default to allowing access if there's an error (fail open for development)
@@ -81,11 +89,29 @@ export class TopicAccessControl {
     }
   }
 
+  // Roles for users whose tokens carry no role claims, stored as roles/{userId} { roles: [...] }
+  async getUserRoles(userId: string): Promise<string[]> {
+    try {
+      const doc = await this.firestore.collection('roles').doc(userId).get();
+      if (!doc.exists) return [];
+      const roles = doc.get('roles');
+      return Array.isArray(roles) ? roles.filter((role): role is string => typeof role === 'string') : [];
+    } catch (error) {
+      logger.error(`Error getting roles for user ${userId}:`, error);
+      return [];
+    }
+  }
+
+  // create() fails instead of overwriting, so an existing ACL can never be replaced this way
   async createTopic(topicId: string, access: TopicAccess): Promise<void> {
     try {
-      await this.firestore.collection('topics').doc(topicId).set(access);
+      await this.firestore.collection('topics').doc(topicId).create(access);
+      await this.invalidateCache(topicId);
       logger.info(`Created topic access control for ${topicId}`);
     } catch (error) {
+      if ((error as { code?: unknown }).code === ALREADY_EXISTS) {
+        throw new Error('Topic already exists');
+      }
       logger.error(`Error creating topic access control for ${topicId}:`, error);
       throw error;
     }
@@ -97,6 +123,7 @@ export class TopicAccessControl {
         ...access,
         updatedAt: Date.now(),
       });
+      await this.invalidateCache(topicId);
       logger.info(`Updated topic access control for ${topicId}`);
     } catch (error) {
       logger.error(`Error updating topic access control for ${topicId}:`, error);
@@ -107,6 +134,7 @@ export class TopicAccessControl {
   async deleteTopic(topicId: string): Promise<void> {
     try {
       await this.firestore.collection('topics').doc(topicId).delete();
+      await this.invalidateCache(topicId);
       logger.info(`Deleted topic access control for ${topicId}`);
     } catch (error) {
       logger.error(`Error deleting topic access control for ${topicId}:`, error);
@@ -114,6 +142,28 @@ export class TopicAccessControl {
     }
   }
 
+  // Drops cached decisions for every user so ACL edits apply immediately
+  async invalidateCache(topicId: string): Promise<void> {
+    try {
+      const redis = redisConnection.getClient();
+      if (!redis) return;
+      // SCAN rather than KEYS, which blocks Redis while it walks the whole keyspace
+      let batch: string[] = [];
+      for await (const key of redis.scanIterator({ MATCH: `${this.cachePrefix}${topicId}:*`, COUNT: INVALIDATE_SCAN_COUNT })) {
+        batch.push(key);
+        if (batch.length >= INVALIDATE_SCAN_COUNT) {
+          await redis.del(batch);
+          batch = [];
+        }
+      }
+      if (batch.length > 0) {
+        await redis.del(batch);
+      }
+    } catch (error) {
+      logger.error(`Error invalidating ACL cache for ${topicId}:`, error);
+    }
+  }
+
   async getTopicAccess(topicId: string): Promise<TopicAccess | null> {
     try {
       const doc = await this.firestore.collection('topics').doc(topicId).get();
@@ -131,6 +181,7 @@ export class TopicAccessControl {
         allowedUsers: FieldValue.arrayUnion(userId),
         updatedAt: Date.now(),
       });
+      await this.invalidateCache(topicId);
       logger.info(`Added user ${userId} to topic ${topicId}`);
     } catch (error) {
       logger.error(`Error adding user ${userId} to topic ${topicId}:`, error);
@@ -144,6 +195,7 @@ export class TopicAccessControl {
         allowedUsers: FieldValue.arrayRemove(userId),
         updatedAt: Date.now(),
       });
+      await this.invalidateCache(topicId);
       logger.info(`Removed user ${userId} from topic ${topicId}`);
     } catch (error) {
       logger.error(`Error removing user ${userId} from topic ${topicId}:`, error);
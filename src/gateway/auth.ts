@@ -2,7 +2,9 @@ import { initializeApp, cert, App } from 'firebase-admin/app';
 import { getAuth, Auth } from 'firebase-admin/auth';
 import { config } from '../config';
 import { logger } from '../utils/logger';
-import { AuthContext } from '../types';
+import { AuthContext, TopicOperation } from '../types';
+import type { TopicAccessControl } from '../firebase/topicAccess';
+import { rolesFromClaims } from '../utils/roles';
 
 class FirebaseAuth {
   private app: App | null = null;
@@ -66,6 +68,7 @@ class FirebaseAuth {
         userId: devUserId,
         email: 'development@localhost.dev',
         permissions: ['read', 'write'],
+        roles: [],
         tenantId: config.server.nodeEnv === 'test' ? 'test-tenant' : 'default',
       };
     }
@@ -82,6 +85,7 @@ class FirebaseAuth {
         userId: decodedToken.uid,
         email: decodedToken.email || '',
         permissions: (decodedToken as any).permissions || [],
+        roles: rolesFromClaims(decodedToken),
         tenantId: (decodedToken as any).tenantId || 'default',
       };
     } catch (error) {
@@ -99,6 +103,7 @@ class FirebaseAuth {
         userId: devUserId,
         email: 'development@localhost.dev',
         permissions: ['read', 'write'],
+        roles: [],
         tenantId: config.server.nodeEnv === 'test' ? 'test-tenant' : 'default',
       };
     }
@@ -115,6 +120,7 @@ class FirebaseAuth {
         userId: decodedClaims.uid,
         email: decodedClaims.email || '',
         permissions: (decodedClaims as any).permissions || [],
+        roles: rolesFromClaims(decodedClaims),
         tenantId: (decodedClaims as any).tenantId || 'default',
       };
     } catch (error) {
@@ -123,7 +129,63 @@ class FirebaseAuth {
     }
   }
 
-  async checkTopicAccess(userId: string, topicId: string): Promise<boolean> {
+  // Global admins hold either the `admin` permission or the `admin` role claim
+  isAdmin(user: AuthContext): boolean {
+    return user.permissions.includes('admin') || (user.roles ?? []).includes('admin');
+  }
+
+  /**
+   * Whether the user may change a topic's lifecycle. Admins can manage any
+   * topic; otherwise only the user who created it.
+   */
+  canManageTopic(user: AuthContext, createdBy: string): boolean {
+    if (this.isDisabled) {
+      logger.warn(`SECURITY WARNING: Topic management check bypassed for user ${user.userId} - development mode`);
+      return true;
+    }
+    return this.isAdmin(user) || (createdBy !== '' && createdBy === user.userId);
+  }
+
+  /**
+   * Firestore-backed ACL store. Unavailable when auth is disabled, since
+   * Firebase Admin is never initialized in that mode.
+   */
+  async getAccessControl(): Promise<TopicAccessControl> {
+    if (this.isDisabled) {
+      throw new Error('Topic ACLs are unavailable while Firebase Auth is disabled');
+    }
+    // Import here to avoid circular dependencies
+    const { topicAccessControl } = await import('../firebase/topicAccess');
+    return topicAccessControl;
+  }
+
+  async createTopicAccess(topicId: string, creatorId: string, isPublic: boolean): Promise<void> {
+    if (this.isDisabled) return;
+
+    const accessControl = await this.getAccessControl();
+    await accessControl.createTopic(topicId, {
+      topicId,
+      allowedUsers: [creatorId],
+      allowedRoles: [],
+      isPublic,
+      createdAt: Date.now(),
+      updatedAt: Date.now(),
+    });
+  }
+
+  async deleteTopicAccess(topicId: string): Promise<void> {
+    if (this.isDisabled) return;
+
+    const accessControl = await this.getAccessControl();
+    await accessControl.deleteTopic(topicId);
+  }
+
+  async checkTopicAccess(
+    userId: string,
+    topicId: string,
+    operation: TopicOperation = 'read',
+    roles: string[] = []
+  ): Promise<boolean> {
     if (this.isDisabled) {
       logger.warn(`SECURITY WARNING: Topic access control bypassed for user ${userId} on topic ${topicId} - development mode`);
       // In development mode, allow all topic access
@@ -133,7 +195,7 @@ class FirebaseAuth {
     try {
       // Import here to avoid circular dependencies
       const { topicAccessControl } = await import('../firebase/topicAccess');
-      return await topicAccessControl.checkTopicAccess(userId, topicId);
+      return await topicAccessControl.checkTopicAccess(userId, topicId, operation, roles);
     } catch (error) {
       logger.error('Error checking topic access:', error);
       return false;
@@ -0,0 +1,328 @@
+import { IncomingMessage } from 'http';
+import { Duplex } from 'stream';
+import { RawData, WebSocket, WebSocketServer } from 'ws';
+import { EventEnvelope as Event, PublishEventInput, WireEncoding } from '../types';
+import { resolvers } from '../graphql/resolvers';
+import { EventFilter } from '../utils/eventFilter';
+import { RateLimitResult } from '../redis/rateLimiter';
+import { firebaseAuth } from './auth';
+import { logger } from '../utils/logger';
+import { decodeMsgpack, encodeMsgpack, isWireEncoding } from '../utils/encoding';
+import { config } from '../config';
+
+type Payload = { topicEvents: Event };
+type AuthContext = NonNullable<Awaited<ReturnType<typeof firebaseAuth.verifyToken>>>;
+
+const MAX_ID_LENGTH = 64;
+
+export type ClientMessage =
+  | { type: 'subscribe'; id: string; topicId: string; fromSeq?: number; filter?: EventFilter; ack?: boolean; consumer?: string }
+  | { type: 'unsubscribe'; id: string }
+  | { type: 'publish'; id?: string; event: PublishEventInput }
+  | { type: 'ack'; id?: string; topicId: string; upToSeq: number; consumer?: string }
+  | { type: 'ping'; id?: string };
+
+export type ServerMessage =
+  | { type: 'subscribed'; id: string }
+  | { type: 'event'; id: string; event: Event }
+  | { type: 'complete'; id: string }
+  | { type: 'result'; id?: string; result: unknown }
+  | { type: 'pong'; id?: string }
+  | { type: 'error'; id?: string; message: string };
+
+interface Connection {
+  socket: WebSocket;
+  user: AuthContext;
+  encoding: WireEncoding;
+  subscriptions: Map<string, AsyncIterator<Payload>>;
+  starting: Set<string>; // subscription ids still waiting on the resolver
+}
+
+function isRecord(value: unknown): value is Record<string, any> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+function isId(value: unknown): value is string {
+  return typeof value === 'string' && value.length > 0 && value.length <= MAX_ID_LENGTH;
+}
+
+/**
+ * Decodes a client frame (JSON text, or MessagePack bytes) and checks its
+ * shape. Field contents (topic IDs, payloads, filters) are left to the
+ * resolvers, which validate them as for GraphQL. Returns the message, or an
+ * error description.
+ */
+export function parseClientMessage(raw: string | Uint8Array): ClientMessage | string {
+  let message: unknown;
+  try {
+    message = typeof raw === 'string' ? JSON.parse(raw) : decodeMsgpack(raw);
+  } catch {
+    return `Invalid message: not valid ${typeof raw === 'string' ? 'JSON' : 'MessagePack'}`;
+  }
+  if (!isRecord(message)) {
+    return 'Invalid message: expected an object';
+  }
+  if (message.id !== undefined && !isId(message.id)) {
+    return `Invalid message: id must be a string of 1 to ${MAX_ID_LENGTH} characters`;
+  }
+
+  switch (message.type) {
+    case 'subscribe':
+      if (!isId(message.id) || typeof message.topicId !== 'string') {
+        return 'Invalid message: subscribe needs an id and a topicId';
+      }
+      if (message.fromSeq !== undefined && typeof message.fromSeq !== 'number') {
+        return 'Invalid message: fromSeq must be a number';
+      }
+      if (message.filter !== undefined && !isRecord(message.filter)) {
+        return 'Invalid message: filter must be an object';
+      }
+      if (message.ack !== undefined && typeof message.ack !== 'boolean') {
+        return 'Invalid message: ack must be a boolean';
+      }
+      if (message.consumer !== undefined && typeof message.consumer !== 'string') {
+        return 'Invalid message: consumer must be a string';
+      }
+      return message as ClientMessage;
+    case 'unsubscribe':
+      return isId(message.id) ? message as ClientMessage : 'Invalid message: unsubscribe needs an id';
+    case 'publish':
+      return isRecord(message.event) ? message as ClientMessage : 'Invalid message: publish needs an event object';
+    case 'ack':
+      if (typeof message.topicId !== 'string' || typeof message.upToSeq !== 'number') {
+        return 'Invalid message: ack needs a topicId and an upToSeq';
+      }
+      if (message.consumer !== undefined && typeof message.consumer !== 'string') {
+        return 'Invalid message: consumer must be a string';
+      }
+      return message as ClientMessage;
+    case 'ping':
+      return message as ClientMessage;
+    default:
+      return 'Invalid message: unknown type';
+  }
+}
+
+// Browsers cannot set headers on a WebSocket handshake, so a token query parameter works too
+function readToken(req: IncomingMessage): string | null {
+  const header = req.headers.authorization;
+  if (typeof header === 'string') {
+    return header.replace('Bearer ', '');
+  }
+  const token = new URL(req.url || '/', 'http://localhost').searchParams.get('token');
+  return token || null;
+}
+
+// Fallback for clients that cannot pick a subprotocol: an `encoding` query parameter
+function readEncoding(req: IncomingMessage): WireEncoding | null {
+  const encoding = new URL(req.url || '/', 'http://localhost').searchParams.get('encoding');
+  if (encoding === null) return 'json';
+  return isWireEncoding(encoding) ? encoding : null;
+}
+
+function toBuffer(data: RawData): Buffer {
+  if (Array.isArray(data)) return Buffer.concat(data);
+  return Buffer.isBuffer(data) ? data : Buffer.from(data);
+}
+
+/**
+ * Minimal JSON protocol over WebSocket for clients that do not need GraphQL,
+ * e.g. high-rate cursor streams. Every operation runs through the GraphQL
+ * resolvers, so auth, ACL checks, rate limits, slow-client handling and
+ * fan-out are shared with the GraphQL transports; only the framing is lighter.
+ * Clients that pick the `msgpack` subprotocol get the same messages as
+ * MessagePack in binary frames.
+ */
+export class RawWebSocketServer {
+  private wss: WebSocketServer;
+
+  constructor() {
+    this.wss = new WebSocketServer({
+      noServer: true,
+      maxPayload: config.rawWebSocket.maxPayloadBytes,
+      handleProtocols: (protocols) => [...protocols].find(isWireEncoding) ?? false,
+    });
+    this.wss.on('error', (error) => {
+      logger.error('Raw WebSocket server error:', error);
+    });
+  }
+
+  // Authenticates before the handshake, so unauthenticated clients never get a socket
+  async handleUpgrade(req: IncomingMessage, socket: Duplex, head: Buffer): Promise<void> {
+    const requested = readEncoding(req);
+    if (!requested) {
+      socket.end('HTTP/1.1 400 Bad Request\r\nConnection: close\r\nContent-Length: 0\r\n\r\n');
+      return;
+    }
+
+    const token = readToken(req);
+    const user = token ? await firebaseAuth.verifyToken(token) : null;
+    if (!user) {
+      socket.end('HTTP/1.1 401 Unauthorized\r\nConnection: close\r\nContent-Length: 0\r\n\r\n');
+      return;
+    }
+
+    this.wss.handleUpgrade(req, socket, head, (ws) => {
+      // A negotiated subprotocol wins over the query parameter
+      const encoding = isWireEncoding(ws.protocol) ? ws.protocol : requested;
+      this.accept({ socket: ws, user, encoding, subscriptions: new Map(), starting: new Set() });
+    });
+  }
+
+  private accept(connection: Connection): void {
+    const { socket, user } = connection;
+    logger.info(`Raw WebSocket connection established for user ${user.userId} (${connection.encoding})`);
+
+    // Binary frames carry MessagePack; text frames are JSON on either encoding
+    socket.on('message', (data: RawData, isBinary: boolean) => {
+      if (isBinary && connection.encoding !== 'msgpack') {
+        void this.send(connection, { type: 'error', message: 'Invalid message: expected a text frame' });
+        return;
+      }
+      this.handleMessage(connection, isBinary ? toBuffer(data) : data.toString()).catch(error => {
+        logger.error('Raw WebSocket message failed:', error);
+        void this.send(connection, { type: 'error', message: 'An internal error occurred' });
+      });
+    });
+
+    socket.on('close', () => {
+      const iterators = [...connection.subscriptions.values()];
+      connection.subscriptions.clear();
+      connection.starting.clear();
+      for (const iterator of iterators) {
+        void iterator.return?.();
+      }
+      logger.info(`Raw WebSocket connection closed for user ${user.userId}`);
+    });
+
+    socket.on('error', (error) => {
+      logger.error('Raw WebSocket connection error:', error);
+    });
+  }
+
+  private async handleMessage(connection: Connection, raw: string | Buffer): Promise<void> {
+    const message = parseClientMessage(raw);
+    if (typeof message === 'string') {
+      void this.send(connection, { type: 'error', message });
+      return;
+    }
+
+    const context = { user: connection.user, rateLimits: [] as RateLimitResult[] };
+    switch (message.type) {
+      case 'subscribe':
+        await this.subscribe(connection, message);
+        return;
+      case 'unsubscribe': {
+        const iterator = connection.subscriptions.get(message.id);
+        connection.subscriptions.delete(message.id);
+        connection.starting.delete(message.id);
+        await iterator?.return?.();
+        return;
+      }
+      case 'publish': {
+        const result = await resolvers.Mutation.publishEvent(undefined, { input: message.event }, context);
+        void this.send(connection, { type: 'result', ...(message.id !== undefined ? { id: message.id } : {}), result });
+        return;
+      }
+      case 'ack': {
+        const { topicId, upToSeq, consumer } = message;
+        const result = await resolvers.Mutation.ackEvents(
+          undefined,
+          { topicId, upToSeq, ...(consumer !== undefined ? { consumer } : {}) },
+          context
+        );
+        void this.send(connection, { type: 'result', ...(message.id !== undefined ? { id: message.id } : {}), result });
+        return;
+      }
+      case 'ping':
+        void this.send(connection, { type: 'pong', ...(message.id !== undefined ? { id: message.id } : {}) });
+        return;
+    }
+  }
+
+  private async subscribe(connection: Connection, message: Extract<ClientMessage, { type: 'subscribe' }>): Promise<void> {
+    const { id, topicId, fromSeq, filter, ack, consumer } = message;
+    if (connection.subscriptions.has(id) || connection.starting.has(id)) {
+      void this.send(connection, { type: 'error', id, message: `Subscription ${id} already exists` });
+      return;
+    }
+    if (connection.subscriptions.size + connection.starting.size >= config.rawWebSocket.maxSubscriptions) {
+      void this.send(connection, { type: 'error', id, message: 'Too many subscriptions on this connection' });
+      return;
+    }
+
+    connection.starting.add(id);
+    let iterator: AsyncIterator<Payload>;
+    try {
+      iterator = await resolvers.Subscription.topicEvents.subscribe(
+        undefined,
+        {
+          topicId,
+          ...(fromSeq !== undefined ? { fromSeq } : {}),
+          ...(filter !== undefined ? { filter } : {}),
+          ...(ack !== undefined ? { ack } : {}),
+          ...(consumer !== undefined ? { consumer } : {}),
+        },
+        { user: connection.user }
+      );
+    } catch (error) {
+      connection.starting.delete(id);
+      void this.send(connection, { type: 'error', id, message: error instanceof Error ? error.message : 'Failed to subscribe to topic' });
+      return;
+    }
+
+    // The client may have unsubscribed or hung up while the subscription was set up
+    const cancelled = !connection.starting.delete(id);
+    if (cancelled || connection.socket.readyState !== WebSocket.OPEN) {
+      await iterator.return?.();
+      return;
+    }
+    connection.subscriptions.set(id, iterator);
+    void this.send(connection, { type: 'subscribed', id });
+    void this.pump(connection, id, iterator);
+  }
+
+  /**
+   * Forwards events until the subscription ends. The next event is only pulled
+   * once the previous frame has been written, so a slow client's backlog stays
+   * in the subscription's bounded buffer instead of piling up in the socket.
+   */
+  private async pump(connection: Connection, id: string, iterator: AsyncIterator<Payload>): Promise<void> {
+    try {
+      for (;;) {
+        const result = await iterator.next();
+        if (result.done || connection.subscriptions.get(id) !== iterator) break;
+        await this.send(connection, { type: 'event', id, event: result.value.topicEvents });
+      }
+    } catch (error) {
+      logger.error(`Raw WebSocket subscription ${id} failed:`, error);
+    }
+
+    // Ended by the server (e.g. the disconnect slow-client policy) rather than by the client
+    if (connection.subscriptions.get(id) === iterator) {
+      connection.subscriptions.delete(id);
+      await this.send(connection, { type: 'complete', id });
+    }
+  }
+
+  private send(connection: Connection, message: ServerMessage): Promise<void> {
+    return new Promise(resolve => {
+      if (connection.socket.readyState !== WebSocket.OPEN) {
+        resolve();
+        return;
+      }
+      if (connection.encoding === 'msgpack') {
+        connection.socket.send(encodeMsgpack(message), { binary: true }, () => resolve());
+      } else {
+        connection.socket.send(JSON.stringify(message), () => resolve());
+      }
+    });
+  }
+
+  close(): void {
+    for (const client of this.wss.clients) {
+      client.close(1001, 'Server shutting down');
+    }
+    this.wss.close();
+  }
+}
@@ -0,0 +1,193 @@
+import { Express, Request, Response } from 'express';
+import {
+  DocumentNode,
+  ExecutionResult,
+  GraphQLError,
+  GraphQLSchema,
+  createSourceEventStream,
+  execute,
+  getOperationAST,
+  parse,
+  validate,
+} from 'graphql';
+import { makeExecutableSchema } from '@graphql-tools/schema';
+import { typeDefs } from '../graphql/schema';
+import { resolvers } from '../graphql/resolvers';
+import { firebaseAuth } from './auth';
+import { logger } from '../utils/logger';
+
+const STREAM_PATH = '/graphql/stream';
+const KEEP_ALIVE_MS = 15000; // comment lines stop proxies from timing out idle streams
+
+interface OperationRequest {
+  query: string;
+  variables?: Record<string, unknown>;
+  operationName?: string;
+}
+
+// POST sends the operation as JSON, GET as query parameters with JSON-encoded variables
+function readOperation(req: Request): OperationRequest | string {
+  const source = req.method === 'GET' ? req.query : req.body;
+  if (!source || typeof source.query !== 'string') {
+    return 'Missing query';
+  }
+  let variables = source.variables;
+  if (typeof variables === 'string') {
+    try {
+      variables = JSON.parse(variables);
+    } catch {
+      return 'Variables are not valid JSON';
+    }
+  }
+  if (variables !== undefined && variables !== null && typeof variables !== 'object') {
+    return 'Variables must be an object';
+  }
+  return {
+    query: source.query,
+    ...(variables ? { variables } : {}),
+    ...(typeof source.operationName === 'string' ? { operationName: source.operationName } : {}),
+  };
+}
+
+// Last-Event-ID is the seq of the last event the client received
+function readLastEventSeq(req: Request): number | undefined {
+  const header = req.header('Last-Event-ID');
+  return header !== undefined && /^\d+$/.test(header) ? Number(header) : undefined;
+}
+
+function writeEvent(res: Response, event: 'next' | 'complete', data?: ExecutionResult, id?: number): void {
+  const lines = [
+    ...(id !== undefined ? [`id: ${id}`] : []),
+    `event: ${event}`,
+    `data: ${data ? JSON.stringify(data) : ''}`,
+  ];
+  res.write(`${lines.join('\n')}\n\n`);
+}
+
+/**
+ * GraphQL over Server-Sent Events (the graphql-sse protocol, distinct
+ * connections mode) for clients whose proxies break WebSockets. Each request
+ * carries one operation and gets its results as `next` events followed by
+ * `complete`. `topicEvents` results carry the event seq as the SSE id, so a
+ * reconnect with Last-Event-ID resumes right after the last delivered event.
+ */
+export class SseSubscriptionServer {
+  private schema: GraphQLSchema;
+
+  constructor(app: Express) {
+    this.schema = makeExecutableSchema({
+      typeDefs,
+      resolvers,
+    });
+
+    const handler = (req: Request, res: Response): void => {
+      this.handle(req, res).catch(error => {
+        logger.error('SSE request failed:', error);
+        if (!res.headersSent) {
+          res.status(500).json({ errors: [{ message: 'An internal error occurred' }] });
+        } else {
+          res.end();
+        }
+      });
+    };
+    app.get(STREAM_PATH, handler);
+    app.post(STREAM_PATH, handler);
+  }
+
+  private async handle(req: Request, res: Response): Promise<void> {
+    const authHeader = req.headers.authorization;
+    const user = authHeader ? await firebaseAuth.verifyToken(authHeader.replace('Bearer ', '')) : null;
+    if (!user) {
+      res.status(401).json({ errors: [{ message: 'Authentication required' }] });
+      return;
+    }
+
+    const operation = readOperation(req);
+    if (typeof operation === 'string') {
+      res.status(400).json({ errors: [{ message: operation }] });
+      return;
+    }
+
+    let document: DocumentNode;
+    try {
+      document = parse(operation.query);
+    } catch (error) {
+      res.status(400).json({ errors: [error instanceof GraphQLError ? error : { message: 'Invalid query' }] });
+      return;
+    }
+    const validationErrors = validate(this.schema, document);
+    if (validationErrors.length > 0) {
+      res.status(400).json({ errors: validationErrors });
+      return;
+    }
+    const operationAST = getOperationAST(document, operation.operationName);
+    if (!operationAST) {
+      res.status(400).json({ errors: [{ message: 'Unable to identify operation' }] });
+      return;
+    }
+
+    const lastEventSeq = readLastEventSeq(req);
+    const args = {
+      schema: this.schema,
+      document,
+      contextValue: { user, ...(lastEventSeq !== undefined ? { resumeAfterSeq: lastEventSeq } : {}) },
+      ...(operation.variables ? { variableValues: operation.variables } : {}),
+      ...(operation.operationName ? { operationName: operation.operationName } : {}),
+    };
+
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform', // no-transform keeps compression from buffering
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no',
+    });
+    res.flushHeaders();
+
+    if (operationAST.operation !== 'subscription') {
+      writeEvent(res, 'next', await execute(args));
+      writeEvent(res, 'complete');
+      res.end();
+      return;
+    }
+
+    // The request body has already been read by express.json, so only the
+    // response reports the client hanging up. Listening before subscribing
+    // also catches clients that leave while the subscription is set up.
+    let events: AsyncIterator<unknown> | null = null;
+    const keepAlive = setInterval(() => res.write(':\n\n'), KEEP_ALIVE_MS);
+    res.on('close', () => {
+      clearInterval(keepAlive);
+      void events?.return?.();
+    });
+
+    try {
+      const stream = await createSourceEventStream(args);
+      if (!(Symbol.asyncIterator in stream)) {
+        // Subscribe-time errors (auth, ACL, validation) come back as a single result
+        writeEvent(res, 'next', stream);
+        writeEvent(res, 'complete');
+        return;
+      }
+
+      events = stream[Symbol.asyncIterator]();
+      if (res.destroyed) {
+        await events.return?.();
+        return;
+      }
+
+      for (let next = await events.next(); !next.done && !res.writableEnded && !res.destroyed; next = await events.next()) {
+        // Same per-event execution as graphql's subscribe(), keeping the source event for its seq
+        const payload = next.value as { topicEvents?: { seq?: number } };
+        const result = await execute({ ...args, rootValue: payload });
+        const seq = payload.topicEvents?.seq;
+        writeEvent(res, 'next', result, typeof seq === 'number' && seq > 0 ? seq : undefined);
+      }
+      if (!res.writableEnded && !res.destroyed) {
+        writeEvent(res, 'complete');
+      }
+    } finally {
+      clearInterval(keepAlive);
+      res.end();
+    }
+  }
+}
@@ -1,4 +1,7 @@
-import { WebSocketServer } from 'ws';
+import { IncomingMessage } from 'http';
+import { Duplex } from 'stream';
+import { WebSocket, WebSocketServer } from 'ws';
+import { CloseCode } from 'graphql-ws';
 import { useServer } from 'graphql-ws/lib/use/ws';
 import { makeExecutableSchema } from '@graphql-tools/schema';
 import { typeDefs } from '../graphql/schema';
@@ -6,16 +9,23 @@ import { resolvers } from '../graphql/resolvers';
 import { firebaseAuth } from './auth';
 import { topicManager } from './topicManager';
 import { logger } from '../utils/logger';
+import { encodeMsgpack, isWireEncoding } from '../utils/encoding';
+
+// graphql-ws only writes JSON text, so each message is re-encoded into a binary frame
+function sendAsMsgpack(socket: WebSocket): void {
+  const send = socket.send.bind(socket);
+  socket.send = ((data: string, cb?: (err?: Error) => void) => {
+    send(encodeMsgpack(JSON.parse(data)), { binary: true }, cb);
+  }) as WebSocket['send'];
+}
 
 export class SubscriptionServer {
   private wss: WebSocketServer;
   private connectionMap = new Map<string, string>(); // connectionId -> userId
 
-  constructor(server: import('http').Server) {
-    this.wss = new WebSocketServer({
-      server,
-      path: '/graphql',
-    });
+  // Upgrades are routed here by the HTTP server, which also serves the raw protocol
+  constructor() {
+    this.wss = new WebSocketServer({ noServer: true });
 
     this.setupGraphQLWS();
     this.setupConnectionHandling();
@@ -49,8 +59,19 @@ export class SubscriptionServer {
             user: authContext,
           } as { user: { userId: string; tenantId: string } };
         },
-        onConnect: async () => {
-          logger.info('WebSocket connection established');
+        onConnect: async (ctx) => {
+          // The `encoding` connection param picks the server-to-client framing;
+          // the graphql-transport-ws subprotocol leaves no room to negotiate it there
+          const encoding = ctx.connectionParams?.encoding ?? 'json';
+          if (!isWireEncoding(encoding)) {
+            ctx.extra.socket.close(CloseCode.BadRequest, 'Invalid encoding');
+            return false;
+          }
+          if (encoding === 'msgpack') {
+            sendAsMsgpack(ctx.extra.socket);
+          }
+          logger.info(`WebSocket connection established (${encoding})`);
+          return true;
         },
         onDisconnect: async () => {
           logger.info('WebSocket connection closed');
@@ -78,6 +99,12 @@ export class SubscriptionServer {
     }
   }
 
+  handleUpgrade(req: IncomingMessage, socket: Duplex, head: Buffer): void {
+    this.wss.handleUpgrade(req, socket, head, (ws) => {
+      this.wss.emit('connection', ws, req);
+    });
+  }
+
   getWSS(): WebSocketServer {
     return this.wss;
   }
@@ -1,6 +1,7 @@
 import { Event, Topic, Subscriber } from '../types';
 import { logger } from '../utils/logger';
 import { config } from '../config';
+import { orderByPriority, selectOverflowVictims } from '../utils/envelope';
 
 export class TopicManager {
   private topics = new Map<string, Topic>();
@@ -54,11 +55,12 @@ export class TopicManager {
         subscriber.queue.push(event);
         subscriber.lastSeen = Date.now();
       } else if (subscriber.queue.length >= config.topic.maxSubscriberQueueSize) {
-        // Handle slow client - drop oldest event and add new one
-        subscriber.queue.shift();
+        // Handle slow client - drop the lowest-priority event and add new one
         subscriber.queue.push(event);
+        const [victim] = selectOverflowVictims(subscriber.queue, 1);
+        subscriber.queue.splice(victim!, 1);
         subscriber.lastSeen = Date.now();
-        logger.warn(`Slow client detected for subscriber ${subscriber.id}, dropped oldest event`);
+        logger.warn(`Slow client detected for subscriber ${subscriber.id}, dropped lowest-priority event`);
       }
     }
   }
@@ -100,7 +102,7 @@ export class TopicManager {
     const subscriber = this.getSubscriber(topicId, subscriberId);
     if (!subscriber) return [];
 
-    const events = [...subscriber.queue];
+    const events = orderByPriority(subscriber.queue);
     subscriber.queue = [];
     subscriber.lastSeen = Date.now();
     
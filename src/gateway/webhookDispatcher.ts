@@ -0,0 +1,152 @@
+import { createHmac } from 'crypto';
+import { EventEnvelope as Event, StoredWebhook, WebhookAttemptOutcome } from '../types';
+import { logger } from '../utils/logger';
+import { config } from '../config';
+import { isExpired } from '../utils/envelope';
+import { validateWebhookTarget } from '../utils/webhookTarget';
+import { CircuitBreaker, ErrorHandler } from '../utils/errorHandler';
+import { webhookStore } from '../redis/webhooks';
+
+class WebhookHttpError extends Error {
+  constructor(public readonly status: number) {
+    super(`Webhook endpoint responded with ${status}`);
+    this.name = 'WebhookHttpError';
+  }
+}
+
+/**
+ * Signature sent in X-Webhook-Signature. Receivers recompute it over
+ * `${timestamp}.${body}` with their secret and compare, and should reject old
+ * timestamps to stop replays.
+ */
+export function signPayload(secret: string, timestamp: number, body: string): string {
+  return `sha256=${createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`;
+}
+
+/**
+ * Pushes events to the webhooks registered on their topic. Each delivery is
+ * retried with exponential backoff, every attempt is recorded, and events that
+ * exhaust WEBHOOK_MAX_ATTEMPTS go to the webhook's dead-letter list. Endpoints
+ * that keep failing trip their circuit breaker, so attempts fail fast until
+ * WEBHOOK_BREAKER_RESET_MS has passed. Retries run on the node that accepted
+ * the publish and are lost if it stops.
+ */
+export class WebhookDispatcher {
+  private breakers = new Map<string, CircuitBreaker>();
+
+  private breakerFor(webhookId: string): CircuitBreaker {
+    let breaker = this.breakers.get(webhookId);
+    if (!breaker) {
+      breaker = new CircuitBreaker(config.webhooks.breakerThreshold, config.webhooks.breakerResetMs);
+      this.breakers.set(webhookId, breaker);
+    }
+    return breaker;
+  }
+
+  async dispatch(event: Event): Promise<void> {
+    try {
+      const webhooks = (await webhookStore.listStored(event.tenantId, event.topicId))
+        .filter(webhook => webhook.eventTypes === null || webhook.eventTypes.includes(event.type));
+      await Promise.allSettled(webhooks.map(webhook => this.deliver(webhook, event)));
+    } catch (error) {
+      logger.error(`Failed to dispatch event ${event.id} to webhooks:`, error);
+    }
+  }
+
+  private async deliver(webhook: StoredWebhook, event: Event): Promise<void> {
+    const body = JSON.stringify(event);
+    const breaker = this.breakerFor(webhook.id);
+    let attempt = 0;
+
+    try {
+      await ErrorHandler.withRetry(async () => {
+        attempt++;
+        if (isExpired(event)) return; // nobody wants it any more; stop retrying quietly
+        const started = Date.now();
+        let reached = false; // false when the open breaker short-circuited the attempt
+        try {
+          const status = await ErrorHandler.withCircuitBreaker(() => {
+            reached = true;
+            return this.post(webhook, body, attempt);
+          }, breaker);
+          await this.record(webhook, event, attempt, 'delivered', started, status);
+        } catch (error) {
+          const status = error instanceof WebhookHttpError ? error.status : null;
+          await this.record(webhook, event, attempt, reached ? 'failed' : 'circuit_open', started, status, error);
+          throw error;
+        }
+      }, {
+        maxAttempts: config.webhooks.maxAttempts,
+        delayMs: config.webhooks.retryDelayMs,
+        maxDelayMs: config.webhooks.maxRetryDelayMs,
+        backoffMultiplier: 2,
+      });
+    } catch (error) {
+      logger.warn(`Webhook ${webhook.id} gave up on event ${event.id} after ${attempt} attempts`);
+      await webhookStore.deadLetter(event.tenantId, {
+        webhookId: webhook.id,
+        event,
+        attempts: attempt,
+        lastError: error instanceof Error ? error.message : String(error),
+        ts: Date.now(),
+      }).catch(dlqError => logger.error(`Failed to dead-letter event ${event.id}:`, dlqError));
+    }
+  }
+
+  private async post(webhook: StoredWebhook, body: string, attempt: number): Promise<number> {
+    // The host was checked at registration, but its DNS may point somewhere private by now
+    const target = await validateWebhookTarget(webhook.url);
+    if (!target.isValid) {
+      throw new Error(target.errors.join(', '));
+    }
+
+    const timestamp = Math.floor(Date.now() / 1000);
+    const response = await fetch(webhook.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'X-Webhook-Id': webhook.id,
+        'X-Webhook-Timestamp': String(timestamp),
+        'X-Webhook-Signature': signPayload(webhook.secret, timestamp, body),
+        'X-Webhook-Attempt': String(attempt),
+      },
+      body,
+      // A redirect could lead to a private host; it counts as a failed delivery instead
+      redirect: 'manual',
+      signal: AbortSignal.timeout(config.webhooks.timeoutMs),
+    });
+    if (!response.ok) {
+      throw new WebhookHttpError(response.status);
+    }
+    return response.status;
+  }
+
+  // History is for debugging; losing an entry must not fail the delivery
+  private async record(
+    webhook: StoredWebhook,
+    event: Event,
+    attempt: number,
+    outcome: WebhookAttemptOutcome,
+    started: number,
+    status: number | null,
+    error?: unknown
+  ): Promise<void> {
+    try {
+      await webhookStore.recordAttempt(event.tenantId, {
+        webhookId: webhook.id,
+        eventId: event.id,
+        seq: event.seq,
+        attempt,
+        outcome,
+        status,
+        error: error === undefined ? null : error instanceof Error ? error.message : String(error),
+        durationMs: Date.now() - started,
+        ts: Date.now(),
+      });
+    } catch (recordError) {
+      logger.error(`Failed to record webhook attempt for ${webhook.id}:`, recordError);
+    }
+  }
+}
+
+export const webhookDispatcher = new WebhookDispatcher();
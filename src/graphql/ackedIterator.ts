@@ -0,0 +1,170 @@
+import { EventEnvelope as Event } from '../types';
+import { logger } from '../utils/logger';
+import { config } from '../config';
+import { ackCursorStore } from '../redis/ackStore';
+import { redisTopicManager } from '../redis/topicManager';
+
+type Payload = { topicEvents: Event };
+
+interface Pending {
+  event: Event;
+  attempts: number;
+}
+
+interface InFlight extends Pending {
+  sentAt: number;
+}
+
+// Unacked events tracked per subscription; older ones are left to the next reconnect
+const MAX_IN_FLIGHT = 1000;
+
+export interface AckedIteratorOptions {
+  tenantId: string;
+  topicId: string;
+  userId: string;
+  consumer: string; // whose committed cursor decides what is still unacked
+  fromSeq: number; // first seq to replay from the stream
+  accept?: (event: Event) => boolean;
+}
+
+/**
+ * At-least-once wrapper around a live topic iterator. Replays the stream from
+ * `fromSeq`, then passes live events through (deduplicated by seq), and
+ * re-sends any event the committed cursor has not covered within
+ * ACK_TIMEOUT_MS, up to ACK_MAX_REDELIVERIES times.
+ */
+export class AckedEventIterator implements AsyncIterableIterator<Payload> {
+  private ready: Pending[] = [];
+  private waiters: Array<(result: IteratorResult<Payload>) => void> = [];
+  private inFlight = new Map<number, InFlight>();
+  private buffered: Event[] = []; // live events that arrive while the backlog loads
+  private backlogLoaded = false;
+  private highestSeq: number;
+  private done = false;
+  private retryTimer: NodeJS.Timeout;
+
+  constructor(private live: AsyncIterator<Payload>, private options: AckedIteratorOptions) {
+    this.highestSeq = options.fromSeq - 1;
+    // Subscribe to live events before reading the backlog so nothing falls in between
+    void this.pump();
+    void this.loadBacklog();
+    this.retryTimer = setInterval(() => {
+      void this.retryUnacked();
+    }, Math.max(1000, Math.floor(config.ack.timeoutMs / 2)));
+  }
+
+  private async pump(): Promise<void> {
+    try {
+      while (!this.done) {
+        const result = await this.live.next();
+        if (result.done) break;
+        if (this.backlogLoaded) {
+          this.offer(result.value.topicEvents);
+        } else {
+          this.buffered.push(result.value.topicEvents);
+        }
+      }
+    } catch (error) {
+      logger.error(`Live event stream failed for topic ${this.options.topicId}:`, error);
+    }
+  }
+
+  private async loadBacklog(): Promise<void> {
+    const { tenantId, topicId, fromSeq } = this.options;
+    try {
+      const backlog = await redisTopicManager.readFromSeq(tenantId, topicId, fromSeq);
+      for (const event of backlog) {
+        this.offer(event);
+      }
+    } catch (error) {
+      logger.error(`Failed to load redelivery backlog for topic ${topicId}:`, error);
+    }
+    this.backlogLoaded = true;
+    for (const event of this.buffered.splice(0)) {
+      this.offer(event);
+    }
+  }
+
+  private offer(event: Event): void {
+    if (event.seq <= this.highestSeq) return; // already sent
+    this.highestSeq = event.seq;
+    if (this.options.accept && !this.options.accept(event)) return;
+    this.enqueue({ event, attempts: 1 });
+  }
+
+  private enqueue(item: Pending): void {
+    const waiter = this.waiters.shift();
+    if (waiter) {
+      waiter(this.handOff(item));
+    } else {
+      this.ready.push(item);
+    }
+  }
+
+  // Events count as in flight from the moment they are pulled, by the client or a wrapping buffer
+  private handOff(item: Pending): IteratorResult<Payload> {
+    if (this.inFlight.size >= MAX_IN_FLIGHT) {
+      const oldest = this.inFlight.keys().next().value as number;
+      this.inFlight.delete(oldest);
+    }
+    this.inFlight.set(item.event.seq, { ...item, sentAt: Date.now() });
+    return { value: { topicEvents: item.event }, done: false };
+  }
+
+  async retryUnacked(): Promise<void> {
+    if (this.done || this.inFlight.size === 0) return;
+    const { tenantId, topicId, userId, consumer } = this.options;
+    try {
+      const committed = (await ackCursorStore.get(tenantId, topicId, userId, consumer)) ?? 0;
+      const now = Date.now();
+      const due: Pending[] = [];
+      for (const [seq, entry] of this.inFlight) {
+        if (seq <= committed) {
+          this.inFlight.delete(seq);
+        } else if (now - entry.sentAt >= config.ack.timeoutMs) {
+          this.inFlight.delete(seq);
+          if (entry.attempts > config.ack.maxRedeliveries) {
+            logger.warn(`Giving up on event seq ${seq} for user ${userId} on topic ${topicId} after ${entry.attempts} deliveries`);
+            continue;
+          }
+          due.push({ event: entry.event, attempts: entry.attempts + 1 });
+        }
+      }
+      due.sort((a, b) => a.event.seq - b.event.seq).forEach(item => this.enqueue(item));
+    } catch (error) {
+      logger.error(`Failed to check acknowledgements for topic ${topicId}:`, error);
+    }
+  }
+
+  async next(): Promise<IteratorResult<Payload>> {
+    if (this.done) {
+      return { value: undefined, done: true };
+    }
+    const item = this.ready.shift();
+    if (item) {
+      return this.handOff(item);
+    }
+    return new Promise(resolve => this.waiters.push(resolve));
+  }
+
+  async return(): Promise<IteratorResult<Payload>> {
+    if (!this.done) {
+      this.done = true;
+      clearInterval(this.retryTimer);
+      for (const waiter of this.waiters.splice(0)) {
+        waiter({ value: undefined, done: true });
+      }
+      await this.live.return?.();
+    }
+    return { value: undefined, done: true };
+  }
+
+  async throw(error?: unknown): Promise<IteratorResult<Payload>> {
+    await this.return();
+    return Promise.reject(error);
+  }
+
+  [Symbol.asyncIterator](): AsyncIterableIterator<Payload> {
+    return this;
+  }
+}
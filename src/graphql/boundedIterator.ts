@@ -0,0 +1,152 @@
+import { EventEnvelope as Event, SlowClientPolicy } from '../types';
+import { logger } from '../utils/logger';
+import { nextByPriority, selectOverflowVictims } from '../utils/envelope';
+import { DroppedRange, droppedStatus, widenDroppedRange } from '../utils/backpressure';
+import { metricsCollector } from '../monitoring/metrics';
+
+type Payload = { topicEvents: Event };
+
+export interface BoundedIteratorOptions {
+  tenantId: string;
+  capacity: number;
+  // Resolved per topic so multi-topic subscriptions honour each topic's policy
+  policyFor: (topicId: string) => SlowClientPolicy;
+}
+
+/**
+ * Bounds what a live subscription buffers for a client that reads slower
+ * than events arrive. Once `capacity` events are waiting, the topic's
+ * slow-client policy decides what to drop, and the client gets a `status`
+ * envelope with the dropped seq range ahead of the next event:
+ *
+ * - `drop_oldest` / `drop_newest`: drop enough events to fit, lowest priority first
+ * - `pause_resync`: drop the buffer and everything after it until the client
+ *   has read the notice, then carry on live; the client resyncs the gap
+ * - `disconnect`: drop the buffer, send the notice and end the subscription
+ */
+export class BoundedEventIterator implements AsyncIterableIterator<Payload> {
+  private buffer: Event[] = [];
+  private waiters: Array<(result: IteratorResult<Payload>) => void> = [];
+  private dropped = new Map<string, { policy: SlowClientPolicy; range: DroppedRange }>();
+  private paused = new Set<string>(); // topics waiting for their notice to be read
+  private closing = false;
+  private done = false;
+
+  constructor(private live: AsyncIterator<Payload>, private options: BoundedIteratorOptions) {
+    void this.pump();
+  }
+
+  private async pump(): Promise<void> {
+    try {
+      while (!this.done && !this.closing) {
+        const result = await this.live.next();
+        if (result.done) break;
+        this.offer(result.value.topicEvents);
+      }
+    } catch (error) {
+      logger.error('Live event stream failed:', error);
+    }
+  }
+
+  private offer(event: Event): void {
+    if (this.closing) return;
+    const policy = this.options.policyFor(event.topicId);
+    if (this.paused.has(event.topicId)) {
+      this.recordDropped(event.topicId, policy, [event]);
+      return;
+    }
+
+    const waiter = this.waiters.shift();
+    if (waiter) {
+      waiter({ value: { topicEvents: event }, done: false });
+      return;
+    }
+
+    this.buffer.push(event);
+    if (this.buffer.length > this.options.capacity) {
+      this.overflow(event.topicId, policy);
+    }
+  }
+
+  private overflow(topicId: string, policy: SlowClientPolicy): void {
+    if (policy === 'drop_oldest' || policy === 'drop_newest') {
+      const victims = new Set(selectOverflowVictims(
+        this.buffer,
+        this.buffer.length - this.options.capacity,
+        policy === 'drop_oldest' ? 'oldest' : 'newest'
+      ));
+      const removed = this.buffer.filter((_, index) => victims.has(index));
+      this.buffer = this.buffer.filter((_, index) => !victims.has(index));
+      for (const event of removed) {
+        this.recordDropped(event.topicId, policy, [event]);
+      }
+    } else {
+      for (const event of this.buffer.splice(0)) {
+        this.recordDropped(event.topicId, policy, [event]);
+      }
+      if (policy === 'pause_resync') {
+        this.paused.add(topicId);
+      } else {
+        this.closing = true;
+        void this.live.return?.();
+      }
+    }
+    logger.warn(`Slow subscriber on topic ${topicId}, applied ${policy}`);
+  }
+
+  private recordDropped(topicId: string, policy: SlowClientPolicy, events: Event[]): void {
+    const previous = this.dropped.get(topicId);
+    this.dropped.set(topicId, {
+      policy: previous?.policy ?? policy,
+      range: widenDroppedRange(previous?.range, events),
+    });
+    events.forEach(() => metricsCollector.onDrop());
+  }
+
+  async next(): Promise<IteratorResult<Payload>> {
+    if (this.done) {
+      return { value: undefined, done: true };
+    }
+
+    // Drop notices go out ahead of the events still buffered
+    const notice = this.dropped.entries().next();
+    if (!notice.done) {
+      const [topicId, { policy, range }] = notice.value;
+      this.dropped.delete(topicId);
+      this.paused.delete(topicId);
+      return { value: { topicEvents: droppedStatus(this.options.tenantId, topicId, policy, range) }, done: false };
+    }
+
+    // Buffered events go out in the same priority order as queued deliveries
+    const index = nextByPriority(this.buffer);
+    if (index !== -1) {
+      const [event] = this.buffer.splice(index, 1);
+      return { value: { topicEvents: event! }, done: false };
+    }
+    if (this.closing) {
+      return this.return();
+    }
+    return new Promise(resolve => this.waiters.push(resolve));
+  }
+
+  async return(): Promise<IteratorResult<Payload>> {
+    if (!this.done) {
+      this.done = true;
+      for (const waiter of this.waiters.splice(0)) {
+        waiter({ value: undefined, done: true });
+      }
+      this.buffer = [];
+      await this.live.return?.();
+    }
+    return { value: undefined, done: true };
+  }
+
+  async throw(error?: unknown): Promise<IteratorResult<Payload>> {
+    await this.return();
+    return Promise.reject(error);
+  }
+
+  [Symbol.asyncIterator](): AsyncIterableIterator<Payload> {
+    return this;
+  }
+}
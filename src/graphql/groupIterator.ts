@@ -0,0 +1,112 @@
+import { GroupDelivery } from '../types';
+import { logger } from '../utils/logger';
+import { config } from '../config';
+import { consumerGroupManager } from '../redis/consumerGroups';
+
+type Payload = { groupEvents: GroupDelivery };
+
+export interface GroupIteratorOptions {
+  tenantId: string;
+  topicId: string;
+  group: string;
+  consumer: string;
+}
+
+/**
+ * Pulls events for one consumer of a consumer group. Reads only happen when
+ * the client asks for the next event, so a slow worker never takes more than
+ * one batch away from the rest of the group. On start the consumer first gets
+ * back whatever it still had pending; entries other consumers left pending
+ * longer than GROUP_CLAIM_IDLE_MS are claimed whenever the group runs dry.
+ */
+export class GroupEventIterator implements AsyncIterableIterator<Payload> {
+  private buffer: GroupDelivery[] = [];
+  private resumeFrom: string | null = '-'; // XPENDING position while resuming own entries
+  private lastClaimAt = 0;
+  private done = false;
+  private sleepTimer: NodeJS.Timeout | null = null;
+  private wake: (() => void) | null = null;
+
+  constructor(private options: GroupIteratorOptions) {}
+
+  private async fill(): Promise<void> {
+    const { tenantId, topicId, group, consumer } = this.options;
+    const count = config.consumerGroups.batchSize;
+
+    if (this.resumeFrom !== null) {
+      const resumed = await consumerGroupManager.claim(tenantId, topicId, group, consumer, {
+        minIdleMs: 0,
+        count,
+        owner: consumer,
+        start: this.resumeFrom,
+      });
+      this.resumeFrom = resumed.scanned < count || !resumed.lastId ? null : `(${resumed.lastId}`;
+      this.buffer.push(...resumed.deliveries);
+      if (this.buffer.length > 0) return;
+    }
+
+    const fresh = await consumerGroupManager.readNew(tenantId, topicId, group, consumer, count);
+    this.buffer.push(...fresh);
+
+    // Busy consumers still sweep for stuck entries once per idle period
+    const claimDue = Date.now() - this.lastClaimAt >= config.consumerGroups.claimIdleMs;
+    if (fresh.length === 0 || claimDue) {
+      this.lastClaimAt = Date.now();
+      const stuck = await consumerGroupManager.claim(tenantId, topicId, group, consumer, {
+        minIdleMs: config.consumerGroups.claimIdleMs,
+        count,
+      });
+      if (stuck.deliveries.length > 0) {
+        logger.info(`Consumer ${consumer} claimed ${stuck.deliveries.length} stuck events in group ${group} on topic ${topicId}`);
+      }
+      this.buffer.push(...stuck.deliveries);
+    }
+  }
+
+  private sleep(ms: number): Promise<void> {
+    return new Promise(resolve => {
+      this.wake = resolve;
+      this.sleepTimer = setTimeout(resolve, ms);
+    });
+  }
+
+  async next(): Promise<IteratorResult<Payload>> {
+    while (!this.done) {
+      const delivery = this.buffer.shift();
+      if (delivery) {
+        return { value: { groupEvents: delivery }, done: false };
+      }
+      try {
+        await this.fill();
+      } catch (error) {
+        logger.error(`Failed to read consumer group ${this.options.group} on topic ${this.options.topicId}:`, error);
+      }
+      if (this.buffer.length === 0 && !this.done) {
+        await this.sleep(config.consumerGroups.pollIntervalMs);
+      }
+    }
+    return { value: undefined, done: true };
+  }
+
+  async return(): Promise<IteratorResult<Payload>> {
+    if (!this.done) {
+      this.done = true;
+      if (this.sleepTimer) clearTimeout(this.sleepTimer);
+      this.wake?.();
+      // Buffered events stay pending in Redis and are claimed by the group later
+      this.buffer = [];
+      const { tenantId, topicId, group, consumer } = this.options;
+      await consumerGroupManager.releaseConsumer(tenantId, topicId, group, consumer);
+    }
+    return { value: undefined, done: true };
+  }
+
+  async throw(error?: unknown): Promise<IteratorResult<Payload>> {
+    await this.return();
+    return Promise.reject(error);
+  }
+
+  [Symbol.asyncIterator](): AsyncIterableIterator<Payload> {
+    return this;
+  }
+}
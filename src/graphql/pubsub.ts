@@ -1,10 +1,23 @@
-import { PubSub } from 'graphql-subscriptions';
+import { EventEnvelope } from '../types';
+import { RedisPubSub } from './redisPubSub';
 
-// Singleton PubSub instance to bridge Redis events to GraphQL subscriptions
-export const graphqlPubSub = new PubSub();
+// Singleton PubSub shared by every GraphQL subscription; publishes reach all nodes
+export const graphqlPubSub = new RedisPubSub();
 
 export function channelForTopic(tenantId: string, topicId: string): string {
   return `TOPIC_EVENTS:${tenantId}:${topicId}`;
 }
 
+// Tenant-wide channel consumed by pattern (multi-topic) subscriptions
+export function channelForTenant(tenantId: string): string {
+  return `TENANT_EVENTS:${tenantId}`;
+}
+
+export function channelForPresence(tenantId: string, topicId: string): string {
+  return `PRESENCE_CHANGES:${tenantId}:${topicId}`;
+}
 
+export async function publishTopicEvent(tenantId: string, topicId: string, event: EventEnvelope): Promise<void> {
+  await graphqlPubSub.publish(channelForTopic(tenantId, topicId), { topicEvents: event });
+  await graphqlPubSub.publish(channelForTenant(tenantId), { topicEvents: event });
+}
@@ -0,0 +1,123 @@
+import { PubSubEngine } from 'graphql-subscriptions';
+import { RedisClientType } from 'redis';
+import { logger } from '../utils/logger';
+import { config } from '../config';
+import { redisConnection } from '../redis/connection';
+
+const DEDUPE_CAPACITY = 10000;
+
+type Handler = { trigger: string; onMessage: (payload: any) => void };
+
+// The envelope id of a payload such as `{ topicEvents: event }`, if it has one
+function envelopeId(payload: unknown): string | null {
+  if (payload === null || typeof payload !== 'object') return null;
+  for (const value of Object.values(payload)) {
+    if (value !== null && typeof value === 'object' && typeof (value as { id?: unknown }).id === 'string') {
+      return (value as { id: string }).id;
+    }
+  }
+  return null;
+}
+
+/**
+ * GraphQL PubSub backed by Redis Pub/Sub, so a publish on any node reaches
+ * subscriptions on every node. Each node holds one pattern subscription and
+ * fans messages out to its local subscriptions in memory. A payload whose
+ * envelope id was already delivered on a trigger is dropped, so an event that
+ * arrives twice (a retried publish, a replayed release) reaches clients once.
+ */
+export class RedisPubSub extends PubSubEngine {
+  private redis: RedisClientType | null = null;
+  private subscriber: RedisClientType | null = null;
+  private handlers = new Map<number, Handler>();
+  private byTrigger = new Map<string, Set<number>>();
+  private delivered = new Map<string, true>(); // insertion-ordered, oldest evicted first
+  private nextId = 0;
+
+  private getRedis(): RedisClientType {
+    if (!this.redis) {
+      this.redis = redisConnection.getClient();
+      if (!this.redis) {
+        throw new Error('Redis client not available');
+      }
+    }
+    return this.redis;
+  }
+
+  private channelPrefix(): string {
+    return `${config.redis.keyPrefix}:gql:`;
+  }
+
+  async start(): Promise<void> {
+    if (this.subscriber) return;
+    const subscriber = this.getRedis().duplicate();
+    await subscriber.connect();
+    await subscriber.pSubscribe(`${this.channelPrefix()}*`, (message, channel) => {
+      this.dispatch(channel.slice(this.channelPrefix().length), message);
+    });
+    this.subscriber = subscriber;
+    logger.info('GraphQL PubSub subscribed to Redis');
+  }
+
+  async stop(): Promise<void> {
+    if (!this.subscriber) return;
+    try {
+      await this.subscriber.pUnsubscribe(`${this.channelPrefix()}*`);
+      await this.subscriber.disconnect();
+    } catch (error) {
+      logger.error('Error stopping GraphQL PubSub:', error);
+    }
+    this.subscriber = null;
+  }
+
+  async publish(triggerName: string, payload: any): Promise<void> {
+    await this.getRedis().publish(`${this.channelPrefix()}${triggerName}`, JSON.stringify(payload));
+  }
+
+  async subscribe(triggerName: string, onMessage: (payload: any) => void): Promise<number> {
+    const id = ++this.nextId;
+    this.handlers.set(id, { trigger: triggerName, onMessage });
+    const ids = this.byTrigger.get(triggerName) ?? new Set<number>();
+    ids.add(id);
+    this.byTrigger.set(triggerName, ids);
+    return id;
+  }
+
+  unsubscribe(subId: number): void {
+    const handler = this.handlers.get(subId);
+    if (!handler) return;
+    this.handlers.delete(subId);
+    const ids = this.byTrigger.get(handler.trigger);
+    ids?.delete(subId);
+    if (ids && ids.size === 0) {
+      this.byTrigger.delete(handler.trigger);
+    }
+  }
+
+  private dispatch(trigger: string, message: string): void {
+    let payload: unknown;
+    try {
+      payload = JSON.parse(message);
+    } catch (error) {
+      logger.error(`Dropped malformed GraphQL PubSub message on ${trigger}:`, error);
+      return;
+    }
+
+    const id = envelopeId(payload);
+    if (id !== null) {
+      const dedupeKey = `${trigger}|${id}`;
+      if (this.delivered.has(dedupeKey)) {
+        logger.debug(`Dropped duplicate event ${id} on ${trigger}`);
+        return;
+      }
+      this.delivered.set(dedupeKey, true);
+      if (this.delivered.size > DEDUPE_CAPACITY) {
+        this.delivered.delete(this.delivered.keys().next().value!);
+      }
+    }
+
+    for (const subId of this.byTrigger.get(trigger) ?? []) {
+      this.handlers.get(subId)?.onMessage(payload);
+    }
+  }
+}
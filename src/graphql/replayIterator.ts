@@ -0,0 +1,125 @@
+import { EventEnvelope as Event } from '../types';
+import { logger } from '../utils/logger';
+import { gapStatus, isExpired } from '../utils/envelope';
+import { redisTopicManager } from '../redis/topicManager';
+
+type Payload = { topicEvents: Event };
+
+const BACKLOG_PAGE_SIZE = 1000;
+
+export interface ReplayIteratorOptions {
+  tenantId: string;
+  topicId: string;
+  fromSeq: number;
+  accept?: (event: Event) => boolean; // applied to the backlog; filter live events before they get here
+}
+
+/**
+ * Replays the stream from `fromSeq` to one subscription, then hands over to
+ * its live iterator. The live iterator must already be subscribed so events
+ * published during the replay wait there; live events that were part of the
+ * replay are skipped, so the switch has no gaps or duplicates. If retention
+ * already trimmed `fromSeq`, a `GAP` status envelope goes out first.
+ */
+export class ReplayEventIterator implements AsyncIterableIterator<Payload> {
+  private backlog: Event[] = [];
+  private replayedSeqs = new Set<number>();
+  private backlogLoaded: Promise<void>;
+  private done = false;
+
+  constructor(private live: AsyncIterator<Payload>, private options: ReplayIteratorOptions) {
+    this.backlogLoaded = this.loadBacklog();
+  }
+
+  private async loadBacklog(): Promise<void> {
+    const { tenantId, topicId, fromSeq } = this.options;
+    try {
+      const latestSeq = await redisTopicManager.getLatestSeq(tenantId, topicId);
+      const retained = await this.readRetained(latestSeq);
+
+      const firstRetained = retained[0]?.seq ?? latestSeq + 1;
+      if (fromSeq <= latestSeq && firstRetained > fromSeq) {
+        logger.warn(`Replay for topic ${topicId} from seq ${fromSeq} starts at seq ${firstRetained}: earlier events were trimmed`);
+        this.backlog.push(gapStatus(tenantId, topicId, fromSeq, firstRetained - 1));
+      }
+
+      const now = Date.now();
+      for (const event of retained) {
+        this.replayedSeqs.add(event.seq);
+        if (isExpired(event, now)) continue;
+        if (this.options.accept && !this.options.accept(event)) continue;
+        this.backlog.push(event);
+      }
+    } catch (error) {
+      logger.error(`Failed to load replay backlog for topic ${topicId}:`, error);
+    }
+  }
+
+  // Pages through the stream up to the seq that was latest when the replay
+  // started; anything newer arrives on the live iterator. Expired events are
+  // kept because they still prove their seqs were not trimmed.
+  private async readRetained(latestSeq: number): Promise<Event[]> {
+    const { tenantId, topicId, fromSeq } = this.options;
+    const retained: Event[] = [];
+    let afterId: string | undefined;
+    for (;;) {
+      const page = await redisTopicManager.readEventPage(tenantId, topicId, {
+        limit: BACKLOG_PAGE_SIZE,
+        direction: 'forward',
+        afterSeq: fromSeq - 1,
+        includeExpired: true,
+        ...(afterId !== undefined ? { afterId } : {}),
+      });
+      retained.push(...page.entries.map(entry => entry.event));
+
+      const last = page.entries[page.entries.length - 1];
+      if (!page.hasMore || !last || last.event.seq >= latestSeq) {
+        return retained;
+      }
+      afterId = last.streamId;
+    }
+  }
+
+  async next(): Promise<IteratorResult<Payload>> {
+    await this.backlogLoaded;
+    if (this.done) {
+      return { value: undefined, done: true };
+    }
+
+    const replayed = this.backlog.shift();
+    if (replayed) {
+      return { value: { topicEvents: replayed }, done: false };
+    }
+
+    for (;;) {
+      const result = await this.live.next();
+      if (result.done || this.done) {
+        return { value: undefined, done: true };
+      }
+      const event = result.value.topicEvents;
+      // Status envelopes carry seq 0 and always pass
+      if (event.seq !== 0 && (event.seq < this.options.fromSeq || this.replayedSeqs.has(event.seq))) {
+        continue;
+      }
+      return result;
+    }
+  }
+
+  async return(): Promise<IteratorResult<Payload>> {
+    if (!this.done) {
+      this.done = true;
+      this.backlog = [];
+      await this.live.return?.();
+    }
+    return { value: undefined, done: true };
+  }
+
+  async throw(error?: unknown): Promise<IteratorResult<Payload>> {
+    await this.return();
+    return Promise.reject(error);
+  }
+
+  [Symbol.asyncIterator](): AsyncIterableIterator<Payload> {
+    return this;
+  }
+}
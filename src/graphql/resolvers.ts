@@ -1,44 +1,304 @@
-import { EventEnvelope as Event, PublishEventInput } from '../types';
+import {
+  EventEnvelope as Event,
+  PublishEventInput,
+  SaveSnapshotInput,
+  ResyncResult,
+  EventPageOptions,
+  IdempotencyRecord,
+  TopicInfo,
+  CreateTopicInput,
+  UpdateTopicInput,
+  UpdateTopicAccessInput,
+  EventSchema,
+  RegisterEventSchemaInput,
+  TopicOperation,
+  GroupDelivery,
+  PendingGroupSummary,
+  CoalescingPolicy,
+  SetCoalescingPolicyInput,
+  SlowClientPolicy,
+  Webhook,
+  RegisterWebhookInput,
+  WebhookDeliveryAttempt,
+  DeadLetteredEvent,
+} from '../types';
 import { redisTopicManager } from '../redis/topicManager';
 import { eventDistributor } from '../redis/eventDistributor';
-import { rateLimiter } from '../redis/rateLimiter';
+import { rateLimiter, RateLimitResult } from '../redis/rateLimiter';
 import { firebaseAuth } from '../gateway/auth';
+import type { TopicAccess } from '../firebase/topicAccess';
 import { logger } from '../utils/logger';
 import { v4 as uuidv4 } from 'uuid';
-import { graphqlPubSub, channelForTopic } from './pubsub';
+import { ValueNode, valueFromASTUntyped } from 'graphql';
+import { withFilter } from 'graphql-subscriptions';
+import { graphqlPubSub, channelForTopic, channelForTenant, channelForPresence } from './pubsub';
+import { AckedEventIterator } from './ackedIterator';
+import { GroupEventIterator } from './groupIterator';
+import { BoundedEventIterator } from './boundedIterator';
+import { ReplayEventIterator } from './replayIterator';
 import { validatePublishInput } from '../utils/envelope';
+import { EventFilter, matchesEventFilter, validateEventFilter } from '../utils/eventFilter';
+import { encodeCursor, decodeCursor } from '../utils/cursor';
+import { createTopicMatcher, isTopicPattern, validateTopicPatterns } from '../utils/topicPattern';
+import { DEFAULT_MEMBER_ROLE, DEFAULT_OPERATION_ROLES, TOPIC_OPERATIONS } from '../utils/roles';
+import { validateWebhookTarget } from '../utils/webhookTarget';
 import { metricsCollector } from '../monitoring/metrics';
 import { presenceManager } from '../redis/presence';
+import { snapshotStore } from '../redis/snapshotStore';
+import { idempotencyStore, fingerprintInput } from '../redis/idempotency';
+import { schemaRegistry, SchemaValidationError } from '../redis/schemaRegistry';
+import { eventScheduler } from '../redis/scheduler';
+import { ackCursorStore, DEFAULT_ACK_CONSUMER } from '../redis/ackStore';
+import { consumerGroupManager } from '../redis/consumerGroups';
+import { coalescingPolicies } from '../redis/coalescingPolicies';
+import { webhookStore } from '../redis/webhooks';
 import { config } from '../config';
 import {
   validateAndSanitizePublishInput,
+  validateAndSanitizeSnapshotInput,
+  validateAndSanitizeTopicInput,
+  validateTopicAccessInput,
+  validateEventSchemaInput,
+  validateCoalescingPolicyInput,
+  validateWebhookInput,
+  validateEventType,
+  validateGroupName,
   validateTopicId,
+  validateUserId,
   validateQueryParams,
+  validateHistoryConnectionParams,
   validateGraphQLContext,
   checkInputRateLimit
 } from '../utils/inputSanitizer';
 
 // PubSub is provided via singleton in ./pubsub
 
+// Stream entry IDs as returned by XADD, e.g. 1700000000000-0
+const STREAM_ID_PATTERN = /^\d+-\d+$/;
+const MAX_GROUP_ACK_IDS = 1000;
+
+// Webhook IDs are UUIDs assigned at registration
+const WEBHOOK_ID_PATTERN = /^[0-9a-f-]{36}$/;
+
+// How long a pattern subscription trusts a per-topic ACL decision
+const PATTERN_ACL_RECHECK_MS = 30000;
+
+// Shared guard for lifecycle mutations: validated ID, existing topic, manage rights
+async function loadManagedTopic(topicId: string, context: any): Promise<{ tenantId: string; topic: TopicInfo }> {
+  if (!context.user) {
+    throw new Error('Authentication required');
+  }
+
+  const topicValidation = validateTopicId(topicId);
+  if (!topicValidation.isValid) {
+    throw new Error(`Invalid topic ID: ${topicValidation.errors.join(', ')}`);
+  }
+
+  const tenantId = context.user.tenantId || 'default';
+  const topic = await redisTopicManager.getTopic(tenantId, topicValidation.sanitizedData!);
+  if (!topic) {
+    throw new Error('Topic not found');
+  }
+
+  const canManage = firebaseAuth.canManageTopic(context.user, topic.createdBy) ||
+    await firebaseAuth.checkTopicAccess(context.user.userId, topic.id, 'manage', context.user.roles);
+  if (!canManage) {
+    throw new Error('Access denied: not allowed to manage topic');
+  }
+
+  return { tenantId, topic };
+}
+
+// Shared guard for ACL management: validated ID, global admin or topic manage role
+async function requireTopicAdmin(topicId: string, context: any): Promise<string> {
+  if (!context.user) {
+    throw new Error('Authentication required');
+  }
+
+  const topicValidation = validateTopicId(topicId);
+  if (!topicValidation.isValid) {
+    throw new Error(`Invalid topic ID: ${topicValidation.errors.join(', ')}`);
+  }
+
+  const sanitizedTopicId = topicValidation.sanitizedData!;
+  const canManage = firebaseAuth.isAdmin(context.user) ||
+    await firebaseAuth.checkTopicAccess(context.user.userId, sanitizedTopicId, 'manage', context.user.roles);
+  if (!canManage) {
+    throw new Error('Access denied: admin permission required');
+  }
+
+  return sanitizedTopicId;
+}
+
+// Topic-scoped settings (schemas, coalescing policies) need manage rights on the
+// topic; tenant-wide ones need a global admin
+async function requireScopeAdmin(topicId: string | undefined, context: any): Promise<string | null> {
+  if (topicId !== undefined) {
+    return requireTopicAdmin(topicId, context);
+  }
+  if (!context.user) {
+    throw new Error('Authentication required');
+  }
+  if (!firebaseAuth.isAdmin(context.user)) {
+    throw new Error('Access denied: admin permission required');
+  }
+  return null;
+}
+
+// Callers that surface rate limits (e.g. REST headers) pass `rateLimits: []` in the context
+function reportRateLimit(context: any, result: RateLimitResult): void {
+  if (Array.isArray(context.rateLimits)) {
+    context.rateLimits.push(result);
+  }
+}
+
+function sanitizeEventType(eventType: string | undefined): string | null {
+  if (eventType === undefined) {
+    return null;
+  }
+  const typeValidation = validateEventType(eventType);
+  if (!typeValidation.isValid) {
+    throw new Error(`Invalid input: ${typeValidation.errors.join(', ')}`);
+  }
+  return typeValidation.sanitizedData!;
+}
+
+function sanitizeGroupName(name: string): string {
+  const nameValidation = validateGroupName(name);
+  if (!nameValidation.isValid) {
+    throw new Error(`Invalid input: ${nameValidation.errors.join(', ')}`);
+  }
+  return nameValidation.sanitizedData!;
+}
+
+// Shared guard for consumer group operations: validated topic and group, topic access
+async function loadGroupTarget(
+  topicId: string,
+  group: string,
+  operation: TopicOperation,
+  context: any
+): Promise<{ tenantId: string; topicId: string; group: string }> {
+  if (!context.user) {
+    throw new Error('Authentication required');
+  }
+
+  const topicValidation = validateTopicId(topicId);
+  if (!topicValidation.isValid) {
+    throw new Error(`Invalid topic ID: ${topicValidation.errors.join(', ')}`);
+  }
+  const sanitizedTopicId = topicValidation.sanitizedData!;
+  const sanitizedGroup = sanitizeGroupName(group);
+
+  const hasAccess = await firebaseAuth.checkTopicAccess(context.user.userId, sanitizedTopicId, operation, context.user.roles);
+  if (!hasAccess) {
+    throw new Error('Access denied to topic');
+  }
+
+  return { tenantId: context.user.tenantId || 'default', topicId: sanitizedTopicId, group: sanitizedGroup };
+}
+
+// Shared guard for webhook history: topic admin, and the webhook must belong to the topic
+async function loadWebhookTarget(
+  topicId: string,
+  webhookId: string,
+  count: number,
+  context: any
+): Promise<{ tenantId: string; webhookId: string }> {
+  const sanitizedTopicId = await requireTopicAdmin(topicId, context);
+  if (!Number.isInteger(count) || count < 1 || count > 1000) {
+    throw new Error('Invalid parameters: count must be between 1 and 1000');
+  }
+
+  const tenantId = context.user.tenantId || 'default';
+  if (!WEBHOOK_ID_PATTERN.test(webhookId) || !await webhookStore.exists(tenantId, sanitizedTopicId, webhookId)) {
+    throw new Error('Webhook not found');
+  }
+  return { tenantId, webhookId };
+}
+
+// Topics get their ACL document lazily on first access; create the same public
+// default here so edits can target a topic nobody has touched yet
+async function ensureTopicAccess(topicId: string): Promise<void> {
+  const accessControl = await firebaseAuth.getAccessControl();
+  if (await accessControl.getTopicAccess(topicId)) {
+    return;
+  }
+  await accessControl.createTopic(topicId, {
+    topicId,
+    allowedUsers: [],
+    allowedRoles: [],
+    isPublic: true,
+    createdAt: Date.now(),
+    updatedAt: Date.now(),
+  });
+}
+
+async function readTopicAccess(topicId: string): Promise<TopicAccess> {
+  const accessControl = await firebaseAuth.getAccessControl();
+  const access = await accessControl.getTopicAccess(topicId);
+  if (!access) {
+    throw new Error('Failed to read topic access');
+  }
+  return access;
+}
+
 export const resolvers = {
   JSON: {
     __serialize: (value: unknown) => value as unknown,
     __parseValue: (value: unknown) => value as unknown,
-    __parseLiteral: (ast: any) => {
-      // Handle GraphQL AST literal parsing
-      if (ast.kind === 'ObjectValue') {
-        const obj: any = {};
-        ast.fields.forEach((field: any) => {
-          obj[field.name.value] = field.value.value;
-        });
-        return obj;
-      }
-      return ast.value;
-    },
+    // Nested literals (e.g. inline JSON Schemas) need a full recursive conversion
+    __parseLiteral: (ast: ValueNode, variables?: Record<string, unknown> | null) =>
+      valueFromASTUntyped(ast, variables),
   },
   EventEnvelope: {
     // pass-through resolvers if needed later
   },
+  TopicStatus: {
+    ACTIVE: 'active',
+    ARCHIVED: 'archived',
+  },
+  TopicInfo: {
+    lastSeq: (topic: TopicInfo) => topic.lastEventId,
+  },
+  SlowClientPolicy: {
+    DROP_OLDEST: 'drop_oldest',
+    DROP_NEWEST: 'drop_newest',
+    DISCONNECT: 'disconnect',
+    PAUSE_RESYNC: 'pause_resync',
+  },
+  TopicRole: {
+    VIEWER: 'viewer',
+    EDITOR: 'editor',
+    ADMIN: 'admin',
+  },
+  CoalescingMode: {
+    LATEST_PER_SENDER: 'latest_per_sender',
+    LATEST_PER_KEY: 'latest_per_key',
+    MERGE: 'merge',
+    NONE: 'none',
+  },
+  WebhookAttemptOutcome: {
+    DELIVERED: 'delivered',
+    FAILED: 'failed',
+    CIRCUIT_OPEN: 'circuit_open',
+  },
+  TopicOperation: {
+    READ: 'read',
+    SUBSCRIBE: 'subscribe',
+    PUBLISH: 'publish',
+    MANAGE: 'manage',
+  },
+  TopicAccess: {
+    publicRole: (access: TopicAccess) => access.publicRole ?? DEFAULT_MEMBER_ROLE,
+    userRoles: (access: TopicAccess) =>
+      Object.entries(access.userRoles ?? {}).map(([userId, role]) => ({ userId, role })),
+    // Reports the effective requirement for every operation, defaults included
+    operationRoles: (access: TopicAccess) =>
+      TOPIC_OPERATIONS.map(operation => ({
+        operation,
+        role: access.operationRoles?.[operation] ?? DEFAULT_OPERATION_ROLES[operation],
+      })),
+  },
   
   Query: {
     topics: async (_: unknown, __: unknown): Promise<any> => {
@@ -63,6 +323,35 @@ export const resolvers = {
       }
     },
 
+    topic: async (_: unknown, { topicId }: { topicId: string }, context: any): Promise<TopicInfo | null> => {
+      try {
+        // Verify authentication
+        if (!context.user) {
+          throw new Error('Authentication required');
+        }
+
+        // Validate topic ID
+        const topicValidation = validateTopicId(topicId);
+        if (!topicValidation.isValid) {
+          throw new Error(`Invalid topic ID: ${topicValidation.errors.join(', ')}`);
+        }
+
+        const sanitizedTopicId = topicValidation.sanitizedData!;
+
+        // Check topic access
+        const hasAccess = await firebaseAuth.checkTopicAccess(context.user.userId, sanitizedTopicId, 'read', context.user.roles);
+        if (!hasAccess) {
+          throw new Error('Access denied to topic');
+        }
+
+        const tenantId = context.user.tenantId || 'default';
+        return await redisTopicManager.getTopic(tenantId, sanitizedTopicId);
+      } catch (error) {
+        logger.error('Error fetching topic:', error);
+        throw new Error('Failed to fetch topic');
+      }
+    },
+
     topicStats: async (_: unknown, { topicId }: { topicId: string }, context: any): Promise<any> => {
       try {
         // Validate topic ID
@@ -111,7 +400,7 @@ export const resolvers = {
         const sanitizedCount = queryValidation.sanitizedData!.count || 100;
 
         // Check topic access
-        const hasAccess = await firebaseAuth.checkTopicAccess(context.user.userId, sanitizedTopicId);
+        const hasAccess = await firebaseAuth.checkTopicAccess(context.user.userId, sanitizedTopicId, 'read', context.user.roles);
         if (!hasAccess) {
           throw new Error('Access denied to topic');
         }
@@ -123,10 +412,312 @@ export const resolvers = {
         throw new Error('Failed to fetch event history');
       }
     },
+
+    eventHistoryConnection: async (
+      _: unknown,
+      { topicId, ...params }: {
+        topicId: string;
+        first?: number;
+        after?: string;
+        afterSeq?: number;
+        beforeSeq?: number;
+        from?: string;
+        to?: string;
+        direction?: 'FORWARD' | 'BACKWARD';
+      },
+      context: any
+    ): Promise<any> => {
+      try {
+        // Verify authentication
+        if (!context.user) {
+          throw new Error('Authentication required');
+        }
+
+        // Validate topic ID
+        const topicValidation = validateTopicId(topicId);
+        if (!topicValidation.isValid) {
+          throw new Error(`Invalid topic ID: ${topicValidation.errors.join(', ')}`);
+        }
+
+        // Validate pagination parameters (drop unset args so Joi sees them as absent)
+        const definedParams = Object.fromEntries(
+          Object.entries(params).filter(([, value]) => value !== undefined && value !== null)
+        );
+        const paramValidation = validateHistoryConnectionParams(definedParams);
+        if (!paramValidation.isValid) {
+          throw new Error(`Invalid parameters: ${paramValidation.errors.join(', ')}`);
+        }
+
+        const { first, after, afterSeq, beforeSeq, from, to, direction } = paramValidation.sanitizedData!;
+        if (from && to && from.getTime() > to.getTime()) {
+          throw new Error('Invalid parameters: from must not be after to');
+        }
+
+        let afterId: string | undefined;
+        if (after) {
+          afterId = decodeCursor(after) ?? undefined;
+          if (!afterId) {
+            throw new Error('Invalid parameters: malformed cursor');
+          }
+        }
+
+        const sanitizedTopicId = topicValidation.sanitizedData!;
+
+        // Check topic access
+        const hasAccess = await firebaseAuth.checkTopicAccess(context.user.userId, sanitizedTopicId, 'read', context.user.roles);
+        if (!hasAccess) {
+          throw new Error('Access denied to topic');
+        }
+
+        const options: EventPageOptions = {
+          limit: first || 50,
+          direction: direction === 'FORWARD' ? 'forward' : 'backward',
+          ...(afterId ? { afterId } : {}),
+          ...(from ? { fromMs: from.getTime() } : {}),
+          ...(to ? { toMs: to.getTime() } : {}),
+          ...(typeof afterSeq === 'number' ? { afterSeq } : {}),
+          ...(typeof beforeSeq === 'number' ? { beforeSeq } : {}),
+        };
+
+        const tenantId = context.user.tenantId || 'default';
+        const page = await redisTopicManager.readEventPage(tenantId, sanitizedTopicId, options);
+        const edges = page.entries.map(({ streamId, event }) => ({ cursor: encodeCursor(streamId), node: event }));
+
+        return {
+          edges,
+          pageInfo: {
+            hasNextPage: page.hasMore,
+            hasPreviousPage: Boolean(afterId),
+            startCursor: edges[0]?.cursor ?? null,
+            endCursor: edges[edges.length - 1]?.cursor ?? null,
+          },
+        };
+      } catch (error) {
+        logger.error('Error fetching paginated event history:', error);
+        throw new Error('Failed to fetch event history');
+      }
+    },
+
+    presence: async (_: unknown, { topicId }: { topicId: string }, context: any): Promise<{ users: string[] }> => {
+      try {
+        // Verify authentication
+        if (!context.user) {
+          throw new Error('Authentication required');
+        }
+
+        // Validate topic ID
+        const topicValidation = validateTopicId(topicId);
+        if (!topicValidation.isValid) {
+          throw new Error(`Invalid topic ID: ${topicValidation.errors.join(', ')}`);
+        }
+
+        const sanitizedTopicId = topicValidation.sanitizedData!;
+
+        // Check topic access
+        const hasAccess = await firebaseAuth.checkTopicAccess(context.user.userId, sanitizedTopicId, 'read', context.user.roles);
+        if (!hasAccess) {
+          throw new Error('Access denied to topic');
+        }
+
+        const tenantId = context.user.tenantId || 'default';
+        return { users: await presenceManager.list(tenantId, sanitizedTopicId) };
+      } catch (error) {
+        logger.error('Error fetching presence:', error);
+        throw new Error('Failed to fetch presence');
+      }
+    },
+
+    resync: async (_: unknown, { topicId }: { topicId: string }, context: any): Promise<ResyncResult> => {
+      try {
+        // Verify authentication
+        if (!context.user) {
+          throw new Error('Authentication required');
+        }
+
+        // Validate topic ID
+        const topicValidation = validateTopicId(topicId);
+        if (!topicValidation.isValid) {
+          throw new Error(`Invalid topic ID: ${topicValidation.errors.join(', ')}`);
+        }
+
+        const sanitizedTopicId = topicValidation.sanitizedData!;
+
+        // Check topic access
+        const hasAccess = await firebaseAuth.checkTopicAccess(context.user.userId, sanitizedTopicId, 'read', context.user.roles);
+        if (!hasAccess) {
+          throw new Error('Access denied to topic');
+        }
+
+        const tenantId = context.user.tenantId || 'default';
+        return await snapshotStore.resync(tenantId, sanitizedTopicId);
+      } catch (error) {
+        logger.error('Error resyncing topic:', error);
+        throw new Error('Failed to resync topic');
+      }
+    },
+
+    topicAccess: async (_: unknown, { topicId }: { topicId: string }, context: any): Promise<TopicAccess | null> => {
+      const sanitizedTopicId = await requireTopicAdmin(topicId, context);
+      try {
+        const accessControl = await firebaseAuth.getAccessControl();
+        return await accessControl.getTopicAccess(sanitizedTopicId);
+      } catch (error) {
+        logger.error('Error fetching topic access:', error);
+        throw new Error('Failed to fetch topic access');
+      }
+    },
+
+    eventSchema: async (
+      _: unknown,
+      { topicId, eventType, version }: { topicId?: string; eventType?: string; version?: number },
+      context: any
+    ): Promise<EventSchema | null> => {
+      try {
+        // Verify authentication
+        if (!context.user) {
+          throw new Error('Authentication required');
+        }
+
+        let sanitizedTopicId: string | null = null;
+        if (topicId !== undefined) {
+          const topicValidation = validateTopicId(topicId);
+          if (!topicValidation.isValid) {
+            throw new Error(`Invalid topic ID: ${topicValidation.errors.join(', ')}`);
+          }
+          const validTopicId: string = topicValidation.sanitizedData!;
+
+          const hasAccess = await firebaseAuth.checkTopicAccess(context.user.userId, validTopicId, 'read', context.user.roles);
+          if (!hasAccess) {
+            throw new Error('Access denied to topic');
+          }
+          sanitizedTopicId = validTopicId;
+        }
+
+        const tenantId = context.user.tenantId || 'default';
+        return await schemaRegistry.get(tenantId, sanitizedTopicId, sanitizeEventType(eventType), version);
+      } catch (error) {
+        logger.error('Error fetching event schema:', error);
+        throw new Error('Failed to fetch event schema');
+      }
+    },
+
+    eventSchemas: async (_: unknown, { topicId }: { topicId?: string }, context: any): Promise<EventSchema[]> => {
+      try {
+        // Verify authentication
+        if (!context.user) {
+          throw new Error('Authentication required');
+        }
+
+        let sanitizedTopicId: string | undefined;
+        if (topicId !== undefined) {
+          const topicValidation = validateTopicId(topicId);
+          if (!topicValidation.isValid) {
+            throw new Error(`Invalid topic ID: ${topicValidation.errors.join(', ')}`);
+          }
+          const validTopicId: string = topicValidation.sanitizedData!;
+
+          const hasAccess = await firebaseAuth.checkTopicAccess(context.user.userId, validTopicId, 'read', context.user.roles);
+          if (!hasAccess) {
+            throw new Error('Access denied to topic');
+          }
+          sanitizedTopicId = validTopicId;
+        }
+
+        const tenantId = context.user.tenantId || 'default';
+        return await schemaRegistry.list(tenantId, sanitizedTopicId);
+      } catch (error) {
+        logger.error('Error fetching event schemas:', error);
+        throw new Error('Failed to fetch event schemas');
+      }
+    },
+    coalescingPolicies: async (_: unknown, { topicId }: { topicId?: string }, context: any): Promise<CoalescingPolicy[]> => {
+      try {
+        // Verify authentication
+        if (!context.user) {
+          throw new Error('Authentication required');
+        }
+
+        let sanitizedTopicId: string | undefined;
+        if (topicId !== undefined) {
+          const topicValidation = validateTopicId(topicId);
+          if (!topicValidation.isValid) {
+            throw new Error(`Invalid topic ID: ${topicValidation.errors.join(', ')}`);
+          }
+          const validTopicId: string = topicValidation.sanitizedData!;
+
+          const hasAccess = await firebaseAuth.checkTopicAccess(context.user.userId, validTopicId, 'read', context.user.roles);
+          if (!hasAccess) {
+            throw new Error('Access denied to topic');
+          }
+          sanitizedTopicId = validTopicId;
+        }
+
+        const tenantId = context.user.tenantId || 'default';
+        return await coalescingPolicies.list(tenantId, sanitizedTopicId);
+      } catch (error) {
+        logger.error('Error fetching coalescing policies:', error);
+        throw new Error('Failed to fetch coalescing policies');
+      }
+    },
+    groupPending: async (
+      _: unknown,
+      { topicId, group, consumer, count = 100 }: { topicId: string; group: string; consumer?: string; count?: number },
+      context: any
+    ): Promise<PendingGroupSummary> => {
+      try {
+        const target = await loadGroupTarget(topicId, group, 'read', context);
+        const sanitizedConsumer = consumer !== undefined ? sanitizeGroupName(consumer) : undefined;
+        if (!Number.isInteger(count) || count < 1 || count > 1000) {
+          throw new Error('Invalid parameters: count must be between 1 and 1000');
+        }
+
+        return await consumerGroupManager.pending(target.tenantId, target.topicId, target.group, count, sanitizedConsumer);
+      } catch (error) {
+        logger.error('Error fetching pending group entries:', error);
+        throw new Error('Failed to fetch pending group entries');
+      }
+    },
+    webhooks: async (_: unknown, { topicId }: { topicId: string }, context: any): Promise<Webhook[]> => {
+      try {
+        const sanitizedTopicId = await requireTopicAdmin(topicId, context);
+        return await webhookStore.list(context.user.tenantId || 'default', sanitizedTopicId);
+      } catch (error) {
+        logger.error('Error fetching webhooks:', error);
+        throw new Error('Failed to fetch webhooks');
+      }
+    },
+    webhookDeliveries: async (
+      _: unknown,
+      { topicId, webhookId, count = 50 }: { topicId: string; webhookId: string; count?: number },
+      context: any
+    ): Promise<WebhookDeliveryAttempt[]> => {
+      try {
+        const target = await loadWebhookTarget(topicId, webhookId, count, context);
+        return await webhookStore.listAttempts(target.tenantId, target.webhookId, count);
+      } catch (error) {
+        logger.error('Error fetching webhook deliveries:', error);
+        throw new Error('Failed to fetch webhook deliveries');
+      }
+    },
+    webhookDeadLetters: async (
+      _: unknown,
+      { topicId, webhookId, count = 50 }: { topicId: string; webhookId: string; count?: number },
+      context: any
+    ): Promise<DeadLetteredEvent[]> => {
+      try {
+        const target = await loadWebhookTarget(topicId, webhookId, count, context);
+        return await webhookStore.listDeadLetters(target.tenantId, target.webhookId, count);
+      } catch (error) {
+        logger.error('Error fetching webhook dead letters:', error);
+        throw new Error('Failed to fetch webhook dead letters');
+      }
+    },
   },
 
   Mutation: {
     publishEvent: async (_: any, { input }: { input: PublishEventInput }, context: any): Promise<any> => {
+      // Set once this request holds an idempotency key, so failures can release it
+      let heldIdempotencyKey: string | null = null;
       try {
         // Verify authentication
         if (!context.user) {
@@ -154,7 +745,7 @@ export const resolvers = {
         }
 
         const sanitizedInput = inputValidation.sanitizedData!;
-        const { topicId, type, data, priority } = sanitizedInput;
+        const { topicId, type, data, priority, idempotencyKey, deliverAt, expiresAt } = sanitizedInput;
 
         // Legacy validation for backward compatibility
         const vr = validatePublishInput(sanitizedInput);
@@ -162,24 +753,56 @@ export const resolvers = {
           throw new Error(vr.reason || 'Invalid event');
         }
 
+        // Retries with a known idempotency key return the original event
+        const fingerprint = idempotencyKey ? fingerprintInput(sanitizedInput) : '';
+        if (idempotencyKey) {
+          const reservation = await idempotencyStore.reserve(context.user.tenantId || 'default', context.user.userId, idempotencyKey);
+          if (reservation.state === 'completed') {
+            if (reservation.record.fingerprint !== fingerprint) {
+              throw new Error('Invalid input: idempotency key was already used for a different event');
+            }
+            return {
+              success: true,
+              eventId: reservation.record.eventId,
+              seq: reservation.record.seq || null,
+              duplicate: true,
+              message: 'Duplicate request; returning original event',
+            };
+          }
+          if (reservation.state === 'pending') {
+            throw new Error('A request with this idempotency key is already in progress');
+          }
+          heldIdempotencyKey = idempotencyKey;
+        }
+
         // Check rate limits
         const userRateLimit = await rateLimiter.checkUserRateLimit(context.user.userId, 'publish');
+        reportRateLimit(context, userRateLimit);
         if (!userRateLimit.allowed) {
           throw new Error(`Rate limit exceeded. Try again in ${Math.ceil((userRateLimit.resetTime - Date.now()) / 1000)} seconds`);
         }
 
         const tenantForRl = context.user.tenantId || 'default';
         const topicRateLimit = await rateLimiter.checkTopicRateLimit(tenantForRl, topicId);
+        reportRateLimit(context, topicRateLimit);
         if (!topicRateLimit.allowed) {
           throw new Error(`Topic rate limit exceeded. Try again in ${Math.ceil((topicRateLimit.resetTime - Date.now()) / 1000)} seconds`);
         }
 
         // Check topic access
-        const hasAccess = await firebaseAuth.checkTopicAccess(context.user.userId, topicId);
+        const hasAccess = await firebaseAuth.checkTopicAccess(context.user.userId, topicId, 'publish', context.user.roles);
         if (!hasAccess) {
           throw new Error('Access denied to topic');
         }
 
+        // Archived topics are read-only
+        if (await redisTopicManager.isTopicArchived(tenantForRl, topicId)) {
+          throw new Error('Topic is archived; publishing is disabled');
+        }
+
+        // Payloads are checked against registered schemas only once access is confirmed
+        await schemaRegistry.validate(tenantForRl, topicId, type, data);
+
         // Create event
         const now = new Date();
         const tenantId = context.user.tenantId || 'default';
@@ -194,14 +817,50 @@ export const resolvers = {
           tenantId,
           senderId: context.user.userId,
           ...(typeof priority === 'number' ? { priority } : {}),
+          ...(deliverAt ? { deliverAt } : {}),
+          ...(expiresAt ? { expiresAt } : {}),
         };
 
+        // Delayed events are held by the scheduler and get their seq on release
+        if (deliverAt && Date.parse(deliverAt) > now.getTime()) {
+          event.seq = 0;
+          await eventScheduler.schedule(event);
+          if (heldIdempotencyKey) {
+            await idempotencyStore.complete(tenantId, context.user.userId, heldIdempotencyKey, {
+              eventId: event.id,
+              seq: 0,
+              topicId,
+              fingerprint,
+            });
+            heldIdempotencyKey = null;
+          }
+
+          logger.info(`Scheduled event ${event.id} on topic ${topicId} for ${deliverAt}`);
+          return {
+            success: true,
+            eventId: event.id,
+            seq: null,
+            duplicate: false,
+            scheduled: true,
+            message: `Event scheduled for delivery at ${deliverAt}`,
+          };
+        }
+
         // Publish event using the event distributor
         await eventDistributor.publishEvent(topicId, event);
         metricsCollector.onPublish();
 
-        // Also emit to PubSub for same-node delivery
-        await graphqlPubSub.publish(channelForTopic(tenantId, topicId), { topicEvents: event });
+        // Record the key as soon as the event is durable
+        if (heldIdempotencyKey) {
+          await idempotencyStore.complete(tenantId, context.user.userId, heldIdempotencyKey, {
+            eventId: event.id,
+            seq: event.seq,
+            topicId,
+            fingerprint,
+          });
+          heldIdempotencyKey = null;
+        }
+
         metricsCollector.onDeliver();
 
         logger.info(`Published event ${event.id} to topic ${topicId}`);
@@ -209,19 +868,644 @@ export const resolvers = {
         return {
           success: true,
           eventId: event.id,
+          seq: event.seq,
+          duplicate: false,
+          scheduled: false,
           message: 'Event published successfully',
         };
       } catch (error) {
         logger.error('Error publishing event:', error);
+        if (heldIdempotencyKey) {
+          await idempotencyStore.release(context.user.tenantId || 'default', context.user.userId, heldIdempotencyKey);
+        }
         return {
           success: false,
           eventId: '',
           message: error instanceof Error ? error.message : 'Failed to publish event',
+          ...(error instanceof SchemaValidationError ? { errors: error.fieldErrors } : {}),
         };
       }
     },
-    joinTopic: async (_: any, { topicId }: { topicId: string }, context: any) => {
-      if (!context.user) throw new Error('Authentication required');
+    publishEvents: async (_: any, { inputs }: { inputs: PublishEventInput[] }, context: any): Promise<any> => {
+      // Idempotency keys this request holds, released again if the batch fails
+      const heldIdempotencyKeys: string[] = [];
+      try {
+        // Verify authentication
+        if (!context.user) {
+          throw new Error('Authentication required');
+        }
+
+        // Validate and sanitize context
+        const contextValidation = validateGraphQLContext(context);
+        if (!contextValidation.isValid) {
+          logger.warn('Invalid GraphQL context:', contextValidation.errors);
+          throw new Error('Invalid request context');
+        }
+
+        if (!Array.isArray(inputs) || inputs.length === 0) {
+          throw new Error('Invalid input: at least one event is required');
+        }
+        if (inputs.length > config.limits.maxBatchSize) {
+          throw new Error(`Invalid input: batch exceeds maximum of ${config.limits.maxBatchSize} events`);
+        }
+
+        // Check input rate limiting (per user, per call)
+        const rateLimitKey = `input-${context.user.userId}`;
+        if (!checkInputRateLimit(rateLimitKey, 60000, 50)) {
+          throw new Error('Input rate limit exceeded. Please slow down.');
+        }
+
+        // Validate every event up front; nothing is written if any entry fails
+        const sanitizedInputs: PublishEventInput[] = [];
+        const errors: Array<string | null> = [];
+        const seenKeys = new Set<string>();
+        for (const input of inputs) {
+          const inputValidation = validateAndSanitizePublishInput(input);
+          if (!inputValidation.isValid) {
+            errors.push(`Invalid input: ${inputValidation.errors.join(', ')}`);
+            continue;
+          }
+          const vr = validatePublishInput(inputValidation.sanitizedData!);
+          if (!vr.valid) {
+            errors.push(vr.reason || 'Invalid event');
+            continue;
+          }
+          const key: string | undefined = inputValidation.sanitizedData!.idempotencyKey;
+          if (key && seenKeys.has(key)) {
+            errors.push('Invalid input: duplicate idempotency key within batch');
+            continue;
+          }
+          if (key) {
+            seenKeys.add(key);
+          }
+          sanitizedInputs.push(inputValidation.sanitizedData!);
+          errors.push(null);
+        }
+
+        if (errors.some(e => e !== null)) {
+          logger.warn('Invalid batch publish input:', errors.filter(e => e !== null));
+          return {
+            success: false,
+            message: 'Invalid input: batch rejected, no events were published',
+            results: errors.map((error, index) => ({
+              index,
+              success: false,
+              eventId: null,
+              seq: null,
+              duplicate: false,
+              message: error || 'Not published: batch rejected',
+            })),
+          };
+        }
+
+        const tenantId = context.user.tenantId || 'default';
+
+        // Entries whose idempotency key was already used return the original event
+        const duplicates = new Map<number, IdempotencyRecord>();
+        const fingerprints = new Map<number, string>();
+        for (const [index, input] of sanitizedInputs.entries()) {
+          if (!input.idempotencyKey) continue;
+          const fingerprint = fingerprintInput(input);
+          const reservation = await idempotencyStore.reserve(tenantId, context.user.userId, input.idempotencyKey);
+          if (reservation.state === 'completed') {
+            if (reservation.record.fingerprint !== fingerprint) {
+              throw new Error(`Invalid input: idempotency key at index ${index} was already used for a different event`);
+            }
+            duplicates.set(index, reservation.record);
+            continue;
+          }
+          if (reservation.state === 'pending') {
+            throw new Error(`A request with the idempotency key at index ${index} is already in progress`);
+          }
+          heldIdempotencyKeys.push(input.idempotencyKey);
+          fingerprints.set(index, fingerprint);
+        }
+
+        const pending = [...sanitizedInputs.entries()].filter(([index]) => !duplicates.has(index));
+
+        // Check rate limits, counting each event in the batch
+        const countByTopic = new Map<string, number>();
+        for (const [, input] of pending) {
+          countByTopic.set(input.topicId, (countByTopic.get(input.topicId) ?? 0) + 1);
+        }
+
+        if (pending.length > 0) {
+          const userRateLimit = await rateLimiter.checkUserRateLimit(context.user.userId, 'publish', pending.length);
+          reportRateLimit(context, userRateLimit);
+          if (!userRateLimit.allowed) {
+            throw new Error(`Rate limit exceeded. Try again in ${Math.ceil((userRateLimit.resetTime - Date.now()) / 1000)} seconds`);
+          }
+        }
+
+        for (const [topicId, count] of countByTopic) {
+          const topicRateLimit = await rateLimiter.checkTopicRateLimit(tenantId, topicId, count);
+          reportRateLimit(context, topicRateLimit);
+          if (!topicRateLimit.allowed) {
+            throw new Error(`Topic rate limit exceeded for ${topicId}. Try again in ${Math.ceil((topicRateLimit.resetTime - Date.now()) / 1000)} seconds`);
+          }
+
+          // Check topic access
+          const hasAccess = await firebaseAuth.checkTopicAccess(context.user.userId, topicId, 'publish', context.user.roles);
+          if (!hasAccess) {
+            throw new Error(`Access denied to topic ${topicId}`);
+          }
+
+          // Archived topics are read-only
+          if (await redisTopicManager.isTopicArchived(tenantId, topicId)) {
+            throw new Error(`Topic ${topicId} is archived; publishing is disabled`);
+          }
+        }
+
+        // Payloads are checked against registered schemas only once access is confirmed
+        const schemaErrors = new Map<number, SchemaValidationError>();
+        for (const [index, { topicId, type, data }] of pending) {
+          try {
+            await schemaRegistry.validate(tenantId, topicId, type, data);
+          } catch (error) {
+            if (!(error instanceof SchemaValidationError)) throw error;
+            schemaErrors.set(index, error);
+          }
+        }
+
+        if (schemaErrors.size > 0) {
+          for (const key of heldIdempotencyKeys.splice(0)) {
+            await idempotencyStore.release(tenantId, context.user.userId, key);
+          }
+          return {
+            success: false,
+            message: 'Invalid input: batch rejected, no events were published',
+            results: sanitizedInputs.map((_input, index) => {
+              const schemaError = schemaErrors.get(index);
+              return {
+                index,
+                success: false,
+                eventId: null,
+                seq: null,
+                duplicate: false,
+                message: schemaError ? schemaError.message : 'Not published: batch rejected',
+                errors: schemaError ? schemaError.fieldErrors : null,
+              };
+            }),
+          };
+        }
+
+        // Create events
+        const now = new Date();
+        const published = new Map<number, Event>();
+        for (const [index, { topicId, type, data, priority, deliverAt, expiresAt }] of pending) {
+          published.set(index, {
+            id: uuidv4(),
+            topicId,
+            type,
+            data,
+            seq: 0, // assigned by the Redis manager
+            ts: now.toISOString(),
+            tenantId,
+            senderId: context.user.userId,
+            ...(typeof priority === 'number' ? { priority } : {}),
+            ...(deliverAt ? { deliverAt } : {}),
+            ...(expiresAt ? { expiresAt } : {}),
+          });
+        }
+
+        // Delayed entries go to the scheduler and get their seq on release
+        const scheduled = new Set<number>();
+        for (const [index, event] of published) {
+          if (event.deliverAt && Date.parse(event.deliverAt) > now.getTime()) {
+            scheduled.add(index);
+          }
+        }
+
+        const events = [...published].filter(([index]) => !scheduled.has(index)).map(([, event]) => event);
+        if (events.length > 0) {
+          await eventDistributor.publishEvents(events);
+        }
+        await eventScheduler.scheduleMany([...scheduled].map(index => published.get(index)!));
+
+        // Record idempotency keys as soon as the events are durable
+        for (const [index, event] of published) {
+          const key = sanitizedInputs[index]!.idempotencyKey;
+          if (key) {
+            await idempotencyStore.complete(tenantId, context.user.userId, key, {
+              eventId: event.id,
+              seq: event.seq,
+              topicId: event.topicId,
+              fingerprint: fingerprints.get(index)!,
+            });
+          }
+        }
+        heldIdempotencyKeys.length = 0;
+
+        events.forEach(() => {
+          metricsCollector.onPublish();
+          metricsCollector.onDeliver();
+        });
+
+        logger.info(`Published batch of ${events.length} events to ${countByTopic.size} topics (${scheduled.size} scheduled, ${duplicates.size} duplicates)`);
+
+        return {
+          success: true,
+          message: scheduled.size > 0
+            ? `${events.length} events published successfully, ${scheduled.size} scheduled`
+            : `${events.length} events published successfully`,
+          results: sanitizedInputs.map((_input, index) => {
+            const duplicate = duplicates.get(index);
+            if (duplicate) {
+              return {
+                index,
+                success: true,
+                eventId: duplicate.eventId,
+                seq: duplicate.seq || null,
+                duplicate: true,
+                message: 'Duplicate request; returning original event',
+              };
+            }
+            const event = published.get(index)!;
+            return {
+              index,
+              success: true,
+              eventId: event.id,
+              seq: scheduled.has(index) ? null : event.seq,
+              duplicate: false,
+              scheduled: scheduled.has(index),
+              message: null,
+            };
+          }),
+        };
+      } catch (error) {
+        logger.error('Error publishing event batch:', error);
+        for (const key of heldIdempotencyKeys) {
+          await idempotencyStore.release(context.user.tenantId || 'default', context.user.userId, key);
+        }
+        return {
+          success: false,
+          message: error instanceof Error ? error.message : 'Failed to publish events',
+          results: [],
+        };
+      }
+    },
+    saveSnapshot: async (_: any, { input }: { input: SaveSnapshotInput }, context: any): Promise<any> => {
+      try {
+        // Verify authentication
+        if (!context.user) {
+          throw new Error('Authentication required');
+        }
+
+        // Validate and sanitize input
+        const inputValidation = validateAndSanitizeSnapshotInput(input);
+        if (!inputValidation.isValid) {
+          logger.warn('Invalid snapshot input:', inputValidation.errors);
+          throw new Error(`Invalid input: ${inputValidation.errors.join(', ')}`);
+        }
+
+        const { topicId, seq, data } = inputValidation.sanitizedData! as SaveSnapshotInput;
+
+        // Check rate limits
+        const userRateLimit = await rateLimiter.checkUserRateLimit(context.user.userId, 'snapshot');
+        if (!userRateLimit.allowed) {
+          throw new Error(`Rate limit exceeded. Try again in ${Math.ceil((userRateLimit.resetTime - Date.now()) / 1000)} seconds`);
+        }
+
+        // Check topic access
+        const hasAccess = await firebaseAuth.checkTopicAccess(context.user.userId, topicId, 'publish', context.user.roles);
+        if (!hasAccess) {
+          throw new Error('Access denied to topic');
+        }
+
+        // Archived topics are read-only
+        const tenantId = context.user.tenantId || 'default';
+        if (await redisTopicManager.isTopicArchived(tenantId, topicId)) {
+          throw new Error('Topic is archived; snapshots are disabled');
+        }
+
+        // A snapshot can only fold in events that have actually been assigned a seq
+        const latestSeq = await redisTopicManager.getLatestSeq(tenantId, topicId);
+        if (seq > latestSeq) {
+          throw new Error(`Invalid input: snapshot seq ${seq} is ahead of topic seq ${latestSeq}`);
+        }
+
+        const existing = await snapshotStore.getLatest(tenantId, topicId);
+        if (existing && existing.seq > seq) {
+          throw new Error(`Invalid input: a newer snapshot already exists at seq ${existing.seq}`);
+        }
+
+        await snapshotStore.save({
+          topicId,
+          tenantId,
+          seq,
+          ts: new Date().toISOString(),
+          data,
+          createdBy: context.user.userId,
+        });
+
+        return {
+          success: true,
+          seq,
+          message: 'Snapshot stored successfully',
+        };
+      } catch (error) {
+        logger.error('Error saving snapshot:', error);
+        return {
+          success: false,
+          seq: null,
+          message: error instanceof Error ? error.message : 'Failed to save snapshot',
+        };
+      }
+    },
+    createTopic: async (_: any, { input }: { input: CreateTopicInput }, context: any): Promise<TopicInfo> => {
+      if (!context.user) throw new Error('Authentication required');
+
+      // Validate and sanitize input
+      const inputValidation = validateAndSanitizeTopicInput(input, 'create');
+      if (!inputValidation.isValid) {
+        throw new Error(`Invalid input: ${inputValidation.errors.join(', ')}`);
+      }
+
+      const { topicId, description, metadata, isPublic, slowClientPolicy } = inputValidation.sanitizedData! as CreateTopicInput;
+      const tenantId = context.user.tenantId || 'default';
+      const topic = await redisTopicManager.createTopic(tenantId, topicId, {
+        ...(description !== undefined ? { description } : {}),
+        ...(metadata !== undefined ? { metadata } : {}),
+        ...(slowClientPolicy !== undefined ? { slowClientPolicy } : {}),
+        createdBy: context.user.userId,
+      });
+
+      try {
+        await firebaseAuth.createTopicAccess(topicId, context.user.userId, isPublic ?? true);
+      } catch (error) {
+        // Roll back what this call created so the topic can be created again
+        // once Firestore recovers; an existing ACL means someone owns the topic
+        logger.error(`Error creating ACL for topic ${topicId}, rolling back:`, error);
+        await redisTopicManager.discardCreatedTopic(tenantId, topicId);
+        if (error instanceof Error && error.message === 'Topic already exists') {
+          throw error;
+        }
+        throw new Error('Failed to create topic');
+      }
+
+      return topic;
+    },
+    updateTopic: async (_: any, { input }: { input: UpdateTopicInput }, context: any): Promise<TopicInfo> => {
+      // Validate and sanitize input
+      const inputValidation = validateAndSanitizeTopicInput(input, 'update');
+      if (!inputValidation.isValid) {
+        throw new Error(`Invalid input: ${inputValidation.errors.join(', ')}`);
+      }
+
+      const { topicId, description, metadata, slowClientPolicy } = inputValidation.sanitizedData! as UpdateTopicInput;
+      const { tenantId, topic } = await loadManagedTopic(topicId, context);
+      return redisTopicManager.updateTopic(tenantId, topic.id, {
+        ...(description !== undefined ? { description } : {}),
+        ...(metadata !== undefined ? { metadata } : {}),
+        ...(slowClientPolicy !== undefined ? { slowClientPolicy } : {}),
+      });
+    },
+    archiveTopic: async (_: any, { topicId, archived = true }: { topicId: string; archived?: boolean }, context: any): Promise<TopicInfo> => {
+      const { tenantId, topic } = await loadManagedTopic(topicId, context);
+      const updated = await redisTopicManager.updateTopic(tenantId, topic.id, { status: archived ? 'archived' : 'active' });
+      logger.info(`Topic ${topic.id} ${archived ? 'archived' : 'unarchived'} by ${context.user.userId}`);
+      return updated;
+    },
+    deleteTopic: async (_: any, { topicId }: { topicId: string }, context: any) => {
+      const { tenantId, topic } = await loadManagedTopic(topicId, context);
+
+      // Pending delayed events would otherwise recreate the stream on release
+      await eventScheduler.cancelTopic(tenantId, topic.id);
+      await redisTopicManager.deleteTopic(tenantId, topic.id);
+      await snapshotStore.delete(tenantId, topic.id);
+      await schemaRegistry.deleteTopicSchemas(tenantId, topic.id);
+      await coalescingPolicies.deleteTopicPolicies(tenantId, topic.id);
+      await webhookStore.deleteTopicWebhooks(tenantId, topic.id);
+      await ackCursorStore.deleteTopicCursors(tenantId, topic.id);
+      await firebaseAuth.deleteTopicAccess(topic.id);
+
+      logger.info(`Topic ${topic.id} deleted by ${context.user.userId}`);
+      return { success: true, message: 'deleted' };
+    },
+    updateTopicAccess: async (_: any, { input }: { input: UpdateTopicAccessInput }, context: any): Promise<TopicAccess> => {
+      const sanitizedTopicId = await requireTopicAdmin(input.topicId, context);
+
+      const inputValidation = validateTopicAccessInput(input);
+      if (!inputValidation.isValid) {
+        throw new Error(`Invalid input: ${inputValidation.errors.join(', ')}`);
+      }
+
+      const {
+        isPublic,
+        publicRole,
+        allowedUsers,
+        allowedRoles,
+        userRoles,
+        operationRoles,
+      } = inputValidation.sanitizedData! as UpdateTopicAccessInput;
+      await ensureTopicAccess(sanitizedTopicId);
+      const accessControl = await firebaseAuth.getAccessControl();
+      await accessControl.updateTopicAccess(sanitizedTopicId, {
+        ...(isPublic !== undefined ? { isPublic } : {}),
+        ...(publicRole !== undefined ? { publicRole } : {}),
+        ...(allowedUsers !== undefined ? { allowedUsers } : {}),
+        ...(allowedRoles !== undefined ? { allowedRoles } : {}),
+        // Lists on the wire, maps in Firestore; each list replaces the stored map
+        ...(userRoles !== undefined
+          ? { userRoles: Object.fromEntries(userRoles.map(entry => [entry.userId, entry.role])) }
+          : {}),
+        ...(operationRoles !== undefined
+          ? { operationRoles: Object.fromEntries(operationRoles.map(entry => [entry.operation, entry.role])) }
+          : {}),
+      });
+
+      logger.info(`Topic ${sanitizedTopicId} ACL updated by ${context.user.userId}`);
+      return readTopicAccess(sanitizedTopicId);
+    },
+    addUserToTopic: async (_: any, { topicId, userId }: { topicId: string; userId: string }, context: any): Promise<TopicAccess> => {
+      const sanitizedTopicId = await requireTopicAdmin(topicId, context);
+
+      const userValidation = validateUserId(userId);
+      if (!userValidation.isValid) {
+        throw new Error(`Invalid user ID: ${userValidation.errors.join(', ')}`);
+      }
+
+      await ensureTopicAccess(sanitizedTopicId);
+      const accessControl = await firebaseAuth.getAccessControl();
+      await accessControl.addUserToTopic(sanitizedTopicId, userValidation.sanitizedData!);
+      return readTopicAccess(sanitizedTopicId);
+    },
+    registerEventSchema: async (_: any, { input }: { input: RegisterEventSchemaInput }, context: any): Promise<EventSchema> => {
+      const inputValidation = validateEventSchemaInput(input);
+      if (!inputValidation.isValid) {
+        throw new Error(`Invalid input: ${inputValidation.errors.join(', ')}`);
+      }
+
+      const { topicId, eventType, schema } = inputValidation.sanitizedData! as RegisterEventSchemaInput;
+      const sanitizedTopicId = await requireScopeAdmin(topicId, context);
+      const tenantId = context.user.tenantId || 'default';
+      return schemaRegistry.register(tenantId, sanitizedTopicId, eventType ?? null, schema, context.user.userId);
+    },
+    deleteEventSchema: async (_: any, { topicId, eventType }: { topicId?: string; eventType?: string }, context: any) => {
+      const sanitizedTopicId = await requireScopeAdmin(topicId, context);
+      const sanitizedEventType = sanitizeEventType(eventType);
+      if (sanitizedTopicId === null && sanitizedEventType === null) {
+        throw new Error('Invalid input: topicId or eventType is required');
+      }
+
+      const tenantId = context.user.tenantId || 'default';
+      const removed = await schemaRegistry.delete(tenantId, sanitizedTopicId, sanitizedEventType);
+      return { success: removed, message: removed ? 'deleted' : 'No schema registered for this scope' };
+    },
+    setCoalescingPolicy: async (_: any, { input }: { input: SetCoalescingPolicyInput }, context: any): Promise<CoalescingPolicy> => {
+      const inputValidation = validateCoalescingPolicyInput(input);
+      if (!inputValidation.isValid) {
+        throw new Error(`Invalid input: ${inputValidation.errors.join(', ')}`);
+      }
+
+      const sanitizedInput = inputValidation.sanitizedData! as SetCoalescingPolicyInput;
+      const sanitizedTopicId = await requireScopeAdmin(sanitizedInput.topicId, context);
+      const tenantId = context.user.tenantId || 'default';
+      return coalescingPolicies.set(
+        tenantId,
+        { ...sanitizedInput, ...(sanitizedTopicId !== null ? { topicId: sanitizedTopicId } : {}) },
+        context.user.userId
+      );
+    },
+    deleteCoalescingPolicy: async (_: any, { topicId, eventType }: { topicId?: string; eventType: string }, context: any) => {
+      const sanitizedTopicId = await requireScopeAdmin(topicId, context);
+      const sanitizedEventType = sanitizeEventType(eventType)!;
+
+      const tenantId = context.user.tenantId || 'default';
+      const removed = await coalescingPolicies.delete(tenantId, sanitizedTopicId, sanitizedEventType);
+      return { success: removed, message: removed ? 'deleted' : 'No policy set for this scope' };
+    },
+    registerWebhook: async (_: any, { input }: { input: RegisterWebhookInput }, context: any) => {
+      const inputValidation = validateWebhookInput(input);
+      if (!inputValidation.isValid) {
+        throw new Error(`Invalid input: ${inputValidation.errors.join(', ')}`);
+      }
+
+      const sanitizedInput = inputValidation.sanitizedData! as RegisterWebhookInput;
+      const sanitizedTopicId = await requireTopicAdmin(sanitizedInput.topicId, context);
+
+      const targetValidation = await validateWebhookTarget(sanitizedInput.url);
+      if (!targetValidation.isValid) {
+        throw new Error(`Invalid input: ${targetValidation.errors.join(', ')}`);
+      }
+      const tenantId = context.user.tenantId || 'default';
+      return webhookStore.register(tenantId, { ...sanitizedInput, topicId: sanitizedTopicId }, context.user.userId);
+    },
+    deleteWebhook: async (_: any, { topicId, webhookId }: { topicId: string; webhookId: string }, context: any) => {
+      const sanitizedTopicId = await requireTopicAdmin(topicId, context);
+
+      const tenantId = context.user.tenantId || 'default';
+      const removed = WEBHOOK_ID_PATTERN.test(webhookId) && await webhookStore.delete(tenantId, sanitizedTopicId, webhookId);
+      return { success: removed, message: removed ? 'deleted' : 'Webhook not found' };
+    },
+    removeUserFromTopic: async (_: any, { topicId, userId }: { topicId: string; userId: string }, context: any): Promise<TopicAccess> => {
+      const sanitizedTopicId = await requireTopicAdmin(topicId, context);
+
+      const userValidation = validateUserId(userId);
+      if (!userValidation.isValid) {
+        throw new Error(`Invalid user ID: ${userValidation.errors.join(', ')}`);
+      }
+
+      await ensureTopicAccess(sanitizedTopicId);
+      const accessControl = await firebaseAuth.getAccessControl();
+      await accessControl.removeUserFromTopic(sanitizedTopicId, userValidation.sanitizedData!);
+      return readTopicAccess(sanitizedTopicId);
+    },
+    ackEvents: async (
+      _: any,
+      { topicId, upToSeq, consumer }: { topicId: string; upToSeq: number; consumer?: string },
+      context: any
+    ) => {
+      try {
+        // Verify authentication
+        if (!context.user) {
+          throw new Error('Authentication required');
+        }
+
+        // Validate topic ID
+        const topicValidation = validateTopicId(topicId);
+        if (!topicValidation.isValid) {
+          throw new Error(`Invalid topic ID: ${topicValidation.errors.join(', ')}`);
+        }
+
+        const sanitizedTopicId = topicValidation.sanitizedData!;
+        const sanitizedConsumer = consumer !== undefined ? sanitizeGroupName(consumer) : DEFAULT_ACK_CONSUMER;
+        const tenantId = context.user.tenantId || 'default';
+
+        // Check topic access
+        const hasAccess = await firebaseAuth.checkTopicAccess(context.user.userId, sanitizedTopicId, 'subscribe', context.user.roles);
+        if (!hasAccess) {
+          throw new Error('Access denied to topic');
+        }
+
+        if (!Number.isInteger(upToSeq) || upToSeq < 0) {
+          throw new Error('Invalid input: upToSeq must be a non-negative integer');
+        }
+        const latestSeq = await redisTopicManager.getLatestSeq(tenantId, sanitizedTopicId);
+        if (upToSeq > latestSeq) {
+          throw new Error(`Invalid input: upToSeq ${upToSeq} is ahead of the latest seq ${latestSeq}`);
+        }
+
+        const committedSeq = await ackCursorStore.advance(tenantId, sanitizedTopicId, context.user.userId, sanitizedConsumer, upToSeq);
+        return { success: true, committedSeq, message: null };
+      } catch (error) {
+        logger.error('Error acknowledging events:', error);
+        return {
+          success: false,
+          committedSeq: null,
+          message: error instanceof Error ? error.message : 'Failed to acknowledge events',
+        };
+      }
+    },
+    ackGroupEvents: async (
+      _: any,
+      { topicId, group, streamIds }: { topicId: string; group: string; streamIds: string[] },
+      context: any
+    ) => {
+      try {
+        const target = await loadGroupTarget(topicId, group, 'subscribe', context);
+        if (streamIds.length > MAX_GROUP_ACK_IDS) {
+          throw new Error(`Invalid input: at most ${MAX_GROUP_ACK_IDS} stream IDs per call`);
+        }
+        const invalid = streamIds.find(id => !STREAM_ID_PATTERN.test(id));
+        if (invalid !== undefined) {
+          throw new Error(`Invalid input: ${invalid} is not a stream ID`);
+        }
+
+        const acknowledged = await consumerGroupManager.ack(target.tenantId, target.topicId, target.group, streamIds);
+        return { success: true, acknowledged, message: null };
+      } catch (error) {
+        logger.error('Error acknowledging group events:', error);
+        return {
+          success: false,
+          acknowledged: 0,
+          message: error instanceof Error ? error.message : 'Failed to acknowledge group events',
+        };
+      }
+    },
+    claimGroupEvents: async (
+      _: any,
+      { topicId, group, consumer, minIdleMs, count = 10 }: { topicId: string; group: string; consumer: string; minIdleMs: number; count?: number },
+      context: any
+    ): Promise<GroupDelivery[]> => {
+      const target = await loadGroupTarget(topicId, group, 'subscribe', context);
+      const sanitizedConsumer = sanitizeGroupName(consumer);
+      if (!Number.isFinite(minIdleMs) || minIdleMs < 0) {
+        throw new Error('Invalid input: minIdleMs must be a non-negative number');
+      }
+      if (!Number.isInteger(count) || count < 1 || count > 1000) {
+        throw new Error('Invalid input: count must be between 1 and 1000');
+      }
+
+      const claimed = await consumerGroupManager.claim(target.tenantId, target.topicId, target.group, sanitizedConsumer, {
+        minIdleMs: Math.floor(minIdleMs),
+        count,
+      });
+      logger.info(`Claimed ${claimed.deliveries.length} events for consumer ${sanitizedConsumer} in group ${target.group}`);
+      return claimed.deliveries;
+    },
+    joinTopic: async (_: any, { topicId }: { topicId: string }, context: any) => {
+      if (!context.user) throw new Error('Authentication required');
 
       // Validate topic ID
       const topicValidation = validateTopicId(topicId);
@@ -266,7 +1550,17 @@ export const resolvers = {
 
   Subscription: {
     topicEvents: {
-      subscribe: async (_: unknown, { topicId, fromSeq }: { topicId: string; fromSeq?: number }, context: any): Promise<any> => {
+      subscribe: async (
+        _: unknown,
+        {
+          topicId,
+          fromSeq,
+          filter,
+          ack = false,
+          consumer,
+        }: { topicId: string; fromSeq?: number; filter?: EventFilter; ack?: boolean; consumer?: string },
+        context: any
+      ): Promise<any> => {
         try {
           // Verify authentication
           if (!context.user) {
@@ -280,8 +1574,12 @@ export const resolvers = {
           }
 
           // Validate query parameters
+          // A transport that knows the last seq the client received (SSE
+          // Last-Event-ID) resumes right after it, overriding fromSeq
           const queryParams: { fromSeq?: number } = {};
-          if (fromSeq !== undefined) {
+          if (typeof context.resumeAfterSeq === 'number') {
+            queryParams.fromSeq = context.resumeAfterSeq + 1;
+          } else if (fromSeq !== undefined) {
             queryParams.fromSeq = fromSeq;
           }
           const queryValidation = validateQueryParams(queryParams);
@@ -289,11 +1587,22 @@ export const resolvers = {
             throw new Error(`Invalid parameters: ${queryValidation.errors.join(', ')}`);
           }
 
+          // Validate filter
+          let sanitizedFilter: EventFilter | undefined;
+          if (filter) {
+            const filterValidation = validateEventFilter(filter);
+            if (!filterValidation.isValid) {
+              throw new Error(`Invalid parameters: ${filterValidation.errors.join(', ')}`);
+            }
+            sanitizedFilter = filterValidation.sanitizedData;
+          }
+
           const sanitizedTopicId = topicValidation.sanitizedData!;
           const sanitizedFromSeq = queryValidation.sanitizedData!.fromSeq;
+          const sanitizedConsumer = consumer !== undefined ? sanitizeGroupName(consumer) : DEFAULT_ACK_CONSUMER;
 
           // Check topic access
-          const hasAccess = await firebaseAuth.checkTopicAccess(context.user.userId, sanitizedTopicId);
+          const hasAccess = await firebaseAuth.checkTopicAccess(context.user.userId, sanitizedTopicId, 'subscribe', context.user.roles);
           if (!hasAccess) {
             throw new Error('Access denied to topic');
           }
@@ -304,22 +1613,206 @@ export const resolvers = {
 
           logger.info(`Subscriber ${subscriberId} subscribed to topic ${sanitizedTopicId}`);
 
-          // If fromSeq provided, emit backlog first (server-side push)
-          if (typeof sanitizedFromSeq === 'number' && sanitizedFromSeq > 0 && config.featureFlags.durabilityEnabled) {
-            const backlog = await redisTopicManager.readFromSeq(context.user.tenantId || 'default', sanitizedTopicId, sanitizedFromSeq);
-            for (const evt of backlog) {
-              await graphqlPubSub.publish(channelForTopic(context.user.tenantId || 'default', sanitizedTopicId), { topicEvents: evt });
-            }
+          // Acknowledged subscriptions resume after the committed cursor and
+          // redeliver anything left unacked
+          if (ack) {
+            const tenantId = context.user.tenantId || 'default';
+            const userId: string = context.user.userId;
+            const latestSeq = await redisTopicManager.getLatestSeq(tenantId, sanitizedTopicId);
+            const committed = await ackCursorStore.init(tenantId, sanitizedTopicId, userId, sanitizedConsumer, latestSeq);
+            const acked = new AckedEventIterator(graphqlPubSub.asyncIterator([channelForTopic(tenantId, sanitizedTopicId)]), {
+              tenantId,
+              topicId: sanitizedTopicId,
+              userId,
+              consumer: sanitizedConsumer,
+              fromSeq: typeof sanitizedFromSeq === 'number' ? sanitizedFromSeq : committed + 1,
+              ...(sanitizedFilter ? { accept: (event: Event) => matchesEventFilter(event, sanitizedFilter!, userId) } : {}),
+            });
+            // The backlog and redeliveries are bounded like any live subscription;
+            // dropped events stay unacked and are redelivered
+            const policy = await redisTopicManager.getSlowClientPolicy(tenantId, sanitizedTopicId);
+            return new BoundedEventIterator(acked, {
+              tenantId,
+              capacity: config.topic.maxSubscriberQueueSize,
+              policyFor: () => policy,
+            });
           }
 
-          // Return async iterator for topic-scoped events
+          // Return async iterator for topic-scoped events, filtered before frames go out
+          // and bounded by the topic's slow-client policy
           const tenantId = context.user.tenantId || 'default';
-          return graphqlPubSub.asyncIterator([channelForTopic(tenantId, sanitizedTopicId)]);
+          const policy = await redisTopicManager.getSlowClientPolicy(tenantId, sanitizedTopicId);
+          const iterator = graphqlPubSub.asyncIterator<{ topicEvents: Event }>([channelForTopic(tenantId, sanitizedTopicId)]);
+          const viewerId = context.user.userId;
+          const filtered = sanitizedFilter
+            ? withFilter(
+                () => iterator,
+                (payload: { topicEvents: Event }) => matchesEventFilter(payload.topicEvents, sanitizedFilter, viewerId)
+              )() as AsyncIterator<{ topicEvents: Event }>
+            : iterator;
+          const bounded = new BoundedEventIterator(filtered, {
+            tenantId,
+            capacity: config.topic.maxSubscriberQueueSize,
+            policyFor: () => policy,
+          });
+
+          // With fromSeq, the backlog is replayed to this subscription only while
+          // live events wait in the bounded buffer
+          if (typeof sanitizedFromSeq === 'number' && sanitizedFromSeq > 0 && config.featureFlags.durabilityEnabled) {
+            return new ReplayEventIterator(bounded, {
+              tenantId,
+              topicId: sanitizedTopicId,
+              fromSeq: sanitizedFromSeq,
+              ...(sanitizedFilter ? { accept: (event: Event) => matchesEventFilter(event, sanitizedFilter!, viewerId) } : {}),
+            });
+          }
+          return bounded;
         } catch (error) {
           logger.error('Error subscribing to topic:', error);
           throw new Error('Failed to subscribe to topic');
         }
       },
     },
+    topicsEvents: {
+      resolve: (payload: { topicEvents: Event }) => payload.topicEvents,
+      subscribe: async (_: unknown, { patterns, filter }: { patterns: string[]; filter?: EventFilter }, context: any): Promise<any> => {
+        try {
+          // Verify authentication
+          if (!context.user) {
+            throw new Error('Authentication required');
+          }
+
+          // Validate patterns
+          const patternValidation = validateTopicPatterns(patterns);
+          if (!patternValidation.isValid) {
+            throw new Error(`Invalid parameters: ${patternValidation.errors.join(', ')}`);
+          }
+
+          // Validate filter
+          let sanitizedFilter: EventFilter | undefined;
+          if (filter) {
+            const filterValidation = validateEventFilter(filter);
+            if (!filterValidation.isValid) {
+              throw new Error(`Invalid parameters: ${filterValidation.errors.join(', ')}`);
+            }
+            sanitizedFilter = filterValidation.sanitizedData;
+          }
+
+          const sanitizedPatterns: string[] = patternValidation.sanitizedData!;
+          const userId: string = context.user.userId;
+          const roles: string[] = context.user.roles;
+          const tenantId = context.user.tenantId || 'default';
+
+          // Exact topic IDs are checked up front like topicEvents; wildcard
+          // matches are checked lazily as their first event arrives
+          for (const pattern of sanitizedPatterns.filter(p => !isTopicPattern(p))) {
+            const hasAccess = await firebaseAuth.checkTopicAccess(userId, pattern, 'subscribe', roles);
+            if (!hasAccess) {
+              throw new Error('Access denied to topic');
+            }
+          }
+
+          const matchesTopic = createTopicMatcher(sanitizedPatterns);
+          // Slow-client policies are refreshed together with the ACL decision
+          const accessByTopic = new Map<string, { allowed: boolean; policy: SlowClientPolicy; checkedAt: number }>();
+          const lastSeqByTopic = new Map<string, number>();
+
+          logger.info(`User ${userId} subscribed to topic patterns ${sanitizedPatterns.join(', ')}`);
+
+          const iterator = graphqlPubSub.asyncIterator([channelForTenant(tenantId)]);
+          const filtered = withFilter(
+            () => iterator,
+            async (payload: { topicEvents: Event }) => {
+              const event = payload.topicEvents;
+              if (!matchesTopic(event.topicId)) {
+                return false;
+              }
+
+              let access = accessByTopic.get(event.topicId);
+              if (!access || Date.now() - access.checkedAt > PATTERN_ACL_RECHECK_MS) {
+                access = {
+                  allowed: await firebaseAuth.checkTopicAccess(userId, event.topicId, 'subscribe', roles),
+                  policy: await redisTopicManager.getSlowClientPolicy(tenantId, event.topicId),
+                  checkedAt: Date.now(),
+                };
+                accessByTopic.set(event.topicId, access);
+              }
+              if (!access.allowed) {
+                return false;
+              }
+
+              // Keep per-topic seq ordering: drop duplicates and anything older
+              // than what this subscription already delivered for the topic
+              const lastSeq = lastSeqByTopic.get(event.topicId) ?? 0;
+              if (event.seq <= lastSeq) {
+                return false;
+              }
+              lastSeqByTopic.set(event.topicId, event.seq);
+
+              return matchesEventFilter(event, sanitizedFilter, userId);
+            }
+          )() as AsyncIterator<{ topicEvents: Event }>;
+          return new BoundedEventIterator(filtered, {
+            tenantId,
+            capacity: config.topic.maxSubscriberQueueSize,
+            policyFor: topicId => accessByTopic.get(topicId)?.policy ?? config.topic.slowClientPolicy,
+          });
+        } catch (error) {
+          logger.error('Error subscribing to topic patterns:', error);
+          throw new Error('Failed to subscribe to topics');
+        }
+      },
+    },
+    groupEvents: {
+      subscribe: async (
+        _: unknown,
+        { topicId, group, consumer }: { topicId: string; group: string; consumer?: string },
+        context: any
+      ): Promise<any> => {
+        try {
+          const target = await loadGroupTarget(topicId, group, 'subscribe', context);
+          // A stable consumer name lets a reconnecting worker pick up its own pending events
+          const consumerName = consumer !== undefined ? sanitizeGroupName(consumer) : `${context.user.userId}-${uuidv4()}`;
+
+          await consumerGroupManager.ensureGroup(target.tenantId, target.topicId, target.group);
+          logger.info(`Consumer ${consumerName} joined group ${target.group} on topic ${target.topicId}`);
+
+          return new GroupEventIterator({ ...target, consumer: consumerName });
+        } catch (error) {
+          logger.error('Error subscribing to consumer group:', error);
+          throw new Error('Failed to subscribe to consumer group');
+        }
+      },
+    },
+    presenceChanged: {
+      subscribe: async (_: unknown, { topicId }: { topicId: string }, context: any): Promise<any> => {
+        try {
+          // Verify authentication
+          if (!context.user) {
+            throw new Error('Authentication required');
+          }
+
+          // Validate topic ID
+          const topicValidation = validateTopicId(topicId);
+          if (!topicValidation.isValid) {
+            throw new Error(`Invalid topic ID: ${topicValidation.errors.join(', ')}`);
+          }
+
+          const sanitizedTopicId = topicValidation.sanitizedData!;
+
+          // Check topic access
+          const hasAccess = await firebaseAuth.checkTopicAccess(context.user.userId, sanitizedTopicId, 'subscribe', context.user.roles);
+          if (!hasAccess) {
+            throw new Error('Access denied to topic');
+          }
+
+          const tenantId = context.user.tenantId || 'default';
+          return graphqlPubSub.asyncIterator([channelForPresence(tenantId, sanitizedTopicId)]);
+        } catch (error) {
+          logger.error('Error subscribing to presence:', error);
+          throw new Error('Failed to subscribe to presence');
+        }
+      },
+    },
   },
 }; 
\ No newline at end of file
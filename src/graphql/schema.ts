@@ -11,6 +11,30 @@ export const typeDefs = gql`
     tenantId: String!
     senderId: String!
     priority: Int
+    deliverAt: String
+    expiresAt: String
+  }
+
+  enum HistoryDirection {
+    FORWARD
+    BACKWARD
+  }
+
+  type EventEdge {
+    cursor: String!
+    node: EventEnvelope!
+  }
+
+  type PageInfo {
+    hasNextPage: Boolean!
+    hasPreviousPage: Boolean!
+    startCursor: String
+    endCursor: String
+  }
+
+  type EventConnection {
+    edges: [EventEdge!]!
+    pageInfo: PageInfo!
   }
 
   type Topic {
@@ -20,17 +44,282 @@ export const typeDefs = gql`
     createdAt: Float!
   }
 
+  enum TopicStatus {
+    ACTIVE
+    ARCHIVED
+  }
+
+  enum SlowClientPolicy {
+    DROP_OLDEST
+    DROP_NEWEST
+    DISCONNECT
+    PAUSE_RESYNC
+  }
+
+  type TopicInfo {
+    id: ID!
+    status: TopicStatus!
+    description: String!
+    metadata: JSON!
+    createdBy: String!
+    createdAt: Float!
+    updatedAt: Float!
+    lastSeq: Int!
+    slowClientPolicy: SlowClientPolicy!
+  }
+
+  type DeleteTopicResponse {
+    success: Boolean!
+    message: String
+  }
+
+  enum TopicRole {
+    VIEWER
+    EDITOR
+    ADMIN
+  }
+
+  enum TopicOperation {
+    READ
+    SUBSCRIBE
+    PUBLISH
+    MANAGE
+  }
+
+  type TopicUserRole {
+    userId: String!
+    role: TopicRole!
+  }
+
+  type TopicOperationRole {
+    operation: TopicOperation!
+    role: TopicRole!
+  }
+
+  type TopicAccess {
+    topicId: ID!
+    isPublic: Boolean!
+    publicRole: TopicRole!
+    allowedUsers: [String!]!
+    allowedRoles: [String!]!
+    userRoles: [TopicUserRole!]!
+    operationRoles: [TopicOperationRole!]!
+    createdAt: Float!
+    updatedAt: Float!
+  }
+
+  input TopicUserRoleInput {
+    userId: String!
+    role: TopicRole!
+  }
+
+  input TopicOperationRoleInput {
+    operation: TopicOperation!
+    role: TopicRole!
+  }
+
+  input UpdateTopicAccessInput {
+    topicId: ID!
+    isPublic: Boolean
+    publicRole: TopicRole
+    allowedUsers: [String!]
+    allowedRoles: [String!]
+    userRoles: [TopicUserRoleInput!]
+    operationRoles: [TopicOperationRoleInput!]
+  }
+
+  input CreateTopicInput {
+    topicId: ID!
+    description: String
+    metadata: JSON
+    isPublic: Boolean
+    slowClientPolicy: SlowClientPolicy
+  }
+
+  input UpdateTopicInput {
+    topicId: ID!
+    description: String
+    metadata: JSON
+    slowClientPolicy: SlowClientPolicy
+  }
+
   type TopicStats {
     subscriberCount: Int!
     bufferSize: Int!
   }
 
+  type SchemaFieldError {
+    path: String!
+    message: String!
+  }
+
   type PublishEventResponse {
     success: Boolean!
     eventId: ID!
+    seq: Int
+    duplicate: Boolean
+    scheduled: Boolean
+    message: String
+    errors: [SchemaFieldError!]
+  }
+
+  type PublishEventResult {
+    index: Int!
+    success: Boolean!
+    eventId: ID
+    seq: Int
+    duplicate: Boolean
+    scheduled: Boolean
+    message: String
+    errors: [SchemaFieldError!]
+  }
+
+  type EventSchema {
+    topicId: ID
+    eventType: String
+    version: Int!
+    schema: JSON!
+    createdBy: String!
+    createdAt: Float!
+  }
+
+  type AckResponse {
+    success: Boolean!
+    committedSeq: Int
     message: String
   }
 
+  type GroupDelivery {
+    streamId: ID!
+    consumer: String!
+    deliveryCount: Int!
+    event: EventEnvelope!
+  }
+
+  type PendingGroupEntry {
+    streamId: ID!
+    consumer: String!
+    idleMs: Float!
+    deliveryCount: Int!
+  }
+
+  type GroupConsumer {
+    name: String!
+    pending: Int!
+  }
+
+  type PendingGroupSummary {
+    count: Int!
+    firstId: ID
+    lastId: ID
+    consumers: [GroupConsumer!]!
+    entries: [PendingGroupEntry!]!
+  }
+
+  type GroupAckResponse {
+    success: Boolean!
+    acknowledged: Int!
+    message: String
+  }
+
+  enum CoalescingMode {
+    LATEST_PER_SENDER
+    LATEST_PER_KEY
+    MERGE
+    NONE
+  }
+
+  type CoalescingPolicy {
+    topicId: ID
+    eventType: String!
+    mode: CoalescingMode!
+    keyPath: String
+    threshold: Float!
+    updatedBy: String!
+    updatedAt: Float!
+  }
+
+  input SetCoalescingPolicyInput {
+    topicId: ID
+    eventType: String!
+    mode: CoalescingMode!
+    keyPath: String
+    threshold: Float
+  }
+
+  type DeleteCoalescingPolicyResponse {
+    success: Boolean!
+    message: String
+  }
+
+  type Webhook {
+    id: ID!
+    topicId: ID!
+    url: String!
+    eventTypes: [String!]
+    createdBy: String!
+    createdAt: Float!
+  }
+
+  type WebhookRegistration {
+    webhook: Webhook!
+    secret: String!
+  }
+
+  input RegisterWebhookInput {
+    topicId: ID!
+    url: String!
+    eventTypes: [String!]
+  }
+
+  enum WebhookAttemptOutcome {
+    DELIVERED
+    FAILED
+    CIRCUIT_OPEN
+  }
+
+  type WebhookDeliveryAttempt {
+    webhookId: ID!
+    eventId: ID!
+    seq: Int!
+    attempt: Int!
+    outcome: WebhookAttemptOutcome!
+    status: Int
+    error: String
+    durationMs: Float!
+    ts: Float!
+  }
+
+  type DeadLetteredEvent {
+    webhookId: ID!
+    event: EventEnvelope!
+    attempts: Int!
+    lastError: String!
+    ts: Float!
+  }
+
+  type DeleteWebhookResponse {
+    success: Boolean!
+    message: String
+  }
+
+  type DeleteEventSchemaResponse {
+    success: Boolean!
+    message: String
+  }
+
+  input RegisterEventSchemaInput {
+    topicId: ID
+    eventType: String
+    schema: JSON!
+  }
+
+  type PublishEventsResponse {
+    success: Boolean!
+    message: String
+    results: [PublishEventResult!]!
+  }
+
   type SubscriptionResponse {
     success: Boolean!
     message: String
@@ -40,28 +329,123 @@ export const typeDefs = gql`
     users: [String!]!
   }
 
+  enum PresenceChangeType {
+    JOIN
+    LEAVE
+    TIMEOUT
+  }
+
+  type PresenceChange {
+    topicId: ID!
+    userId: String!
+    type: PresenceChangeType!
+    ts: String!
+  }
+
+  type TopicSnapshot {
+    topicId: ID!
+    seq: Int!
+    ts: String!
+    data: JSON!
+    createdBy: String!
+  }
+
+  type ResyncPayload {
+    snapshot: TopicSnapshot
+    events: [EventEnvelope!]!
+    latestSeq: Int!
+    complete: Boolean!
+  }
+
+  type SaveSnapshotResponse {
+    success: Boolean!
+    seq: Int
+    message: String
+  }
+
+  input SaveSnapshotInput {
+    topicId: ID!
+    seq: Int!
+    data: JSON!
+  }
+
+  input EventFilterInput {
+    includeTypes: [String!]
+    excludeTypes: [String!]
+    includeSenders: [String!]
+    excludeSenders: [String!]
+    excludeSelf: Boolean
+    minPriority: Int
+    dataEquals: JSON
+  }
+
   input PublishEventInput {
     topicId: ID!
     type: String!
     data: JSON!
     priority: Int
+    idempotencyKey: String
+    deliverAt: String
+    expiresAt: String
   }
 
   type Query {
     topics: [Topic!]!
+    topic(topicId: ID!): TopicInfo
     topicStats(topicId: ID!): TopicStats
     eventHistory(topicId: ID!, count: Int): [EventEnvelope!]!
+    eventHistoryConnection(
+      topicId: ID!
+      first: Int
+      after: String
+      afterSeq: Int
+      beforeSeq: Int
+      from: String
+      to: String
+      direction: HistoryDirection = BACKWARD
+    ): EventConnection!
+    resync(topicId: ID!): ResyncPayload!
+    presence(topicId: ID!): PresenceList!
+    topicAccess(topicId: ID!): TopicAccess
+    eventSchema(topicId: ID, eventType: String, version: Int): EventSchema
+    eventSchemas(topicId: ID): [EventSchema!]!
+    coalescingPolicies(topicId: ID): [CoalescingPolicy!]!
+    groupPending(topicId: ID!, group: String!, consumer: String, count: Int = 100): PendingGroupSummary!
+    webhooks(topicId: ID!): [Webhook!]!
+    webhookDeliveries(topicId: ID!, webhookId: ID!, count: Int = 50): [WebhookDeliveryAttempt!]!
+    webhookDeadLetters(topicId: ID!, webhookId: ID!, count: Int = 50): [DeadLetteredEvent!]!
   }
 
   type Mutation {
     publishEvent(input: PublishEventInput!): PublishEventResponse!
+    publishEvents(inputs: [PublishEventInput!]!): PublishEventsResponse!
+    saveSnapshot(input: SaveSnapshotInput!): SaveSnapshotResponse!
+    createTopic(input: CreateTopicInput!): TopicInfo!
+    updateTopic(input: UpdateTopicInput!): TopicInfo!
+    archiveTopic(topicId: ID!, archived: Boolean = true): TopicInfo!
+    deleteTopic(topicId: ID!): DeleteTopicResponse!
+    updateTopicAccess(input: UpdateTopicAccessInput!): TopicAccess!
+    addUserToTopic(topicId: ID!, userId: String!): TopicAccess!
+    removeUserFromTopic(topicId: ID!, userId: String!): TopicAccess!
+    registerEventSchema(input: RegisterEventSchemaInput!): EventSchema!
+    deleteEventSchema(topicId: ID, eventType: String): DeleteEventSchemaResponse!
+    setCoalescingPolicy(input: SetCoalescingPolicyInput!): CoalescingPolicy!
+    deleteCoalescingPolicy(topicId: ID, eventType: String!): DeleteCoalescingPolicyResponse!
+    registerWebhook(input: RegisterWebhookInput!): WebhookRegistration!
+    deleteWebhook(topicId: ID!, webhookId: ID!): DeleteWebhookResponse!
+    ackEvents(topicId: ID!, upToSeq: Int!, consumer: String): AckResponse!
+    ackGroupEvents(topicId: ID!, group: String!, streamIds: [ID!]!): GroupAckResponse!
+    claimGroupEvents(topicId: ID!, group: String!, consumer: String!, minIdleMs: Float!, count: Int = 10): [GroupDelivery!]!
     joinTopic(topicId: ID!): SubscriptionResponse!
     leaveTopic(topicId: ID!): SubscriptionResponse!
     heartbeat(topicId: ID!): SubscriptionResponse!
   }
 
   type Subscription {
-    topicEvents(topicId: ID!, fromSeq: Int): EventEnvelope!
+    topicEvents(topicId: ID!, fromSeq: Int, filter: EventFilterInput, ack: Boolean = false, consumer: String): EventEnvelope!
+    topicsEvents(patterns: [String!]!, filter: EventFilterInput): EventEnvelope!
+    groupEvents(topicId: ID!, group: String!, consumer: String): GroupDelivery!
+    presenceChanged(topicId: ID!): PresenceChange!
   }
 
   scalar JSON
@@ -11,7 +11,16 @@ import { firebaseAuth } from './gateway/auth';
 import { redisConnection } from './redis/connection';
 import { redisTopicManager } from './redis/topicManager';
 import { eventDistributor } from './redis/eventDistributor';
+import { graphqlPubSub } from './graphql/pubsub';
+import { createEventsRouter } from './rest/events';
+import { createSubscribersRouter } from './rest/subscribers';
+import { negotiateEncoding } from './rest/middleware';
+import { SseSubscriptionServer } from './gateway/sseServer';
+import { RawWebSocketServer } from './gateway/rawWebSocketServer';
+import { presenceManager } from './redis/presence';
+import { eventScheduler } from './redis/scheduler';
 import { logger } from './utils/logger';
+import { MSGPACK_MEDIA_TYPES } from './utils/encoding';
 import { config } from './config';
 import { GraphQLError, GraphQLFormattedError } from 'graphql';
 import { getPrometheusMetrics } from './monitoring/metrics';
@@ -26,6 +35,9 @@ async function startServer(): Promise<void> {
     await eventDistributor.startListening();
     logger.info('Event distributor started');
 
+    // Start the Redis-backed GraphQL PubSub
+    await graphqlPubSub.start();
+
     // Initialize Firebase Auth
     logger.info('Firebase Auth initialized');
 
@@ -79,6 +91,7 @@ async function startServer(): Promise<void> {
       credentials: true,
       methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
       allowedHeaders: ['Content-Type', 'Authorization', 'Apollo-Require-Preflight'],
+      exposedHeaders: ['RateLimit-Limit', 'RateLimit-Remaining', 'RateLimit-Reset', 'Retry-After'],
       maxAge: 86400, // 24 hours
     }));
     app.use(express.json({ limit: '10mb' }));
@@ -98,6 +111,16 @@ async function startServer(): Promise<void> {
       res.send(getPrometheusMetrics());
     });
 
+    // REST ingress for producers; bodies and responses may be MessagePack
+    app.use('/v1', express.raw({ type: MSGPACK_MEDIA_TYPES, limit: '10mb' }), negotiateEncoding);
+    app.use('/v1', createEventsRouter());
+
+    // Long polling for clients without WebSocket or SSE support
+    app.use('/v1', createSubscribersRouter());
+
+    // GraphQL over SSE; registered before Apollo so /graphql does not swallow it
+    new SseSubscriptionServer(app);
+
     // Apollo Server setup
     const apolloServer = new ApolloServer({
       typeDefs,
@@ -125,8 +148,11 @@ async function startServer(): Promise<void> {
                              error.message.startsWith('Access denied') ||
                              error.message.startsWith('Invalid input') ||
                              error.message.startsWith('Invalid topic ID') ||
+                             error.message.startsWith('Invalid user ID') ||
                              error.message.startsWith('Invalid parameters') ||
                              error.message.startsWith('Rate limit exceeded') ||
+                             error.message.startsWith('Topic not found') ||
+                             error.message.startsWith('Topic already exists') ||
                              error.message.includes('CORS policy');
 
           // Remove sensitive information in production
@@ -149,20 +175,43 @@ async function startServer(): Promise<void> {
     await apolloServer.start();
     apolloServer.applyMiddleware({ app: app as any, path: '/graphql' });
 
-    // WebSocket subscription server
-    new SubscriptionServer(httpServer);
+    // WebSocket servers share the HTTP server, so upgrades are routed by path
+    const subscriptionServer = new SubscriptionServer();
+    const rawWebSocketServer = new RawWebSocketServer();
+    httpServer.on('upgrade', (req, socket, head) => {
+      const { pathname } = new URL(req.url || '/', 'http://localhost');
+      if (pathname === '/graphql') {
+        subscriptionServer.handleUpgrade(req, socket, head);
+      } else if (pathname === config.rawWebSocket.path) {
+        void rawWebSocketServer.handleUpgrade(req, socket, head);
+      } else {
+        socket.destroy();
+      }
+    });
 
     // Cleanup interval for inactive subscribers
     setInterval(() => {
       void redisTopicManager.cleanupInactiveSubscribers();
     }, 30000); // Every 30 seconds
 
+    // Sweep presence members that stopped heartbeating
+    setInterval(() => {
+      void presenceManager.sweepExpired();
+    }, config.presence.sweepIntervalMs);
+
+    // Release delayed events whose deliverAt has passed
+    setInterval(() => {
+      void eventScheduler.releaseDue();
+    }, config.scheduler.pollIntervalMs);
+
     // Start server
     const port = config.server.port;
     httpServer.listen(port, () => {
       logger.info(`🚀 Realtime Subscription Gateway running on port ${port}`);
       logger.info(`📊 GraphQL endpoint: http://localhost:${port}/graphql`);
       logger.info(`🔌 WebSocket endpoint: ws://localhost:${port}/graphql`);
+      logger.info(`⚡ Raw WebSocket endpoint: ws://localhost:${port}${config.rawWebSocket.path}`);
+      logger.info(`📡 SSE endpoint: http://localhost:${port}/graphql/stream`);
       logger.info(`🏥 Health check: http://localhost:${port}/health`);
     });
 
@@ -170,7 +219,9 @@ async function startServer(): Promise<void> {
     process.on('SIGTERM', () => {
       logger.info('SIGTERM received, shutting down gracefully');
       void (async () => {
+        rawWebSocketServer.close();
         await eventDistributor.stopListening();
+        await graphqlPubSub.stop();
         await redisConnection.disconnect();
         httpServer.close(() => {
           logger.info('Server closed');
@@ -182,7 +233,9 @@ async function startServer(): Promise<void> {
     process.on('SIGINT', () => {
       logger.info('SIGINT received, shutting down gracefully');
       void (async () => {
+        rawWebSocketServer.close();
         await eventDistributor.stopListening();
+        await graphqlPubSub.stop();
         await redisConnection.disconnect();
         httpServer.close(() => {
           logger.info('Server closed');
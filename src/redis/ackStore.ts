@@ -0,0 +1,97 @@
+import { RedisClientType } from 'redis';
+import { config } from '../config';
+import { redisConnection } from './connection';
+
+const DELETE_SCAN_COUNT = 100;
+
+// Only moves the cursor forward, so a late or duplicate ack never rewinds it
+const ADVANCE_SCRIPT = `
+  local current = tonumber(redis.call('GET', KEYS[1]) or '0')
+  local target = tonumber(ARGV[1])
+  if target > current then
+    redis.call('SET', KEYS[1], ARGV[1], 'EX', ARGV[2])
+    return target
+  end
+  redis.call('EXPIRE', KEYS[1], ARGV[2])
+  return current
+`;
+
+// Cursor used by acknowledged subscriptions that do not name a consumer
+export const DEFAULT_ACK_CONSUMER = 'default';
+
+/**
+ * Committed delivery cursors: the highest seq each of a user's consumers has
+ * acknowledged per topic. Acknowledged subscriptions resume from here after a
+ * reconnect. Consumers are named by the client, so each device or tab can
+ * keep its own cursor, and a user's consumers never see each other's acks.
+ */
+export class AckCursorStore {
+  private redis: RedisClientType | null = null;
+
+  private getRedis(): RedisClientType {
+    if (!this.redis) {
+      this.redis = redisConnection.getClient();
+      if (!this.redis) {
+        throw new Error('Redis client not available');
+      }
+    }
+    return this.redis;
+  }
+
+  // Braces delimit the topic, so a topic's cursors can be matched without
+  // catching those of topics nested under its ID (`doc` vs `doc:1`)
+  private topicPrefix(tenantId: string, topicId: string): string {
+    return `${config.redis.keyPrefix}:cursor:${tenantId}:{${topicId}}`;
+  }
+
+  private key(tenantId: string, topicId: string, userId: string, consumer: string): string {
+    return `${this.topicPrefix(tenantId, topicId)}:${userId}:${consumer}`;
+  }
+
+  async get(tenantId: string, topicId: string, userId: string, consumer: string): Promise<number | null> {
+    const value = await this.getRedis().get(this.key(tenantId, topicId, userId, consumer));
+    return value === null ? null : parseInt(value, 10);
+  }
+
+  // Returns the committed seq after the ack, which may be higher than upToSeq
+  async advance(tenantId: string, topicId: string, userId: string, consumer: string, upToSeq: number): Promise<number> {
+    const committed = await this.getRedis().eval(ADVANCE_SCRIPT, {
+      keys: [this.key(tenantId, topicId, userId, consumer)],
+      arguments: [upToSeq.toString(), config.ack.cursorTtlSeconds.toString()],
+    });
+    return Number(committed);
+  }
+
+  /**
+   * Starts a cursor at `seq` unless one exists, and returns the committed seq
+   */
+  async init(tenantId: string, topicId: string, userId: string, consumer: string, seq: number): Promise<number> {
+    const k = this.key(tenantId, topicId, userId, consumer);
+    const created = await this.getRedis().set(k, seq.toString(), { NX: true, EX: config.ack.cursorTtlSeconds });
+    if (created) {
+      return seq;
+    }
+    return (await this.get(tenantId, topicId, userId, consumer)) ?? seq;
+  }
+
+  /**
+   * Drops every user's cursors on the topic. A recreated topic starts again
+   * at seq 1, and an old cursor left in place would hide its events.
+   */
+  async deleteTopicCursors(tenantId: string, topicId: string): Promise<void> {
+    const redis = this.getRedis();
+    let batch: string[] = [];
+    for await (const key of redis.scanIterator({ MATCH: `${this.topicPrefix(tenantId, topicId)}:*`, COUNT: DELETE_SCAN_COUNT })) {
+      batch.push(key);
+      if (batch.length >= DELETE_SCAN_COUNT) {
+        await redis.del(batch);
+        batch = [];
+      }
+    }
+    if (batch.length > 0) {
+      await redis.del(batch);
+    }
+  }
+}
+
+export const ackCursorStore = new AckCursorStore();
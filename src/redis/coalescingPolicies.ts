@@ -0,0 +1,111 @@
+import { RedisClientType } from 'redis';
+import { CoalescingPolicy, SetCoalescingPolicyInput } from '../types';
+import { logger } from '../utils/logger';
+import { config } from '../config';
+import { redisConnection } from './connection';
+import { CoalescingRule, DEFAULT_COALESCING_RULES, NO_COALESCING } from '../utils/coalescing';
+
+const WILDCARD = '*';
+const MAX_CACHED_RULES = 10000;
+const DEFAULT_THRESHOLD = 0.75;
+
+/**
+ * Coalescing policies per event type, optionally scoped to one topic. Queues
+ * look up the rule for every queued event, so resolved rules are cached for
+ * COALESCING_CACHE_TTL_MS; changes reach other nodes within that window.
+ */
+export class CoalescingPolicyStore {
+  private redis: RedisClientType | null = null;
+  private cache = new Map<string, { rule: CoalescingRule; expiresAt: number }>();
+
+  private getRedis(): RedisClientType {
+    if (!this.redis) {
+      this.redis = redisConnection.getClient();
+      if (!this.redis) {
+        throw new Error('Redis client not available');
+      }
+    }
+    return this.redis;
+  }
+
+  private key(tenantId: string): string {
+    return `${config.redis.keyPrefix}:coalesce:${tenantId}`;
+  }
+
+  private scope(topicId: string | null, eventType: string): string {
+    return `${topicId ?? WILDCARD}|${eventType}`;
+  }
+
+  async set(tenantId: string, input: SetCoalescingPolicyInput, updatedBy: string): Promise<CoalescingPolicy> {
+    const record: CoalescingPolicy = {
+      topicId: input.topicId ?? null,
+      eventType: input.eventType,
+      mode: input.mode,
+      ...(input.keyPath !== undefined ? { keyPath: input.keyPath } : {}),
+      threshold: input.threshold ?? DEFAULT_THRESHOLD,
+      updatedBy,
+      updatedAt: Date.now(),
+    };
+    await this.getRedis().hSet(this.key(tenantId), this.scope(record.topicId, record.eventType), JSON.stringify(record));
+    this.cache.clear();
+
+    logger.info(`Set ${record.mode} coalescing for ${this.scope(record.topicId, record.eventType)} in tenant ${tenantId}`);
+    return record;
+  }
+
+  /**
+   * Stored policies that apply to a topic (including tenant-wide ones), or
+   * every stored policy in the tenant when no topic is given
+   */
+  async list(tenantId: string, topicId?: string): Promise<CoalescingPolicy[]> {
+    const all = await this.getRedis().hGetAll(this.key(tenantId));
+    return Object.values(all)
+      .map(raw => JSON.parse(raw) as CoalescingPolicy)
+      .filter(record => topicId === undefined || record.topicId === null || record.topicId === topicId);
+  }
+
+  async delete(tenantId: string, topicId: string | null, eventType: string): Promise<boolean> {
+    const removed = await this.getRedis().hDel(this.key(tenantId), this.scope(topicId, eventType));
+    this.cache.clear();
+    return removed > 0;
+  }
+
+  // Drops every policy scoped to the topic; used when the topic is purged
+  async deleteTopicPolicies(tenantId: string, topicId: string): Promise<void> {
+    const scopes = (await this.getRedis().hKeys(this.key(tenantId)))
+      .filter(scope => scope.startsWith(`${topicId}|`));
+    if (scopes.length > 0) {
+      await this.getRedis().hDel(this.key(tenantId), scopes);
+    }
+    this.cache.clear();
+  }
+
+  /**
+   * The rule for an event type on a topic: the topic's own policy, then the
+   * tenant-wide policy for the type, then the built-in default
+   */
+  async resolve(tenantId: string, topicId: string, eventType: string): Promise<CoalescingRule> {
+    const cacheKey = `${tenantId}|${topicId}|${eventType}`;
+    const cached = this.cache.get(cacheKey);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.rule;
+    }
+
+    const found = await this.getRedis().hmGet(this.key(tenantId), [
+      this.scope(topicId, eventType),
+      this.scope(null, eventType),
+    ]);
+    const raw = found.find((value): value is string => typeof value === 'string');
+    const rule: CoalescingRule = raw
+      ? JSON.parse(raw) as CoalescingPolicy
+      : DEFAULT_COALESCING_RULES.get(eventType) ?? NO_COALESCING;
+
+    if (this.cache.size >= MAX_CACHED_RULES) {
+      this.cache.clear();
+    }
+    this.cache.set(cacheKey, { rule, expiresAt: Date.now() + config.coalescing.cacheTtlMs });
+    return rule;
+  }
+}
+
+export const coalescingPolicies = new CoalescingPolicyStore();
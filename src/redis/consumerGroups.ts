@@ -0,0 +1,177 @@
+import { RedisClientType } from 'redis';
+import { GroupDelivery, PendingGroupSummary } from '../types';
+import { logger } from '../utils/logger';
+import { config } from '../config';
+import { redisConnection } from './connection';
+import { BINARY_REPLY, StreamFields, redisTopicManager } from './topicManager';
+import { isExpired } from '../utils/envelope';
+
+type StreamMessage = { id: string | Buffer; message: StreamFields } | null;
+
+export interface ClaimOptions {
+  minIdleMs: number;
+  count: number;
+  owner?: string;
+  start?: string;
+}
+
+export interface ClaimResult {
+  deliveries: GroupDelivery[];
+  scanned: number; // pending entries examined, to tell when paging is finished
+  lastId: string | null;
+}
+
+/**
+ * Consumer groups on the topic streams. Each event in a group is delivered to
+ * exactly one consumer and stays pending until it is acknowledged with XACK;
+ * entries left pending too long can be claimed by another consumer.
+ */
+export class ConsumerGroupManager {
+  private redis: RedisClientType | null = null;
+
+  private getRedis(): RedisClientType {
+    if (!this.redis) {
+      this.redis = redisConnection.getClient();
+      if (!this.redis) {
+        throw new Error('Redis client not available');
+      }
+    }
+    return this.redis;
+  }
+
+  private streamKey(tenantId: string, topicId: string): string {
+    return `${config.redis.keyPrefix}:stream:${tenantId}:${topicId}`;
+  }
+
+  /**
+   * Creates the group if it does not exist yet. New groups start at the end of
+   * the stream, so they only see events published from now on.
+   */
+  async ensureGroup(tenantId: string, topicId: string, group: string): Promise<void> {
+    try {
+      await this.getRedis().xGroupCreate(this.streamKey(tenantId, topicId), group, '$', { MKSTREAM: true });
+      logger.info(`Created consumer group ${group} on topic ${topicId}`);
+    } catch (error) {
+      if (!(error instanceof Error) || !error.message.startsWith('BUSYGROUP')) {
+        throw error;
+      }
+    }
+  }
+
+  // Reads events no consumer in the group has seen yet
+  async readNew(tenantId: string, topicId: string, group: string, consumer: string, count: number): Promise<GroupDelivery[]> {
+    const streams = await this.getRedis().xReadGroup(
+      BINARY_REPLY,
+      group,
+      consumer,
+      { key: this.streamKey(tenantId, topicId), id: '>' },
+      { COUNT: count }
+    );
+    const messages = streams?.[0]?.messages ?? [];
+    return this.toDeliveries(tenantId, topicId, group, consumer, messages, () => 1);
+  }
+
+  /**
+   * Moves up to `count` entries that have been pending for at least
+   * `minIdleMs` to `consumer` and returns them. `owner` limits the scan to one
+   * consumer's entries and `start` pages through them (e.g. `(1700000000000-0`).
+   */
+  async claim(
+    tenantId: string,
+    topicId: string,
+    group: string,
+    consumer: string,
+    options: ClaimOptions
+  ): Promise<ClaimResult> {
+    const key = this.streamKey(tenantId, topicId);
+    const { minIdleMs, count, owner, start = '-' } = options;
+    const pending = await this.getRedis().xPendingRange(key, group, start, '+', count, {
+      IDLE: minIdleMs,
+      ...(owner !== undefined ? { consumer: owner } : {}),
+    });
+    if (pending.length === 0) {
+      return { deliveries: [], scanned: 0, lastId: null };
+    }
+
+    const counts = new Map(pending.map(entry => [entry.id.toString(), entry.deliveriesCounter + 1]));
+    const claimed = await this.getRedis().xClaim(BINARY_REPLY, key, group, consumer, minIdleMs, [...counts.keys()]);
+    const deliveries = await this.toDeliveries(
+      tenantId,
+      topicId,
+      group,
+      consumer,
+      claimed,
+      id => counts.get(id) ?? 1
+    );
+    return { deliveries, scanned: pending.length, lastId: pending[pending.length - 1]!.id.toString() };
+  }
+
+  async ack(tenantId: string, topicId: string, group: string, streamIds: string[]): Promise<number> {
+    if (streamIds.length === 0) return 0;
+    return this.getRedis().xAck(this.streamKey(tenantId, topicId), group, streamIds);
+  }
+
+  async pending(tenantId: string, topicId: string, group: string, count: number, consumer?: string): Promise<PendingGroupSummary> {
+    const key = this.streamKey(tenantId, topicId);
+    const summary = await this.getRedis().xPending(key, group);
+    const entries = await this.getRedis().xPendingRange(key, group, '-', '+', count, {
+      ...(consumer !== undefined ? { consumer } : {}),
+    });
+    return {
+      count: summary.pending,
+      firstId: summary.firstId?.toString() ?? null,
+      lastId: summary.lastId?.toString() ?? null,
+      consumers: (summary.consumers ?? []).map(c => ({ name: c.name.toString(), pending: c.deliveriesCounter })),
+      entries: entries.map(entry => ({
+        streamId: entry.id.toString(),
+        consumer: entry.owner.toString(),
+        idleMs: entry.millisecondsSinceLastDelivery,
+        deliveryCount: entry.deliveriesCounter,
+      })),
+    };
+  }
+
+  // Removes a consumer once it holds no pending entries; deleting it earlier would drop them
+  async releaseConsumer(tenantId: string, topicId: string, group: string, consumer: string): Promise<void> {
+    try {
+      const key = this.streamKey(tenantId, topicId);
+      const summary = await this.getRedis().xPending(key, group);
+      const holds = (summary.consumers ?? []).some(c => c.name.toString() === consumer);
+      if (!holds) {
+        await this.getRedis().xGroupDelConsumer(key, group, consumer);
+      }
+    } catch (error) {
+      logger.error(`Failed to release consumer ${consumer} of group ${group}:`, error);
+    }
+  }
+
+  // Expired events cannot be handled by anyone, so they are acked away instead of delivered
+  private async toDeliveries(
+    tenantId: string,
+    topicId: string,
+    group: string,
+    consumer: string,
+    messages: StreamMessage[],
+    deliveryCount: (streamId: string) => number
+  ): Promise<GroupDelivery[]> {
+    const now = Date.now();
+    const deliveries: GroupDelivery[] = [];
+    const discard: string[] = [];
+    for (const message of messages) {
+      if (!message) continue; // XCLAIM returns nil for trimmed entries and drops them from the PEL
+      const streamId = message.id.toString();
+      const event = redisTopicManager.toEvent(tenantId, topicId, message.message);
+      if (isExpired(event, now)) {
+        discard.push(streamId);
+        continue;
+      }
+      deliveries.push({ streamId, consumer, deliveryCount: deliveryCount(streamId), event });
+    }
+    if (discard.length > 0) {
+      await this.ack(tenantId, topicId, group, discard);
+    }
+    return deliveries;
+  }
+}
+
+export const consumerGroupManager = new ConsumerGroupManager();
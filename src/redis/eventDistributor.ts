@@ -4,7 +4,9 @@ import { logger } from '../utils/logger';
 import { redisConnection } from './connection';
 import { redisTopicManager } from './topicManager';
 import { config } from '../config';
-import { graphqlPubSub, channelForTopic } from '../graphql/pubsub';
+import { isExpired } from '../utils/envelope';
+import { publishTopicEvent } from '../graphql/pubsub';
+import { webhookDispatcher } from '../gateway/webhookDispatcher';
 
 export class EventDistributor {
   private redis: RedisClientType | null = null;
@@ -67,6 +69,11 @@ export class EventDistributor {
       return;
     }
 
+    if (isExpired(event)) {
+      logger.debug(`Skipped expired event ${event.id} on topic ${topicId}`);
+      return;
+    }
+
     try {
       // Get all subscribers for this topic
       const subscriberIds = await this.redis.sMembers(`${config.redis.keyPrefix}:topic:${tenantId}:${topicId}:subscribers`);
@@ -76,6 +83,8 @@ export class EventDistributor {
         return;
       }
 
+      const policy = await redisTopicManager.getSlowClientPolicy(tenantId, topicId);
+
       // Fairness: rotate start index per topic (coarse DRR approximation)
       const rrKey = `${tenantId}:${topicId}`;
       const start = this.roundRobinIndexByTopic.get(rrKey) ?? 0;
@@ -86,7 +95,7 @@ export class EventDistributor {
       // Distribute event to all subscribers asynchronously in rotated order
       const distributionPromises = rotated.map(async (subscriberId: string) => {
         try {
-          await redisTopicManager.addEventToSubscriberQueue(tenantId, topicId, subscriberId, event);
+          await redisTopicManager.addEventToSubscriberQueue(tenantId, topicId, subscriberId, event, policy);
         } catch (error) {
           logger.error(`Failed to distribute event to subscriber ${subscriberId}:`, error);
           // Mark subscriber as inactive if there's an error
@@ -95,32 +104,52 @@ export class EventDistributor {
       });
 
       await Promise.allSettled(distributionPromises);
-      // Emit to GraphQL PubSub channel scoped by tenant and topic
-      try {
-        await graphqlPubSub.publish(channelForTopic(event.tenantId, topicId), {
-          topicEvents: event,
-        });
-      } catch (err) {
-        logger.error('GraphQL PubSub publish failed:', err);
-      }
       logger.debug(`Distributed event ${event.id} to ${subscriberIds.length} subscribers in topic ${topicId}`);
     } catch (error) {
       logger.error(`Error distributing event to subscribers for topic ${topicId}:`, error);
     }
   }
 
+  // A failed emit must not fail a publish that is already durable
+  private async emitToSubscriptions(event: Event): Promise<void> {
+    try {
+      await publishTopicEvent(event.tenantId, event.topicId, event);
+    } catch (error) {
+      logger.error(`GraphQL PubSub publish failed for event ${event.id}:`, error);
+    }
+  }
+
   async publishEvent(topicId: string, event: Event): Promise<void> {
     try {
       // Add event to Redis Stream for persistence
       await redisTopicManager.addEvent(topicId, event);
-      
-      // The event will be automatically distributed via Redis Pub/Sub
+
+      // GraphQL subscriptions on every node get it through the Redis-backed
+      // PubSub; subscriber queues are filled from the stream publish
+      await this.emitToSubscriptions(event);
+      // Webhook retries can take minutes, so publishing does not wait for them
+      void webhookDispatcher.dispatch(event);
       logger.info(`Published event ${event.id} to topic ${topicId}`);
     } catch (error) {
       logger.error(`Error publishing event to topic ${topicId}:`, error);
       throw error;
     }
   }
+
+  async publishEvents(events: Event[]): Promise<void> {
+    try {
+      // Batch write goes through a single Redis pipeline
+      await redisTopicManager.addEvents(events);
+      for (const event of events) {
+        await this.emitToSubscriptions(event);
+        void webhookDispatcher.dispatch(event);
+      }
+      logger.info(`Published batch of ${events.length} events`);
+    } catch (error) {
+      logger.error('Error publishing event batch:', error);
+      throw error;
+    }
+  }
 }
 
 export const eventDistributor = new EventDistributor();
\ No newline at end of file
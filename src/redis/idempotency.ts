@@ -0,0 +1,79 @@
+import { createHash } from 'crypto';
+import { RedisClientType } from 'redis';
+import { IdempotencyRecord, PublishEventInput } from '../types';
+import { logger } from '../utils/logger';
+import { config } from '../config';
+import { redisConnection } from './connection';
+
+const PENDING = 'pending';
+
+export type IdempotencyReservation =
+  | { state: 'reserved' }
+  | { state: 'pending' }
+  | { state: 'completed'; record: IdempotencyRecord };
+
+export function fingerprintInput(input: PublishEventInput): string {
+  const { topicId, type, data, priority, deliverAt, expiresAt } = input;
+  return createHash('sha256')
+    .update(JSON.stringify({ topicId, type, data, priority, deliverAt, expiresAt }))
+    .digest('hex');
+}
+
+/**
+ * Remembers client-supplied idempotency keys so retried publishes return the
+ * original event instead of appending a duplicate. Keys are scoped per sender.
+ */
+export class IdempotencyStore {
+  private redis: RedisClientType | null = null;
+
+  private getRedis(): RedisClientType {
+    if (!this.redis) {
+      this.redis = redisConnection.getClient();
+      if (!this.redis) {
+        throw new Error('Redis client not available');
+      }
+    }
+    return this.redis;
+  }
+
+  private key(tenantId: string, userId: string, idempotencyKey: string): string {
+    return `${config.redis.keyPrefix}:idem:${tenantId}:${userId}:${idempotencyKey}`;
+  }
+
+  /**
+   * Claims the key for this request. Returns the stored record when the key
+   * was already used, or `pending` while another request still holds it.
+   * The claim lapses after IDEMPOTENCY_PENDING_TTL_SECONDS, so a publish that
+   * died before completing or releasing it does not block retries for a day.
+   */
+  async reserve(tenantId: string, userId: string, idempotencyKey: string): Promise<IdempotencyReservation> {
+    const k = this.key(tenantId, userId, idempotencyKey);
+    const claimed = await this.getRedis().set(k, PENDING, { NX: true, EX: config.idempotency.pendingTtlSeconds });
+    if (claimed) {
+      return { state: 'reserved' };
+    }
+
+    const stored = await this.getRedis().get(k);
+    if (!stored || stored === PENDING) {
+      return { state: 'pending' };
+    }
+    return { state: 'completed', record: JSON.parse(stored) as IdempotencyRecord };
+  }
+
+  async complete(tenantId: string, userId: string, idempotencyKey: string, record: IdempotencyRecord): Promise<void> {
+    await this.getRedis().set(this.key(tenantId, userId, idempotencyKey), JSON.stringify(record), {
+      EX: config.idempotency.ttlSeconds,
+    });
+  }
+
+  // Frees a reservation after a failed publish so the client can retry
+  async release(tenantId: string, userId: string, idempotencyKey: string): Promise<void> {
+    try {
+      await this.getRedis().del(this.key(tenantId, userId, idempotencyKey));
+    } catch (error) {
+      logger.error(`Failed to release idempotency key ${idempotencyKey}:`, error);
+    }
+  }
+}
+
+export const idempotencyStore = new IdempotencyStore();
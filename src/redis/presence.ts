@@ -2,24 +2,58 @@ import { RedisClientType } from 'redis';
 import { config } from '../config';
 import { redisConnection } from './connection';
 import { logger } from '../utils/logger';
+import { PresenceChange, PresenceChangeType } from '../types';
+import { graphqlPubSub, channelForPresence } from '../graphql/pubsub';
+
+// Removes a member only if its heartbeat is still older than the cutoff, so a
+// heartbeat landing mid-sweep is never mistaken for a timeout
+const REMOVE_IF_STALE_SCRIPT = `
+  local lastSeen = tonumber(redis.call('HGET', KEYS[1], ARGV[1]) or '0')
+  if lastSeen < tonumber(ARGV[2]) then
+    return redis.call('HDEL', KEYS[1], ARGV[1])
+  end
+  return 0
+`;
+
+const SWEEP_SCAN_COUNT = 100;
 
 export class PresenceManager {
-  private redis: RedisClientType;
-  private readonly ttlSeconds = 30; // heartbeat TTL
+  private redis: RedisClientType | null = null;
+  private readonly ttlSeconds = config.presence.ttlSeconds; // heartbeat TTL
 
-  constructor() {
-    this.redis = redisConnection.getClient()!;
+  private getRedis(): RedisClientType {
+    if (!this.redis) {
+      this.redis = redisConnection.getClient();
+      if (!this.redis) {
+        throw new Error('Redis client not available');
+      }
+    }
+    return this.redis;
   }
 
   private key(tenantId: string, topicId: string): string {
     return `${config.redis.keyPrefix}:presence:${tenantId}:${topicId}`;
   }
 
+  private async touch(tenantId: string, topicId: string, userId: string): Promise<boolean> {
+    const k = this.key(tenantId, topicId);
+    const added = await this.getRedis().hSet(k, userId, Date.now().toString());
+    // Members expire individually via sweepExpired(); the key TTL is only a safety net
+    await this.getRedis().expire(k, this.ttlSeconds * 4);
+    return added > 0;
+  }
+
+  private async emit(tenantId: string, topicId: string, userId: string, type: PresenceChangeType): Promise<void> {
+    const change: PresenceChange = { topicId, tenantId, userId, type, ts: new Date().toISOString() };
+    // Changes never enter streams or queues; the Redis-backed PubSub fans them out across nodes
+    await graphqlPubSub.publish(channelForPresence(tenantId, topicId), { presenceChanged: change });
+  }
+
   async join(tenantId: string, topicId: string, userId: string): Promise<void> {
     try {
-      const k = this.key(tenantId, topicId);
-      await this.redis.hSet(k, userId, Date.now().toString());
-      await this.redis.expire(k, this.ttlSeconds);
+      if (await this.touch(tenantId, topicId, userId)) {
+        await this.emit(tenantId, topicId, userId, 'JOIN');
+      }
     } catch (e) {
       logger.error('Presence join failed:', e);
     }
@@ -27,9 +61,10 @@ export class PresenceManager {
 
   async heartbeat(tenantId: string, topicId: string, userId: string): Promise<void> {
     try {
-      const k = this.key(tenantId, topicId);
-      await this.redis.hSet(k, userId, Date.now().toString());
-      await this.redis.expire(k, this.ttlSeconds);
+      // A heartbeat after a timeout brings the user back, so announce it as a join
+      if (await this.touch(tenantId, topicId, userId)) {
+        await this.emit(tenantId, topicId, userId, 'JOIN');
+      }
     } catch (e) {
       logger.error('Presence heartbeat failed:', e);
     }
@@ -38,7 +73,10 @@ export class PresenceManager {
   async leave(tenantId: string, topicId: string, userId: string): Promise<void> {
     try {
       const k = this.key(tenantId, topicId);
-      await this.redis.hDel(k, userId);
+      const removed = await this.getRedis().hDel(k, userId);
+      if (removed > 0) {
+        await this.emit(tenantId, topicId, userId, 'LEAVE');
+      }
     } catch (e) {
       logger.error('Presence leave failed:', e);
     }
@@ -47,13 +85,55 @@ export class PresenceManager {
   async list(tenantId: string, topicId: string): Promise<string[]> {
     try {
       const k = this.key(tenantId, topicId);
-      const members = await this.redis.hKeys(k);
-      return members;
+      const members = await this.getRedis().hGetAll(k);
+      const cutoff = Date.now() - this.ttlSeconds * 1000;
+      // Hide members whose heartbeat lapsed but have not been swept yet
+      return Object.entries(members)
+        .filter(([, lastSeen]) => parseInt(lastSeen, 10) >= cutoff)
+        .map(([userId]) => userId);
     } catch (e) {
       logger.error('Presence list failed:', e);
       return [];
     }
   }
+
+  /**
+   * Removes members that stopped heartbeating and announces them as timeouts.
+   * The removal is atomic, so it is safe to run on every node: only one node
+   * wins each removal and announces it.
+   */
+  async sweepExpired(): Promise<void> {
+    try {
+      const cutoff = Date.now() - this.ttlSeconds * 1000;
+      const keyPrefix = `${config.redis.keyPrefix}:presence:`;
+      for await (const k of this.getRedis().scanIterator({ MATCH: `${keyPrefix}*`, COUNT: SWEEP_SCAN_COUNT })) {
+        const tail = k.substring(keyPrefix.length);
+        const sepIdx = tail.indexOf(':');
+        if (sepIdx < 0) {
+          continue;
+        }
+        const tenantId = tail.substring(0, sepIdx);
+        const topicId = tail.substring(sepIdx + 1);
+
+        const members = await this.getRedis().hGetAll(k);
+        for (const [userId, lastSeen] of Object.entries(members)) {
+          if (parseInt(lastSeen, 10) >= cutoff) {
+            continue;
+          }
+          const removed = await this.getRedis().eval(REMOVE_IF_STALE_SCRIPT, {
+            keys: [k],
+            arguments: [userId, cutoff.toString()],
+          }) as number;
+          if (removed > 0) {
+            await this.emit(tenantId, topicId, userId, 'TIMEOUT');
+            logger.debug(`Presence timeout for user ${userId} on topic ${topicId}`);
+          }
+        }
+      }
+    } catch (e) {
+      logger.error('Presence sweep failed:', e);
+    }
+  }
 }
 
 export const presenceManager = new PresenceManager();
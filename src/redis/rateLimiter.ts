@@ -26,6 +26,7 @@ export class RateLimiter {
       local limit = tonumber(ARGV[1])
       local window = tonumber(ARGV[2])
       local current = tonumber(ARGV[3])
+      local cost = tonumber(ARGV[4]) or 1
       
       local current_time = redis.call('TIME')[1]
       local window_start = current_time - window
@@ -36,46 +37,60 @@ export class RateLimiter {
       -- Count current requests in window
       local request_count = redis.call('ZCARD', key)
       
-      if request_count >= limit then
+      if request_count + cost > limit then
         -- Rate limit exceeded
-        local oldest_request = redis.call('ZRANGE', key, 0, 0, 'WITHSCORES')[2]
+        local oldest_request = redis.call('ZRANGE', key, 0, 0, 'WITHSCORES')[2] or current_time
         local reset_time = oldest_request + window
         
         return {
           '0', -- allowed
-          '0', -- remaining
-          tostring(reset_time), -- reset time
+          tostring(math.max(limit - request_count, 0)), -- remaining
+          tostring(reset_time * 1000), -- reset time (ms)
           tostring(limit) -- limit
         }
       else
-        -- Add current request
-        redis.call('ZADD', key, current_time, current)
+        -- Add current request (one entry per unit of cost)
+        if cost == 1 then
+          redis.call('ZADD', key, current_time, current)
+        else
+          for i = 1, cost do
+            redis.call('ZADD', key, current_time, current .. ':' .. i)
+          end
+        end
         redis.call('EXPIRE', key, window)
         
         return {
           '1', -- allowed
-          tostring(limit - request_count - 1), -- remaining
-          tostring(current_time + window), -- reset time
+          tostring(limit - request_count - cost), -- remaining
+          tostring((current_time + window) * 1000), -- reset time (ms)
           tostring(limit) -- limit
         }
       end
     `;
   }
 
+  /**
+   * `cost` is the number of units consumed by this call (e.g. events in a batch)
+   */
   async checkRateLimit(
     key: string, 
     limit: number, 
-    windowMs: number
+    windowMs: number,
+    cost: number = 1
   ): Promise<RateLimitResult> {
     try {
       const current = Date.now();
       const window = Math.floor(windowMs / 1000); // Convert to seconds
+      const args = [limit.toString(), window.toString(), current.toString()];
+      if (cost !== 1) {
+        args.push(cost.toString());
+      }
       
       const result = await this.redis.eval(
         this.rateLimitScript,
         {
           keys: [key],
-          arguments: [limit.toString(), window.toString(), current.toString()]
+          arguments: args
         }
       ) as string[];
 
@@ -89,7 +104,7 @@ export class RateLimiter {
       logger.error(`Rate limit check failed for key ${key}, falling back to in-memory limiter:`, error);
 
       // Fail-closed: Use in-memory rate limiter as fallback
-      return this.fallbackRateLimit(key, limit, windowMs);
+      return this.fallbackRateLimit(key, limit, windowMs, cost);
     }
   }
 
@@ -97,7 +112,7 @@ export class RateLimiter {
    * In-memory fallback rate limiter for when Redis is unavailable
    * More restrictive than Redis version for security
    */
-  private fallbackRateLimit(key: string, limit: number, windowMs: number): RateLimitResult {
+  private fallbackRateLimit(key: string, limit: number, windowMs: number, cost: number = 1): RateLimitResult {
     const now = Date.now();
     const windowStart = now - windowMs;
 
@@ -113,10 +128,12 @@ export class RateLimiter {
 
     // Apply more restrictive limits in fallback mode for security
     const fallbackLimit = Math.floor(limit * 0.1); // 10% of normal limit
-    const isAllowed = entry.requests.length < fallbackLimit;
+    const isAllowed = entry.requests.length + cost <= fallbackLimit;
 
     if (isAllowed) {
-      entry.requests.push(now);
+      for (let i = 0; i < cost; i++) {
+        entry.requests.push(now);
+      }
     }
 
     // Update reset time
@@ -156,14 +173,14 @@ export class RateLimiter {
     }
   }
 
-  async checkUserRateLimit(userId: string, action: string): Promise<RateLimitResult> {
+  async checkUserRateLimit(userId: string, action: string, cost: number = 1): Promise<RateLimitResult> {
     const key = `rate_limit:user:${userId}:${action}`;
-    return this.checkRateLimit(key, 100, 60000); // 100 requests per minute per user per action
+    return this.checkRateLimit(key, 100, 60000, cost); // 100 requests per minute per user per action
   }
 
-  async checkTopicRateLimit(tenantId: string, topicId: string): Promise<RateLimitResult> {
+  async checkTopicRateLimit(tenantId: string, topicId: string, cost: number = 1): Promise<RateLimitResult> {
     const key = `${config.redis.keyPrefix}:rl:${tenantId}:${topicId}`;
-    return this.checkRateLimit(key, 1000, 60000); // 1000 events per minute per topic
+    return this.checkRateLimit(key, 1000, 60000, cost); // 1000 events per minute per topic
   }
 
   async checkGlobalRateLimit(): Promise<RateLimitResult> {
@@ -0,0 +1,136 @@
+import { RedisClientType } from 'redis';
+import { EventEnvelope as Event } from '../types';
+import { logger } from '../utils/logger';
+import { config } from '../config';
+import { isExpired } from '../utils/envelope';
+import { metricsCollector } from '../monitoring/metrics';
+import { redisConnection } from './connection';
+import { redisTopicManager } from './topicManager';
+import { eventDistributor } from './eventDistributor';
+
+const RELEASE_BATCH_SIZE = 100;
+
+/**
+ * Holds events published with a future `deliverAt` in a sorted set scored by
+ * due time, and hands them to the EventDistributor once due. Seqs are
+ * assigned on release, so replay order matches delivery order.
+ */
+export class EventScheduler {
+  private redis: RedisClientType | null = null;
+  private releasing = false;
+
+  private getRedis(): RedisClientType {
+    if (!this.redis) {
+      this.redis = redisConnection.getClient();
+      if (!this.redis) {
+        throw new Error('Redis client not available');
+      }
+    }
+    return this.redis;
+  }
+
+  // One due-queue for all tenants; each member is the full event JSON
+  private key(): string {
+    return `${config.redis.keyPrefix}:scheduled`;
+  }
+
+  // Failed release attempts per event ID, for the retry backoff
+  private attemptsKey(): string {
+    return `${config.redis.keyPrefix}:scheduled:attempts`;
+  }
+
+  async schedule(event: Event): Promise<void> {
+    await this.getRedis().zAdd(this.key(), { score: Date.parse(event.deliverAt!), value: JSON.stringify(event) });
+    logger.debug(`Scheduled event ${event.id} on topic ${event.topicId} for ${event.deliverAt}`);
+  }
+
+  async scheduleMany(events: Event[]): Promise<void> {
+    if (events.length === 0) return;
+    await this.getRedis().zAdd(
+      this.key(),
+      events.map(event => ({ score: Date.parse(event.deliverAt!), value: JSON.stringify(event) }))
+    );
+  }
+
+  /**
+   * Publishes every event that is due. Safe to run on every node: ZREM
+   * decides which node claims each event, and only that node publishes it.
+   * An event whose publish fails goes back into the set with a backoff, up to
+   * SCHEDULER_MAX_ATTEMPTS attempts.
+   */
+  async releaseDue(): Promise<void> {
+    if (this.releasing) return;
+    this.releasing = true;
+    try {
+      for (;;) {
+        const due = await this.getRedis().zRangeByScore(this.key(), '-inf', Date.now(), {
+          LIMIT: { offset: 0, count: RELEASE_BATCH_SIZE },
+        });
+        if (due.length === 0) break;
+
+        for (const member of due) {
+          if ((await this.getRedis().zRem(this.key(), member)) === 0) {
+            continue; // claimed by another node
+          }
+          const event = JSON.parse(member) as Event;
+          try {
+            await this.release(event);
+          } catch (e) {
+            logger.error(`Failed to release scheduled event ${event.id}:`, e);
+            await this.retryLater(member, event);
+          }
+        }
+
+        if (due.length < RELEASE_BATCH_SIZE) break;
+      }
+    } catch (e) {
+      logger.error('Scheduled event release failed:', e);
+    } finally {
+      this.releasing = false;
+    }
+  }
+
+  private async release(event: Event): Promise<void> {
+    if (isExpired(event)) {
+      logger.debug(`Dropped scheduled event ${event.id}: expired before delivery`);
+    } else if (await redisTopicManager.isTopicArchived(event.tenantId, event.topicId)) {
+      logger.warn(`Dropped scheduled event ${event.id}: topic ${event.topicId} is archived`);
+    } else {
+      event.ts = new Date().toISOString();
+      await eventDistributor.publishEvent(event.topicId, event);
+      metricsCollector.onPublish();
+    }
+    await this.getRedis().hDel(this.attemptsKey(), event.id);
+  }
+
+  // Puts the original member back, due again after a doubling delay
+  private async retryLater(member: string, event: Event): Promise<void> {
+    const attempts = await this.getRedis().hIncrBy(this.attemptsKey(), event.id, 1);
+    if (attempts >= config.scheduler.maxAttempts) {
+      await this.getRedis().hDel(this.attemptsKey(), event.id);
+      logger.error(`Dropped scheduled event ${event.id} on topic ${event.topicId} after ${attempts} failed attempts`);
+      return;
+    }
+    const delay = config.scheduler.retryDelayMs * 2 ** (attempts - 1);
+    await this.getRedis().zAdd(this.key(), { score: Date.now() + delay, value: member });
+  }
+
+  // Drops pending events for a topic that is being purged
+  async cancelTopic(tenantId: string, topicId: string): Promise<void> {
+    const stale: string[] = [];
+    const staleIds: string[] = [];
+    for await (const { value } of this.getRedis().zScanIterator(this.key())) {
+      const event = JSON.parse(value) as Event;
+      if (event.tenantId === tenantId && event.topicId === topicId) {
+        stale.push(value);
+        staleIds.push(event.id);
+      }
+    }
+    if (stale.length > 0) {
+      await this.getRedis().zRem(this.key(), stale);
+      await this.getRedis().hDel(this.attemptsKey(), staleIds);
+    }
+  }
+}
+
+export const eventScheduler = new EventScheduler();
@@ -0,0 +1,202 @@
+import Ajv, { ErrorObject, ValidateFunction } from 'ajv';
+import { RedisClientType } from 'redis';
+import { EventSchema, SchemaFieldError } from '../types';
+import { logger } from '../utils/logger';
+import { config } from '../config';
+import { redisConnection } from './connection';
+
+const WILDCARD = '*';
+const MAX_COMPILED_SCHEMAS = 1000;
+
+/**
+ * Thrown when a payload fails its registered schema; carries one entry per
+ * offending field so clients can point at the exact problem.
+ */
+export class SchemaValidationError extends Error {
+  constructor(message: string, public readonly fieldErrors: SchemaFieldError[]) {
+    super(message);
+    this.name = 'SchemaValidationError';
+  }
+}
+
+function toFieldErrors(errors: ErrorObject[]): SchemaFieldError[] {
+  return errors.map(err => {
+    const params = err.params as { missingProperty?: string; additionalProperty?: string };
+    const field = params.missingProperty ?? params.additionalProperty;
+    const path = field !== undefined ? `${err.dataPath}/${field}` : err.dataPath;
+    return { path: path || '/', message: err.message ?? 'is invalid' };
+  });
+}
+
+/**
+ * Versioned JSON Schemas for event payloads. A schema is scoped to a topic,
+ * an event type, or both; publishes are checked against the most specific
+ * match: topic + type, then topic, then type across the tenant.
+ */
+export class SchemaRegistry {
+  private redis: RedisClientType | null = null;
+  // addUsedSchema: false keeps schemas that declare the same $id from colliding
+  private ajv = new Ajv({ allErrors: true, jsonPointers: true, addUsedSchema: false });
+  private compiled = new Map<string, ValidateFunction>();
+
+  private getRedis(): RedisClientType {
+    if (!this.redis) {
+      this.redis = redisConnection.getClient();
+      if (!this.redis) {
+        throw new Error('Redis client not available');
+      }
+    }
+    return this.redis;
+  }
+
+  // Current schema per scope
+  private currentKey(tenantId: string): string {
+    return `${config.redis.keyPrefix}:schema:${tenantId}`;
+  }
+
+  // Every version ever registered for a scope
+  private historyKey(tenantId: string, scope: string): string {
+    return `${config.redis.keyPrefix}:schema-history:${tenantId}:${scope}`;
+  }
+
+  // Version counters survive deletes so a re-registered schema never reuses a version
+  private versionKey(tenantId: string): string {
+    return `${config.redis.keyPrefix}:schema-version:${tenantId}`;
+  }
+
+  private scope(topicId: string | null, eventType: string | null): string {
+    return `${topicId ?? WILDCARD}|${eventType ?? WILDCARD}`;
+  }
+
+  /**
+   * Returns the reasons a schema cannot be used, or an empty list if it compiles
+   */
+  checkSchema(schema: Record<string, any>): string[] {
+    if (!this.ajv.validateSchema(schema)) {
+      return [this.ajv.errorsText(this.ajv.errors, { dataVar: 'schema' })];
+    }
+    try {
+      this.ajv.compile(schema);
+      return [];
+    } catch (error) {
+      return [error instanceof Error ? error.message : 'Schema does not compile'];
+    }
+  }
+
+  async register(
+    tenantId: string,
+    topicId: string | null,
+    eventType: string | null,
+    schema: Record<string, any>,
+    createdBy: string
+  ): Promise<EventSchema> {
+    const problems = this.checkSchema(schema);
+    if (problems.length > 0) {
+      throw new Error(`Invalid input: ${problems.join(', ')}`);
+    }
+
+    const scope = this.scope(topicId, eventType);
+    const version = await this.getRedis().hIncrBy(this.versionKey(tenantId), scope, 1);
+    const record: EventSchema = { topicId, eventType, version, schema, createdBy, createdAt: Date.now() };
+    const serialized = JSON.stringify(record);
+
+    await this.getRedis()
+      .multi()
+      .hSet(this.currentKey(tenantId), scope, serialized)
+      .hSet(this.historyKey(tenantId, scope), version.toString(), serialized)
+      .exec();
+
+    logger.info(`Registered schema v${version} for ${scope} in tenant ${tenantId}`);
+    return record;
+  }
+
+  async get(
+    tenantId: string,
+    topicId: string | null,
+    eventType: string | null,
+    version?: number
+  ): Promise<EventSchema | null> {
+    const scope = this.scope(topicId, eventType);
+    const raw = version === undefined
+      ? await this.getRedis().hGet(this.currentKey(tenantId), scope)
+      : await this.getRedis().hGet(this.historyKey(tenantId, scope), version.toString());
+    return raw ? JSON.parse(raw) as EventSchema : null;
+  }
+
+  /**
+   * Current schemas that apply to a topic (including tenant-wide type schemas),
+   * or every current schema in the tenant when no topic is given
+   */
+  async list(tenantId: string, topicId?: string): Promise<EventSchema[]> {
+    const all = await this.getRedis().hGetAll(this.currentKey(tenantId));
+    return Object.values(all)
+      .map(raw => JSON.parse(raw) as EventSchema)
+      .filter(record => topicId === undefined || record.topicId === null || record.topicId === topicId);
+  }
+
+  async delete(tenantId: string, topicId: string | null, eventType: string | null): Promise<boolean> {
+    const scope = this.scope(topicId, eventType);
+    const [removed] = await this.getRedis()
+      .multi()
+      .hDel(this.currentKey(tenantId), scope)
+      .del(this.historyKey(tenantId, scope))
+      .exec();
+    return Number(removed) > 0;
+  }
+
+  // Drops every schema scoped to the topic; used when the topic is purged
+  async deleteTopicSchemas(tenantId: string, topicId: string): Promise<void> {
+    const scopes = (await this.getRedis().hKeys(this.currentKey(tenantId)))
+      .filter(scope => scope.startsWith(`${topicId}|`));
+    if (scopes.length === 0) return;
+
+    const multi = this.getRedis().multi().hDel(this.currentKey(tenantId), scopes);
+    for (const scope of scopes) {
+      multi.del(this.historyKey(tenantId, scope));
+    }
+    await multi.exec();
+  }
+
+  /**
+   * Validates a payload against the most specific schema for the topic and
+   * type. Returns the schema version used, or null when none is registered.
+   */
+  async validate(tenantId: string, topicId: string, eventType: string, data: unknown): Promise<number | null> {
+    const candidates = [
+      this.scope(topicId, eventType),
+      this.scope(topicId, null),
+      this.scope(null, eventType),
+    ];
+    const found = await this.getRedis().hmGet(this.currentKey(tenantId), candidates);
+    const raw = found.find((value): value is string => typeof value === 'string');
+    if (!raw) {
+      return null;
+    }
+
+    const record = JSON.parse(raw) as EventSchema;
+    const validator = this.compile(tenantId, record);
+    if (!validator(data)) {
+      throw new SchemaValidationError(
+        `Invalid input: payload does not match schema v${record.version} for ${eventType}`,
+        toFieldErrors(validator.errors ?? [])
+      );
+    }
+    return record.version;
+  }
+
+  private compile(tenantId: string, record: EventSchema): ValidateFunction {
+    const cacheKey = `${tenantId}:${this.scope(record.topicId, record.eventType)}:${record.version}`;
+    let validator = this.compiled.get(cacheKey);
+    if (!validator) {
+      // Superseded versions are never evicted individually; start over once the cache is full
+      if (this.compiled.size >= MAX_COMPILED_SCHEMAS) {
+        this.compiled.clear();
+      }
+      validator = this.ajv.compile(record.schema);
+      this.compiled.set(cacheKey, validator);
+    }
+    return validator;
+  }
+}
+
+export const schemaRegistry = new SchemaRegistry();
@@ -1,8 +1,27 @@
-import { RedisClientType } from 'redis';
-import { EventEnvelope as Event, Topic, Subscriber, StoredEventData } from '../types';
+import { RedisClientType, commandOptions } from 'redis';
+import {
+  EventEnvelope as Event,
+  Subscriber,
+  StoredEventData,
+  EventPageOptions,
+  EventPage,
+  TopicInfo,
+  TopicStatus,
+  SlowClientPolicy,
+} from '../types';
 import { logger } from '../utils/logger';
 import { config } from '../config';
 import { redisConnection } from './connection';
+import { isExpired, orderByPriority, selectOverflowVictims } from '../utils/envelope';
+import { coalesce } from '../utils/coalescing';
+import { coalescingPolicies } from './coalescingPolicies';
+import { DroppedRange, droppedStatus, isSlowClientPolicy, widenDroppedRange } from '../utils/backpressure';
+import { metricsCollector } from '../monitoring/metrics';
+import { decodeMsgpack, encodeMsgpack } from '../utils/encoding';
+
+// Stream entries are read as buffers so MessagePack-encoded data survives the trip
+export const BINARY_REPLY = commandOptions({ returnBuffers: true });
+export type StreamFields = Record<string, string | Buffer>;
 
 export class RedisTopicManager {
   private redis: RedisClientType | null = null;
@@ -21,51 +40,142 @@ export class RedisTopicManager {
     return this.redis;
   }
 
-  async createTopic(topicId: string): Promise<Topic> {
-    const topic: Topic = {
-      id: topicId,
-      buffer: [],
-      subscribers: new Map(),
-      lastEventId: 0,
-      createdAt: Date.now(),
-    };
+  private metaKey(tenantId: string, topicId: string): string {
+    return `${config.redis.keyPrefix}:topic:${tenantId}:${topicId}:meta`;
+  }
+
+  // Seq range a subscriber missed since it last drained its queue
+  private droppedKey(tenantId: string, topicId: string, subscriberId: string): string {
+    return `${config.redis.keyPrefix}:sub:${tenantId}:${subscriberId}:topic:${topicId}:dropped`;
+  }
+
+  async createTopic(
+    tenantId: string,
+    topicId: string,
+    options: { description?: string; metadata?: Record<string, any>; slowClientPolicy?: SlowClientPolicy; createdBy: string }
+  ): Promise<TopicInfo> {
+    const prefix = config.redis.keyPrefix;
+    const metaKey = this.metaKey(tenantId, topicId);
+    const now = Date.now();
+
+    // A topic that was only ever published to has a stream, a seq and a meta
+    // hash with lastEventId; it already has an owner, so it cannot be claimed.
+    // HSETNX on createdAt settles concurrent creates of a new topic.
+    const existing = await this.getRedis().exists([
+      `${prefix}:stream:${tenantId}:${topicId}`,
+      `${prefix}:seq:${tenantId}:${topicId}`,
+      metaKey,
+    ]);
+    const created = existing === 0 && await this.getRedis().hSetNX(metaKey, 'createdAt', now.toString());
+    if (!created) {
+      throw new Error('Topic already exists');
+    }
 
-    // Store topic metadata in Redis
-    await this.getRedis().hSet(`topic:${topicId}:meta`, {
+    await this.getRedis().hSet(metaKey, {
       id: topicId,
-      createdAt: topic.createdAt.toString(),
-      lastEventId: '0',
+      status: 'active',
+      description: options.description || '',
+      metadata: JSON.stringify(options.metadata || {}),
+      createdBy: options.createdBy,
+      updatedAt: now.toString(),
+      ...(options.slowClientPolicy ? { slowClientPolicy: options.slowClientPolicy } : {}),
     });
-
-    // Set expiration for topic metadata (24 hours)
-    await this.getRedis().expire(`topic:${topicId}:meta`, 86400);
+    // Seed lastEventId without clobbering events published since the check
+    await this.getRedis().hSetNX(metaKey, 'lastEventId', '0');
 
     logger.info(`Created topic: ${topicId}`);
-    return topic;
+    return (await this.getTopic(tenantId, topicId))!;
   }
 
-  async getTopic(topicId: string): Promise<Topic | null> {
-    const exists = await this.getRedis().exists(`topic:${topicId}:meta`);
-    if (!exists) return null;
+  /**
+   * Undoes createTopic when the rest of the creation fails. Only the meta hash
+   * was written by createTopic; events published in the meantime are kept.
+   */
+  async discardCreatedTopic(tenantId: string, topicId: string): Promise<void> {
+    await this.getRedis().del(this.metaKey(tenantId, topicId));
+    logger.info(`Discarded topic ${topicId} after a failed create`);
+  }
 
-    const meta = await this.getRedis().hGetAll(`topic:${topicId}:meta`);
-    const topic: Topic = {
+  async getTopic(tenantId: string, topicId: string): Promise<TopicInfo | null> {
+    const meta = await this.getRedis().hGetAll(this.metaKey(tenantId, topicId));
+    if (Object.keys(meta).length === 0) return null;
+
+    return {
       id: topicId,
-      buffer: [],
-      subscribers: new Map(),
-      lastEventId: parseInt(meta.lastEventId || '0'),
+      tenantId,
+      status: meta.status === 'archived' ? 'archived' : 'active',
+      description: meta.description || '',
+      metadata: meta.metadata ? JSON.parse(meta.metadata) : {},
+      createdBy: meta.createdBy || '',
       createdAt: parseInt(meta.createdAt || '0'),
+      updatedAt: parseInt(meta.updatedAt || meta.createdAt || '0'),
+      lastEventId: parseInt(meta.lastEventId || '0'),
+      slowClientPolicy: isSlowClientPolicy(meta.slowClientPolicy) ? meta.slowClientPolicy : config.topic.slowClientPolicy,
     };
+  }
 
-    return topic;
+  async getOrCreateTopic(tenantId: string, topicId: string, createdBy: string): Promise<TopicInfo> {
+    const topic = await this.getTopic(tenantId, topicId);
+    if (topic) {
+      return topic;
+    }
+    return this.createTopic(tenantId, topicId, { createdBy });
   }
 
-  async getOrCreateTopic(topicId: string): Promise<Topic> {
-    let topic = await this.getTopic(topicId);
-    if (!topic) {
-      topic = await this.createTopic(topicId);
+  async updateTopic(
+    tenantId: string,
+    topicId: string,
+    patch: { description?: string; metadata?: Record<string, any>; status?: TopicStatus; slowClientPolicy?: SlowClientPolicy }
+  ): Promise<TopicInfo> {
+    const existing = await this.getTopic(tenantId, topicId);
+    if (!existing) {
+      throw new Error('Topic not found');
     }
-    return topic;
+
+    const fields: Record<string, string> = { updatedAt: Date.now().toString() };
+    if (patch.description !== undefined) fields.description = patch.description;
+    if (patch.metadata !== undefined) fields.metadata = JSON.stringify(patch.metadata);
+    if (patch.status !== undefined) fields.status = patch.status;
+    if (patch.slowClientPolicy !== undefined) fields.slowClientPolicy = patch.slowClientPolicy;
+
+    await this.getRedis().hSet(this.metaKey(tenantId, topicId), fields);
+    logger.info(`Updated topic: ${topicId}`);
+    return (await this.getTopic(tenantId, topicId))!;
+  }
+
+  // Topics without their own policy use SLOW_CLIENT_POLICY
+  async getSlowClientPolicy(tenantId: string, topicId: string): Promise<SlowClientPolicy> {
+    const policy = await this.getRedis().hGet(this.metaKey(tenantId, topicId), 'slowClientPolicy');
+    return isSlowClientPolicy(policy) ? policy : config.topic.slowClientPolicy;
+  }
+
+  async isTopicArchived(tenantId: string, topicId: string): Promise<boolean> {
+    const status = await this.getRedis().hGet(this.metaKey(tenantId, topicId), 'status');
+    return status === 'archived';
+  }
+
+  /**
+   * Removes every Redis structure belonging to the topic: stream, seq counter,
+   * meta, subscriber set and queues, presence and rate-limit state.
+   */
+  async deleteTopic(tenantId: string, topicId: string): Promise<void> {
+    const prefix = config.redis.keyPrefix;
+    const subscribersKey = `${prefix}:topic:${tenantId}:${topicId}:subscribers`;
+    const subscriberIds = await this.getRedis().sMembers(subscribersKey);
+
+    const keys = [
+      `${prefix}:stream:${tenantId}:${topicId}`,
+      `${prefix}:seq:${tenantId}:${topicId}`,
+      this.metaKey(tenantId, topicId),
+      subscribersKey,
+      `${prefix}:presence:${tenantId}:${topicId}`,
+      `${prefix}:rl:${tenantId}:${topicId}`,
+      ...subscriberIds.map(id => `${prefix}:sub:${tenantId}:${id}:topic:${topicId}:queue`),
+      ...subscriberIds.map(id => this.droppedKey(tenantId, topicId, id)),
+    ];
+    await this.getRedis().del(keys);
+
+    logger.info(`Deleted topic ${topicId} and ${subscriberIds.length} subscriber queues`);
   }
 
   async addEvent(topicId: string, event: Event): Promise<void> {
@@ -79,19 +189,12 @@ export class RedisTopicManager {
 
     // Add event to Redis Stream for persistence and replay
     const streamKey = `${config.redis.keyPrefix}:stream:${event.tenantId}:${topicId}`;
-    const eventData = {
-      id: event.id,
-      type: event.type,
-      data: JSON.stringify(event.data),
-      seq: event.seq.toString(),
-      ts: event.ts,
-      userId: event.senderId || '',
-    };
+    const eventData = this.toStreamEntry(event);
 
     const streamId = await this.getRedis().xAdd(streamKey, '*', eventData);
     
     // Update last event ID in topic metadata
-    await this.getRedis().hSet(`${config.redis.keyPrefix}:topic:${event.tenantId}:${topicId}:meta`, 'lastEventId', event.seq.toString());
+    await this.getRedis().hSet(this.metaKey(event.tenantId, topicId), 'lastEventId', event.seq.toString());
 
     // Publish event to Redis Pub/Sub for real-time distribution
     await this.getRedis().publish(`${config.redis.keyPrefix}:pub:${event.tenantId}:${topicId}`, JSON.stringify(event));
@@ -103,22 +206,91 @@ export class RedisTopicManager {
     logger.debug(`Added event ${event.id} to topic ${topicId} with stream ID ${streamId}`);
   }
 
+  /**
+   * Appends a batch of events in a single MULTI/EXEC pipeline. Seqs are
+   * reserved per topic with one INCRBY so each topic gets a contiguous block.
+   */
+  async addEvents(events: Event[]): Promise<void> {
+    const redis = this.getRedis();
+    const groups = new Map<string, Event[]>();
+    for (const event of events) {
+      const groupKey = `${event.tenantId}:${event.topicId}`;
+      const group = groups.get(groupKey) ?? [];
+      group.push(event);
+      groups.set(groupKey, group);
+    }
+
+    for (const group of groups.values()) {
+      const { tenantId, topicId } = group[0]!;
+      const lastSeq = await redis.incrBy(`${config.redis.keyPrefix}:seq:${tenantId}:${topicId}`, group.length);
+      let seq = lastSeq - group.length + 1;
+      for (const event of group) {
+        event.seq = seq++;
+        if (!event.ts) {
+          event.ts = new Date().toISOString();
+        }
+      }
+    }
+
+    const multi = redis.multi();
+    for (const event of events) {
+      multi.xAdd(`${config.redis.keyPrefix}:stream:${event.tenantId}:${event.topicId}`, '*', this.toStreamEntry(event));
+      multi.publish(`${config.redis.keyPrefix}:pub:${event.tenantId}:${event.topicId}`, JSON.stringify(event));
+    }
+    for (const group of groups.values()) {
+      const { tenantId, topicId } = group[0]!;
+      multi.hSet(this.metaKey(tenantId, topicId), 'lastEventId', group[group.length - 1]!.seq.toString());
+      multi.xTrim(`${config.redis.keyPrefix}:stream:${tenantId}:${topicId}`, 'MAXLEN', 1000);
+    }
+    await multi.exec();
+
+    logger.debug(`Added batch of ${events.length} events across ${groups.size} topics`);
+  }
+
   async getSubscriberEvents(tenantId: string, topicId: string, subscriberId: string): Promise<Event[]> {
     const queueKey = `${config.redis.keyPrefix}:sub:${tenantId}:${subscriberId}:topic:${topicId}:queue`;
-    
-    // Get all events from subscriber's queue
-    const events = await this.getRedis().lRange(queueKey, 0, -1);
-    
-    // Clear the queue after reading
-    await this.getRedis().del(queueKey);
-    
+    const droppedKey = this.droppedKey(tenantId, topicId, subscriberId);
+
+    // Read and clear the queue and the drop notice in one transaction, so
+    // nothing queued meanwhile is lost and concurrent drains never share a batch.
+    // Collecting the drop notice also resumes a paused subscriber.
+    const [events, , dropped] = await this.getRedis().multi()
+      .lRange(queueKey, 0, -1)
+      .del(queueKey)
+      .hGetAll(droppedKey)
+      .del(droppedKey)
+      .exec() as unknown as [string[], number, Record<string, string>, number];
+
     // Update last seen timestamp
     await this.getRedis().hSet(`${config.redis.keyPrefix}:subscriber:${tenantId}:${subscriberId}:meta`, 'lastSeen', Date.now().toString());
-    
-    return events.map((eventStr: string) => JSON.parse(eventStr));
+
+    const status = dropped.dropped
+      ? [droppedStatus(tenantId, topicId, isSlowClientPolicy(dropped.policy) ? dropped.policy : config.topic.slowClientPolicy, {
+          fromSeq: parseInt(dropped.fromSeq || '0', 10),
+          toSeq: parseInt(dropped.toSeq || '0', 10),
+          dropped: parseInt(dropped.dropped, 10),
+        })]
+      : [];
+
+    // Events that expired while queued are dropped unseen; the rest drain by priority
+    const now = Date.now();
+    return [
+      ...status,
+      ...orderByPriority(
+        events
+          .map((eventStr: string) => JSON.parse(eventStr) as Event)
+          .filter(event => !isExpired(event, now))
+      ),
+    ];
   }
 
-  async addSubscriber(tenantId: string, topicId: string, subscriberId: string, userId?: string): Promise<Subscriber> {
+  async addSubscriber(
+    tenantId: string,
+    topicId: string,
+    subscriberId: string,
+    userId?: string,
+    idleTimeoutMs?: number
+  ): Promise<Subscriber> {
     const subscriber: Subscriber = {
       id: subscriberId,
       topicId,
@@ -126,6 +298,7 @@ export class RedisTopicManager {
       queue: [],
       lastSeen: Date.now(),
       isActive: true,
+      ...(idleTimeoutMs !== undefined ? { idleTimeoutMs } : {}),
     };
 
     // Store subscriber metadata
@@ -135,6 +308,7 @@ export class RedisTopicManager {
       userId: userId || '',
       lastSeen: subscriber.lastSeen.toString(),
       isActive: 'true',
+      ...(idleTimeoutMs !== undefined ? { idleTimeoutMs: idleTimeoutMs.toString() } : {}),
     });
 
     // Add subscriber to topic's subscriber set
@@ -154,6 +328,7 @@ export class RedisTopicManager {
     if (removed) {
       // Clean up subscriber data
       await this.getRedis().del(`${config.redis.keyPrefix}:sub:${tenantId}:${subscriberId}:topic:${topicId}:queue`);
+      await this.getRedis().del(this.droppedKey(tenantId, topicId, subscriberId));
       await this.getRedis().del(`${config.redis.keyPrefix}:subscriber:${tenantId}:${subscriberId}:meta`);
       logger.info(`Removed subscriber ${subscriberId} from topic ${topicId}`);
     }
@@ -174,9 +349,39 @@ export class RedisTopicManager {
       queue: [],
       lastSeen: parseInt(meta.lastSeen || '0'),
       isActive: meta.isActive === 'true',
+      ...(meta.idleTimeoutMs ? { idleTimeoutMs: parseInt(meta.idleTimeoutMs, 10) } : {}),
     };
   }
 
+  // Looks a subscriber up by ID alone, e.g. for long-polling clients that only know their ID
+  async findSubscriber(tenantId: string, subscriberId: string): Promise<Subscriber | null> {
+    const meta = await this.getRedis().hGetAll(`${config.redis.keyPrefix}:subscriber:${tenantId}:${subscriberId}:meta`);
+    if (!meta.topicId) return null;
+
+    return {
+      id: subscriberId,
+      topicId: meta.topicId,
+      userId: meta.userId || '',
+      queue: [],
+      lastSeen: parseInt(meta.lastSeen || '0'),
+      isActive: meta.isActive === 'true',
+      ...(meta.idleTimeoutMs ? { idleTimeoutMs: parseInt(meta.idleTimeoutMs, 10) } : {}),
+    };
+  }
+
+  // Keeps an idle but connected subscriber from being cleaned up or expiring
+  async touchSubscriber(tenantId: string, subscriberId: string): Promise<void> {
+    const metaKey = `${config.redis.keyPrefix}:subscriber:${tenantId}:${subscriberId}:meta`;
+    await this.getRedis().hSet(metaKey, 'lastSeen', Date.now().toString());
+    await this.getRedis().expire(metaKey, 3600);
+  }
+
+  // Cheap check before draining: queued events or a pending drop notice
+  async hasSubscriberEvents(tenantId: string, topicId: string, subscriberId: string): Promise<boolean> {
+    const queued = await this.getRedis().lLen(`${config.redis.keyPrefix}:sub:${tenantId}:${subscriberId}:topic:${topicId}:queue`);
+    return queued > 0 || await this.getRedis().exists(this.droppedKey(tenantId, topicId, subscriberId)) > 0;
+  }
+
   async markSubscriberInactive(tenantId: string, topicId: string, subscriberId: string): Promise<void> {
     await this.getRedis().hSet(`${config.redis.keyPrefix}:subscriber:${tenantId}:${subscriberId}:meta`, 'isActive', 'false');
     logger.debug(`Marked subscriber ${subscriberId} as inactive`);
@@ -205,7 +410,7 @@ export class RedisTopicManager {
       
       for (const subscriberId of subscriberIds) {
         const subscriber = await this.getSubscriber(tenantId, topicId, subscriberId);
-        if (subscriber && (!subscriber.isActive || (now - subscriber.lastSeen) > threshold)) {
+        if (subscriber && (!subscriber.isActive || (now - subscriber.lastSeen) > (subscriber.idleTimeoutMs ?? threshold))) {
           await this.removeSubscriber(tenantId, topicId, subscriberId);
           logger.info(`Cleaned up inactive subscriber ${subscriberId} from topic ${topicId}`);
         }
@@ -234,91 +439,221 @@ export class RedisTopicManager {
     return topicKeys.map(key => key.replace(`${config.redis.keyPrefix}:topic:`, '').replace(':meta', ''));
   }
 
-  async addEventToSubscriberQueue(tenantId: string, topicId: string, subscriberId: string, event: Event): Promise<void> {
+  async addEventToSubscriberQueue(
+    tenantId: string,
+    topicId: string,
+    subscriberId: string,
+    event: Event,
+    policy: SlowClientPolicy = config.topic.slowClientPolicy
+  ): Promise<void> {
     const queueKey = `${config.redis.keyPrefix}:sub:${tenantId}:${subscriberId}:topic:${topicId}:queue`;
     const maxSize = config.topic.maxSubscriberQueueSize;
 
-    // Coalescing for cursor/presence when queue is near limit
-    const isCoalescable = event.type === 'cursor' || event.type === 'presence';
-    const queueLength = await this.getRedis().lLen(queueKey);
-    if (isCoalescable && queueLength >= Math.floor(maxSize * 0.75)) {
-      // Remove any older coalescable events and keep latest only
-      const items = await this.getRedis().lRange(queueKey, 0, -1);
-      const filtered = items.filter((it) => {
-        try {
-          const parsed = JSON.parse(it);
-          return !(parsed.type === event.type && parsed.senderId === event.senderId);
-        } catch {
-          return true;
-        }
-      });
-      if (filtered.length !== items.length) {
-        await this.getRedis().del(queueKey);
-        if (filtered.length > 0) {
-          await this.getRedis().rPush(queueKey, filtered);
+    if (isExpired(event)) {
+      return;
+    }
+
+    // Paused and disconnected subscribers miss everything until they collect the drop notice
+    const state = await this.getRedis().hGet(this.droppedKey(tenantId, topicId, subscriberId), 'state');
+    if (state) {
+      await this.recordDropped(tenantId, topicId, subscriberId, policy, [event]);
+      return;
+    }
+
+    // Coalesce per the type's policy once the queue passes the policy's threshold
+    const rule = await coalescingPolicies.resolve(tenantId, topicId, event.type);
+    if (rule.mode !== 'none') {
+      const queueLength = await this.getRedis().lLen(queueKey);
+      if (queueLength >= Math.floor(maxSize * rule.threshold)) {
+        const items = await this.getRedis().lRange(queueKey, 0, -1);
+        const coalesced = coalesce(items.map(item => JSON.parse(item) as Event), event, rule);
+        if (coalesced.replaced.length > 0) {
+          const replaced = new Set(coalesced.replaced);
+          const remaining = items.filter((_, index) => !replaced.has(index));
+          await this.getRedis().del(queueKey);
+          if (remaining.length > 0) {
+            await this.getRedis().rPush(queueKey, remaining);
+          }
         }
+        event = coalesced.event;
       }
     }
 
     // Add event to queue
     await this.getRedis().rPush(queueKey, JSON.stringify(event));
 
-    // Maintain queue size limit
+    // Maintain queue size limit according to the topic's slow-client policy
     const newLength = await this.getRedis().lLen(queueKey);
     if (newLength > maxSize) {
-      // Remove oldest events to maintain size limit
-      await this.getRedis().lTrim(queueKey, newLength - maxSize, -1);
-      logger.warn(`Subscriber ${subscriberId} queue full, dropped oldest events`);
+      const items = await this.getRedis().lRange(queueKey, 0, -1);
+      const queued = items.map(item => JSON.parse(item) as Event);
+
+      if (policy === 'drop_oldest' || policy === 'drop_newest') {
+        // Lowest priority goes first either way
+        const victims = selectOverflowVictims(queued, items.length - maxSize, policy === 'drop_oldest' ? 'oldest' : 'newest');
+        for (const index of victims) {
+          await this.getRedis().lRem(queueKey, 1, items[index]!);
+        }
+        await this.recordDropped(tenantId, topicId, subscriberId, policy, victims.map(index => queued[index]!));
+      } else {
+        await this.getRedis().del(queueKey);
+        await this.recordDropped(tenantId, topicId, subscriberId, policy, queued, policy === 'disconnect' ? 'disconnected' : 'paused');
+        if (policy === 'disconnect') {
+          await this.markSubscriberInactive(tenantId, topicId, subscriberId);
+        }
+      }
+      logger.warn(`Subscriber ${subscriberId} queue full on topic ${topicId}, applied ${policy}`);
     }
 
     // Set expiration for queue (1 hour)
     await this.getRedis().expire(queueKey, 3600);
   }
 
+  private async recordDropped(
+    tenantId: string,
+    topicId: string,
+    subscriberId: string,
+    policy: SlowClientPolicy,
+    events: Event[],
+    state?: 'paused' | 'disconnected'
+  ): Promise<void> {
+    if (events.length === 0) return;
+    const key = this.droppedKey(tenantId, topicId, subscriberId);
+    const stored = await this.getRedis().hGetAll(key);
+    const previous: DroppedRange | undefined = stored.dropped
+      ? { fromSeq: parseInt(stored.fromSeq || '0', 10), toSeq: parseInt(stored.toSeq || '0', 10), dropped: parseInt(stored.dropped, 10) }
+      : undefined;
+    const range = widenDroppedRange(previous, events);
+
+    await this.getRedis().hSet(key, {
+      policy: isSlowClientPolicy(stored.policy) ? stored.policy : policy,
+      fromSeq: range.fromSeq.toString(),
+      toSeq: range.toSeq.toString(),
+      dropped: range.dropped.toString(),
+      ...(state ? { state } : {}),
+    });
+    await this.getRedis().expire(key, 3600);
+    events.forEach(() => metricsCollector.onDrop());
+  }
+
   async getEventHistory(tenantId: string, topicId: string, count: number = 100): Promise<Event[]> {
     const streamKey = `${config.redis.keyPrefix}:stream:${tenantId}:${topicId}`;
-    const events = await this.getRedis().xRevRange(streamKey, '+', '-', { COUNT: count });
+    const events = await this.getRedis().xRevRange(BINARY_REPLY, streamKey, '+', '-', { COUNT: count });
     
-    return events.map((event) => {
-      const eventData = event.message as unknown as StoredEventData;
-      
-      return {
-        id: eventData.id,
-        topicId,
-        type: eventData.type,
-        data: JSON.parse(eventData.data),
-        seq: parseInt(eventData.seq),
-        ts: eventData.ts,
-        tenantId,
-        senderId: eventData.userId,
-      };
-    }).reverse();
-  }
-
-  async readFromSeq(tenantId: string, topicId: string, fromSeq: number, max = 1000): Promise<Event[]> {
+    const now = Date.now();
+    return events
+      .map((event) => this.toEvent(tenantId, topicId, event.message))
+      .filter(event => !isExpired(event, now))
+      .reverse();
+  }
+
+  /**
+   * Reads events from `fromSeq` onwards. Expired events are skipped unless
+   * `includeExpired` is set, e.g. to tell a trimmed stream from an expired event.
+   */
+  async readFromSeq(tenantId: string, topicId: string, fromSeq: number, max = 1000, includeExpired = false): Promise<Event[]> {
     const streamKey = `${config.redis.keyPrefix}:stream:${tenantId}:${topicId}`;
     // XREAD RANGE from (seq) to '+' by converting seq to an id with *heuristic*
     // We stored fields with seq, so we scan and filter by seq >= fromSeq
-    const entries = await this.getRedis().xRange(streamKey, '-', '+', { COUNT: max });
+    const entries = await this.getRedis().xRange(BINARY_REPLY, streamKey, '-', '+', { COUNT: max });
+    const now = Date.now();
     const result: Event[] = [];
     for (const entry of entries) {
-      const data = entry.message as unknown as StoredEventData;
-      const seq = parseInt(data.seq);
+      const seq = parseInt(entry.message.seq?.toString() ?? '');
       if (Number.isFinite(seq) && seq >= fromSeq) {
-        result.push({
-          id: data.id,
-          topicId,
-          type: data.type,
-          data: JSON.parse(data.data),
-          seq,
-          ts: data.ts,
-          tenantId,
-          senderId: data.userId,
-        });
+        const event = this.toEvent(tenantId, topicId, entry.message);
+        if (includeExpired || !isExpired(event, now)) {
+          result.push(event);
+        }
       }
     }
     return result;
   }
+
+  /**
+   * Reads one page of history. Stream IDs are millisecond-based, so time
+   * bounds map straight onto the range; seq bounds are applied while scanning.
+   */
+  async readEventPage(tenantId: string, topicId: string, options: EventPageOptions): Promise<EventPage> {
+    const streamKey = `${config.redis.keyPrefix}:stream:${tenantId}:${topicId}`;
+    const forward = options.direction === 'forward';
+    const want = options.limit + 1; // one extra to detect another page
+    const chunkSize = Math.max(want, 100);
+
+    const lowBound = options.fromMs !== undefined ? `${options.fromMs}` : '-';
+    const highBound = options.toMs !== undefined ? `${options.toMs}` : '+';
+    let cursor: string | undefined = options.afterId;
+
+    const now = Date.now();
+    const entries: EventPage['entries'] = [];
+    while (entries.length < want) {
+      const chunk = forward
+        ? await this.getRedis().xRange(BINARY_REPLY, streamKey, cursor ? `(${cursor}` : lowBound, highBound, { COUNT: chunkSize })
+        : await this.getRedis().xRevRange(BINARY_REPLY, streamKey, cursor ? `(${cursor}` : highBound, lowBound, { COUNT: chunkSize });
+
+      for (const entry of chunk) {
+        const event = this.toEvent(tenantId, topicId, entry.message);
+        if (options.afterSeq !== undefined && event.seq <= options.afterSeq) continue;
+        if (options.beforeSeq !== undefined && event.seq >= options.beforeSeq) continue;
+        if (!options.includeExpired && isExpired(event, now)) continue;
+        entries.push({ streamId: entry.id.toString(), event });
+        if (entries.length >= want) break;
+      }
+
+      if (chunk.length < chunkSize) break;
+      cursor = chunk[chunk.length - 1]!.id.toString();
+    }
+
+    const hasMore = entries.length > options.limit;
+    return { entries: entries.slice(0, options.limit), hasMore };
+  }
+
+  async getLatestSeq(tenantId: string, topicId: string): Promise<number> {
+    const seq = await this.getRedis().get(`${config.redis.keyPrefix}:seq:${tenantId}:${topicId}`);
+    return seq ? parseInt(seq, 10) : 0;
+  }
+
+  // STREAM_DATA_ENCODING=msgpack stores data as MessagePack; entries of either kind can be read back
+  private toStreamEntry(event: Event): StreamFields {
+    return {
+      id: event.id,
+      type: event.type,
+      ...(config.encoding.streamData === 'msgpack'
+        ? { data: encodeMsgpack(event.data), encoding: 'msgpack' }
+        : { data: JSON.stringify(event.data) }),
+      seq: event.seq.toString(),
+      ts: event.ts,
+      userId: event.senderId || '',
+      ...(event.deliverAt ? { deliverAt: event.deliverAt } : {}),
+      ...(event.expiresAt ? { expiresAt: event.expiresAt } : {}),
+    };
+  }
+
+  // Everything but MessagePack data is text
+  private fromStreamFields(fields: StreamFields): StoredEventData {
+    const stored: StreamFields = {};
+    for (const [name, value] of Object.entries(fields)) {
+      stored[name] = name === 'data' ? value : value.toString();
+    }
+    return stored as unknown as StoredEventData;
+  }
+
+  // Also used by the consumer group reader, which reads the same stream entries
+  toEvent(tenantId: string, topicId: string, fields: StreamFields): Event {
+    const data = this.fromStreamFields(fields);
+    return {
+      id: data.id,
+      topicId,
+      type: data.type,
+      data: data.encoding === 'msgpack' ? decodeMsgpack(Buffer.from(data.data)) : JSON.parse(data.data.toString()),
+      seq: parseInt(data.seq),
+      ts: data.ts,
+      tenantId,
+      senderId: data.userId,
+      ...(data.deliverAt ? { deliverAt: data.deliverAt } : {}),
+      ...(data.expiresAt ? { expiresAt: data.expiresAt } : {}),
+    };
+  }
 }
 
 export const redisTopicManager = new RedisTopicManager();
\ No newline at end of file
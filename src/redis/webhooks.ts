@@ -0,0 +1,115 @@
+import { RedisClientType } from 'redis';
+import { randomBytes } from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import { DeadLetteredEvent, RegisterWebhookInput, StoredWebhook, Webhook, WebhookDeliveryAttempt } from '../types';
+import { logger } from '../utils/logger';
+import { config } from '../config';
+import { redisConnection } from './connection';
+
+const MAX_DEAD_LETTERS = 1000;
+
+/**
+ * Webhook registrations per topic, plus the recent delivery attempts and the
+ * dead-letter list of each webhook. Attempts are capped at
+ * WEBHOOK_ATTEMPT_HISTORY per webhook, newest first.
+ */
+export class WebhookStore {
+  private redis: RedisClientType | null = null;
+
+  private getRedis(): RedisClientType {
+    if (!this.redis) {
+      this.redis = redisConnection.getClient();
+      if (!this.redis) {
+        throw new Error('Redis client not available');
+      }
+    }
+    return this.redis;
+  }
+
+  private key(tenantId: string, topicId: string): string {
+    return `${config.redis.keyPrefix}:webhooks:${tenantId}:${topicId}`;
+  }
+
+  private attemptsKey(tenantId: string, webhookId: string): string {
+    return `${config.redis.keyPrefix}:webhook-attempts:${tenantId}:${webhookId}`;
+  }
+
+  private deadLetterKey(tenantId: string, webhookId: string): string {
+    return `${config.redis.keyPrefix}:webhook-dlq:${tenantId}:${webhookId}`;
+  }
+
+  // Returns the webhook and its signing secret; the secret is not shown again
+  async register(tenantId: string, input: RegisterWebhookInput, createdBy: string): Promise<{ webhook: Webhook; secret: string }> {
+    const stored: StoredWebhook = {
+      id: uuidv4(),
+      topicId: input.topicId,
+      url: input.url,
+      eventTypes: input.eventTypes ?? null,
+      createdBy,
+      createdAt: Date.now(),
+      secret: randomBytes(32).toString('hex'),
+    };
+    await this.getRedis().hSet(this.key(tenantId, input.topicId), stored.id, JSON.stringify(stored));
+
+    logger.info(`Registered webhook ${stored.id} on topic ${input.topicId} in tenant ${tenantId}`);
+    const { secret, ...webhook } = stored;
+    return { webhook, secret };
+  }
+
+  // Includes secrets; only the dispatcher should see these
+  async listStored(tenantId: string, topicId: string): Promise<StoredWebhook[]> {
+    const all = await this.getRedis().hGetAll(this.key(tenantId, topicId));
+    return Object.values(all).map(raw => JSON.parse(raw) as StoredWebhook);
+  }
+
+  async list(tenantId: string, topicId: string): Promise<Webhook[]> {
+    return (await this.listStored(tenantId, topicId)).map(({ secret: _secret, ...webhook }) => webhook);
+  }
+
+  async exists(tenantId: string, topicId: string, webhookId: string): Promise<boolean> {
+    return this.getRedis().hExists(this.key(tenantId, topicId), webhookId);
+  }
+
+  async delete(tenantId: string, topicId: string, webhookId: string): Promise<boolean> {
+    const removed = await this.getRedis().hDel(this.key(tenantId, topicId), webhookId);
+    if (removed > 0) {
+      await this.getRedis().del([this.attemptsKey(tenantId, webhookId), this.deadLetterKey(tenantId, webhookId)]);
+    }
+    return removed > 0;
+  }
+
+  // Drops every webhook on the topic with its history; used when the topic is purged
+  async deleteTopicWebhooks(tenantId: string, topicId: string): Promise<void> {
+    const ids = await this.getRedis().hKeys(this.key(tenantId, topicId));
+    const keys = ids.flatMap(id => [this.attemptsKey(tenantId, id), this.deadLetterKey(tenantId, id)]);
+    await this.getRedis().del([this.key(tenantId, topicId), ...keys]);
+  }
+
+  async recordAttempt(tenantId: string, attempt: WebhookDeliveryAttempt): Promise<void> {
+    const key = this.attemptsKey(tenantId, attempt.webhookId);
+    await this.getRedis().multi()
+      .lPush(key, JSON.stringify(attempt))
+      .lTrim(key, 0, config.webhooks.attemptHistory - 1)
+      .exec();
+  }
+
+  async listAttempts(tenantId: string, webhookId: string, count: number): Promise<WebhookDeliveryAttempt[]> {
+    const raw = await this.getRedis().lRange(this.attemptsKey(tenantId, webhookId), 0, count - 1);
+    return raw.map(entry => JSON.parse(entry) as WebhookDeliveryAttempt);
+  }
+
+  async deadLetter(tenantId: string, entry: DeadLetteredEvent): Promise<void> {
+    const key = this.deadLetterKey(tenantId, entry.webhookId);
+    await this.getRedis().multi()
+      .lPush(key, JSON.stringify(entry))
+      .lTrim(key, 0, MAX_DEAD_LETTERS - 1)
+      .exec();
+  }
+
+  async listDeadLetters(tenantId: string, webhookId: string, count: number): Promise<DeadLetteredEvent[]> {
+    const raw = await this.getRedis().lRange(this.deadLetterKey(tenantId, webhookId), 0, count - 1);
+    return raw.map(entry => JSON.parse(entry) as DeadLetteredEvent);
+  }
+}
+
+export const webhookStore = new WebhookStore();
@@ -0,0 +1,121 @@
+import { Router, Request, Response } from 'express';
+import { EventEnvelope as Event } from '../types';
+import { resolvers } from '../graphql/resolvers';
+import { firebaseAuth } from '../gateway/auth';
+import { redisTopicManager } from '../redis/topicManager';
+import { rateLimiter, RateLimitResult } from '../redis/rateLimiter';
+import { validateQueryParams, validateTopicId } from '../utils/inputSanitizer';
+import { authenticate, handle, rateLimitHeaders } from './middleware';
+
+const DEFAULT_READ_LIMIT = 100;
+
+/**
+ * HTTP status for a failed publish, derived from the same messages the
+ * GraphQL mutations return
+ */
+export function statusForPublishError(message: string): number {
+  if (message.startsWith('Authentication required')) return 401;
+  if (message.startsWith('Access denied')) return 403;
+  if (/rate limit exceeded/i.test(message)) return 429;
+  if (message.includes('already in progress') || message.includes('is archived')) return 409;
+  if (/^(Invalid|Unknown type|Payload)/.test(message)) return 400;
+  return 500;
+}
+
+async function publish(req: Request, res: Response): Promise<void> {
+  const context = { user: res.locals.user, rateLimits: [] as RateLimitResult[] };
+  const body: unknown = req.body;
+  const topicId = req.params.topicId;
+
+  if (body === null || typeof body !== 'object') {
+    res.status(400).json({ success: false, message: 'Invalid input: expected an event object or an array of events' });
+    return;
+  }
+
+  // The path names the topic; a topicId in the body must agree with it
+  const items = Array.isArray(body) ? body : [body];
+  if (items.some(item => item === null || typeof item !== 'object' || (item.topicId !== undefined && item.topicId !== topicId))) {
+    res.status(400).json({ success: false, message: 'Invalid input: every event must be an object for this topic' });
+    return;
+  }
+  const inputs = items.map(item => ({ ...item, topicId }));
+
+  if (Array.isArray(body)) {
+    const result = await resolvers.Mutation.publishEvents(undefined, { inputs }, context);
+    res.set(rateLimitHeaders(context.rateLimits));
+    if (result.success) {
+      res.status(201).json(result);
+    } else if (result.results.length > 0) {
+      // A rejected batch lists the failing entries; schema errors get 422, as they do for a single event
+      res.status(result.results.some((entry: { errors?: unknown }) => entry.errors) ? 422 : 400).json(result);
+    } else {
+      res.status(statusForPublishError(result.message)).json(result);
+    }
+    return;
+  }
+
+  const result = await resolvers.Mutation.publishEvent(undefined, { input: inputs[0]! }, context);
+  res.set(rateLimitHeaders(context.rateLimits));
+  if (result.success) {
+    res.status(result.duplicate ? 200 : result.scheduled ? 202 : 201).json(result);
+  } else {
+    res.status(result.errors ? 422 : statusForPublishError(result.message)).json(result);
+  }
+}
+
+async function read(req: Request, res: Response): Promise<void> {
+  const user = res.locals.user;
+
+  const topicValidation = validateTopicId(req.params.topicId ?? '');
+  if (!topicValidation.isValid) {
+    res.status(400).json({ success: false, message: `Invalid topic ID: ${topicValidation.errors.join(', ')}` });
+    return;
+  }
+
+  const params: { fromSeq?: number; limit?: number } = {};
+  if (req.query.fromSeq !== undefined) params.fromSeq = Number(req.query.fromSeq);
+  if (req.query.limit !== undefined) params.limit = Number(req.query.limit);
+  const queryValidation = validateQueryParams(params);
+  if (!queryValidation.isValid) {
+    res.status(400).json({ success: false, message: `Invalid parameters: ${queryValidation.errors.join(', ')}` });
+    return;
+  }
+
+  const topicId = topicValidation.sanitizedData!;
+  const { fromSeq, limit = DEFAULT_READ_LIMIT } = queryValidation.sanitizedData! as { fromSeq?: number; limit?: number };
+
+  const userRateLimit = await rateLimiter.checkUserRateLimit(user.userId, 'read');
+  res.set(rateLimitHeaders([userRateLimit]));
+  if (!userRateLimit.allowed) {
+    res.status(429).json({ success: false, message: 'Rate limit exceeded' });
+    return;
+  }
+
+  const hasAccess = await firebaseAuth.checkTopicAccess(user.userId, topicId, 'read', user.roles);
+  if (!hasAccess) {
+    res.status(403).json({ success: false, message: 'Access denied to topic' });
+    return;
+  }
+
+  // Without fromSeq, the most recent events; with it, events from that seq on
+  const tenantId = user.tenantId || 'default';
+  const events: Event[] = typeof fromSeq === 'number'
+    ? (await redisTopicManager.readFromSeq(tenantId, topicId, fromSeq)).slice(0, limit)
+    : await redisTopicManager.getEventHistory(tenantId, topicId, limit);
+
+  const last = events[events.length - 1];
+  const nextSeq = last ? last.seq + 1 : fromSeq ?? (await redisTopicManager.getLatestSeq(tenantId, topicId)) + 1;
+  res.json({ events, nextSeq });
+}
+
+/**
+ * REST ingress for producers that cannot speak GraphQL. Publishing goes
+ * through the `publishEvent` / `publishEvents` resolvers, so auth,
+ * sanitization, rate limits and ACL checks are the same as over GraphQL.
+ */
+export function createEventsRouter(): Router {
+  const router = Router();
+  router.post('/topics/:topicId/events', handle(authenticate), handle(publish));
+  router.get('/topics/:topicId/events', handle(authenticate), handle(read));
+  return router;
+}
@@ -0,0 +1,68 @@
+import { Request, Response, NextFunction } from 'express';
+import { firebaseAuth } from '../gateway/auth';
+import { RateLimitResult } from '../redis/rateLimiter';
+import { logger } from '../utils/logger';
+import { MSGPACK_MEDIA_TYPE, MSGPACK_MEDIA_TYPES, decodeMsgpack, encodeMsgpack } from '../utils/encoding';
+
+/**
+ * `RateLimit-*` headers (IETF draft) for the most restrictive of the limits a
+ * request was checked against, or none if it never reached a rate limit
+ */
+export function rateLimitHeaders(results: RateLimitResult[], now: number = Date.now()): Record<string, string> {
+  if (results.length === 0) return {};
+  const tightest = results.reduce((a, b) => (b.remaining < a.remaining || (b.remaining === a.remaining && b.resetTime > a.resetTime) ? b : a));
+  const resetSeconds = Math.max(0, Math.ceil((tightest.resetTime - now) / 1000));
+  return {
+    'RateLimit-Limit': String(tightest.limit),
+    'RateLimit-Remaining': String(Math.max(0, tightest.remaining)),
+    'RateLimit-Reset': String(resetSeconds),
+    ...(tightest.allowed ? {} : { 'Retry-After': String(resetSeconds) }),
+  };
+}
+
+// Same bearer token handling as the GraphQL context
+export async function authenticate(req: Request, res: Response, next: NextFunction): Promise<void> {
+  const authHeader = req.headers.authorization;
+  const user = authHeader ? await firebaseAuth.verifyToken(authHeader.replace('Bearer ', '')) : null;
+  if (!user) {
+    res.status(401).json({ success: false, message: 'Authentication required' });
+    return;
+  }
+  res.locals.user = user;
+  next();
+}
+
+// Express 4 does not catch rejected promises from async handlers
+export function handle(handler: (req: Request, res: Response, next: NextFunction) => Promise<void>) {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    handler(req, res, next).catch(error => {
+      logger.error(`REST ${req.method} ${req.originalUrl} failed:`, error);
+      if (!res.headersSent) {
+        res.status(500).json({ success: false, message: 'An internal error occurred' });
+      }
+    });
+  };
+}
+
+/**
+ * MessagePack for clients that ask for it: responses when `Accept` prefers a
+ * MessagePack media type, request bodies sent with one as `Content-Type`
+ * (read raw by `express.raw` beforehand). JSON stays the default both ways.
+ */
+export function negotiateEncoding(req: Request, res: Response, next: NextFunction): void {
+  res.vary('Accept');
+  const preferred = req.accepts(['application/json', ...MSGPACK_MEDIA_TYPES]);
+  if (typeof preferred === 'string' && MSGPACK_MEDIA_TYPES.includes(preferred)) {
+    res.json = ((body: unknown) => res.type(MSGPACK_MEDIA_TYPE).send(encodeMsgpack(body))) as Response['json'];
+  }
+
+  if (Buffer.isBuffer(req.body) && req.is(MSGPACK_MEDIA_TYPES)) {
+    try {
+      req.body = decodeMsgpack(req.body);
+    } catch {
+      res.status(400).json({ success: false, message: 'Invalid input: body is not valid MessagePack' });
+      return;
+    }
+  }
+  next();
+}
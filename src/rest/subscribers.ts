@@ -0,0 +1,129 @@
+import { Router, Request, Response } from 'express';
+import { v4 as uuidv4 } from 'uuid';
+import { Subscriber } from '../types';
+import { firebaseAuth } from '../gateway/auth';
+import { redisTopicManager } from '../redis/topicManager';
+import { rateLimiter } from '../redis/rateLimiter';
+import { validateTopicId } from '../utils/inputSanitizer';
+import { config } from '../config';
+import { authenticate, handle, rateLimitHeaders } from './middleware';
+
+/**
+ * `wait` in whole seconds, from 0 (return at once) up to
+ * LONG_POLL_MAX_WAIT_SECONDS, or null if it is not a number in that range
+ */
+export function parseWait(raw: unknown): number | null {
+  if (raw === undefined) return 0;
+  if (typeof raw !== 'string' || !/^\d+$/.test(raw)) return null;
+  const wait = parseInt(raw, 10);
+  return wait <= config.longPoll.maxWaitSeconds ? wait : null;
+}
+
+// Subscribers are only visible to the user who registered them
+async function loadOwnSubscriber(req: Request, res: Response): Promise<Subscriber | null> {
+  const user = res.locals.user;
+  const subscriber = await redisTopicManager.findSubscriber(user.tenantId || 'default', req.params.subscriberId ?? '');
+  if (!subscriber || subscriber.userId !== user.userId) {
+    res.status(404).json({ success: false, message: 'Subscriber not found' });
+    return null;
+  }
+  return subscriber;
+}
+
+async function register(req: Request, res: Response): Promise<void> {
+  const user = res.locals.user;
+
+  const topicValidation = validateTopicId(req.body?.topicId ?? '');
+  if (!topicValidation.isValid) {
+    res.status(400).json({ success: false, message: `Invalid topic ID: ${topicValidation.errors.join(', ')}` });
+    return;
+  }
+  const topicId = topicValidation.sanitizedData!;
+
+  const hasAccess = await firebaseAuth.checkTopicAccess(user.userId, topicId, 'subscribe', user.roles);
+  if (!hasAccess) {
+    res.status(403).json({ success: false, message: 'Access denied to topic' });
+    return;
+  }
+
+  const subscriberId = uuidv4();
+  // Polls come and go, so liveness is judged over a longer window than for streaming clients
+  await redisTopicManager.addSubscriber(user.tenantId || 'default', topicId, subscriberId, user.userId, config.longPoll.subscriberTtlMs);
+  res.status(201).json({ id: subscriberId, topicId });
+}
+
+async function poll(req: Request, res: Response): Promise<void> {
+  const user = res.locals.user;
+  const tenantId = user.tenantId || 'default';
+
+  const wait = parseWait(req.query.wait);
+  if (wait === null) {
+    res.status(400).json({
+      success: false,
+      message: `Invalid parameters: wait must be a whole number of seconds from 0 to ${config.longPoll.maxWaitSeconds}`,
+    });
+    return;
+  }
+
+  const subscriber = await loadOwnSubscriber(req, res);
+  if (!subscriber) return;
+
+  const userRateLimit = await rateLimiter.checkUserRateLimit(user.userId, 'poll');
+  res.set(rateLimitHeaders([userRateLimit]));
+  if (!userRateLimit.allowed) {
+    res.status(429).json({ success: false, message: 'Rate limit exceeded' });
+    return;
+  }
+
+  // Access may have been revoked since the subscriber was registered
+  const hasAccess = await firebaseAuth.checkTopicAccess(user.userId, subscriber.topicId, 'subscribe', user.roles);
+  if (!hasAccess) {
+    res.status(403).json({ success: false, message: 'Access denied to topic' });
+    return;
+  }
+
+  // The queue is filled by the distributor on any node, so it is polled
+  // rather than woken. Each check also keeps the subscriber alive through the
+  // cleanup sweep. A client that hangs up stops the wait, and its queue is
+  // left for its next poll rather than drained into a dead socket.
+  let closed = false;
+  res.on('close', () => { closed = true; });
+  const deadline = Date.now() + wait * 1000;
+  for (;;) {
+    if (closed) return;
+    await redisTopicManager.touchSubscriber(tenantId, subscriber.id);
+    if (await redisTopicManager.hasSubscriberEvents(tenantId, subscriber.topicId, subscriber.id)) {
+      if (closed) return;
+      const events = await redisTopicManager.getSubscriberEvents(tenantId, subscriber.topicId, subscriber.id);
+      res.json({ subscriberId: subscriber.id, topicId: subscriber.topicId, events });
+      return;
+    }
+    const remaining = deadline - Date.now();
+    if (remaining <= 0) break;
+    await new Promise(resolve => setTimeout(resolve, Math.min(config.longPoll.pollIntervalMs, remaining)));
+  }
+
+  res.json({ subscriberId: subscriber.id, topicId: subscriber.topicId, events: [] });
+}
+
+async function unregister(req: Request, res: Response): Promise<void> {
+  const subscriber = await loadOwnSubscriber(req, res);
+  if (!subscriber) return;
+
+  const tenantId = res.locals.user.tenantId || 'default';
+  await redisTopicManager.removeSubscriber(tenantId, subscriber.topicId, subscriber.id);
+  res.json({ success: true, message: 'Subscriber removed' });
+}
+
+/**
+ * Long polling for clients that cannot hold a WebSocket or SSE stream open.
+ * A registered subscriber gets its own queue on the topic; each poll drains
+ * it, waiting up to `wait` seconds for the first event to arrive.
+ */
+export function createSubscribersRouter(): Router {
+  const router = Router();
+  router.post('/subscribers', handle(authenticate), handle(register));
+  router.get('/subscribers/:subscriberId/events', handle(authenticate), handle(poll));
+  router.delete('/subscribers/:subscriberId', handle(authenticate), handle(unregister));
+  return router;
+}
@@ -9,6 +9,8 @@ export interface EventEnvelope {
   tenantId: string; // tenancy namespace
   senderId: string; // from auth
   priority?: number; // higher is sooner
+  deliverAt?: string; // ISO timestamp; held by the scheduler until then
+  expiresAt?: string; // ISO timestamp; dropped from queues, history and replay afterwards
 }
 
 export interface Subscriber {
@@ -18,6 +20,7 @@ export interface Subscriber {
   queue: EventEnvelope[];
   lastSeen: number;
   isActive: boolean;
+  idleTimeoutMs?: number; // unseen this long, it is cleaned up; SLOW_CLIENT_THRESHOLD_MS if unset
 }
 
 export interface Topic {
@@ -28,10 +31,142 @@ export interface Topic {
   createdAt: number;
 }
 
+export type TopicStatus = 'active' | 'archived';
+
+// What happens to a subscriber whose queue overflows
+export type SlowClientPolicy = 'drop_oldest' | 'drop_newest' | 'disconnect' | 'pause_resync';
+
+// Lifecycle metadata kept in the Redis topic meta hash
+export interface TopicInfo {
+  id: string;
+  tenantId: string;
+  status: TopicStatus;
+  description: string;
+  metadata: Record<string, any>;
+  createdBy: string;
+  createdAt: number;
+  updatedAt: number;
+  lastEventId: number;
+  slowClientPolicy: SlowClientPolicy;
+}
+
+export interface CreateTopicInput {
+  topicId: string;
+  description?: string;
+  metadata?: Record<string, any>;
+  isPublic?: boolean;
+  slowClientPolicy?: SlowClientPolicy;
+}
+
+export interface UpdateTopicInput {
+  topicId: string;
+  description?: string;
+  metadata?: Record<string, any>;
+  slowClientPolicy?: SlowClientPolicy;
+}
+
+export interface EventSchema {
+  // null scopes the schema to every topic (tenant-wide) or every event type
+  topicId: string | null;
+  eventType: string | null;
+  version: number;
+  schema: Record<string, any>;
+  createdBy: string;
+  createdAt: number;
+}
+
+export interface RegisterEventSchemaInput {
+  topicId?: string;
+  eventType?: string;
+  schema: Record<string, any>;
+}
+
+export interface SchemaFieldError {
+  path: string;
+  message: string;
+}
+
+export type CoalescingMode = 'latest_per_sender' | 'latest_per_key' | 'merge' | 'none';
+
+export interface CoalescingPolicy {
+  topicId: string | null; // null applies the policy to the type on every topic
+  eventType: string;
+  mode: CoalescingMode;
+  keyPath?: string; // dot path into `data`; groups events for latest_per_key and merge
+  threshold: number; // fraction of the subscriber queue limit at which coalescing starts
+  updatedBy: string;
+  updatedAt: number;
+}
+
+export interface SetCoalescingPolicyInput {
+  topicId?: string;
+  eventType: string;
+  mode: CoalescingMode;
+  keyPath?: string;
+  threshold?: number;
+}
+
+export interface Webhook {
+  id: string;
+  topicId: string;
+  url: string;
+  eventTypes: string[] | null; // null delivers every type
+  createdBy: string;
+  createdAt: number;
+}
+
+// The signing secret is stored with the webhook but never returned after registration
+export interface StoredWebhook extends Webhook {
+  secret: string;
+}
+
+export interface RegisterWebhookInput {
+  topicId: string;
+  url: string;
+  eventTypes?: string[];
+}
+
+export type WebhookAttemptOutcome = 'delivered' | 'failed' | 'circuit_open';
+
+export interface WebhookDeliveryAttempt {
+  webhookId: string;
+  eventId: string;
+  seq: number;
+  attempt: number; // 1-based within one delivery
+  outcome: WebhookAttemptOutcome;
+  status: number | null; // HTTP status, when the endpoint answered
+  error: string | null;
+  durationMs: number;
+  ts: number;
+}
+
+export interface DeadLetteredEvent {
+  webhookId: string;
+  event: EventEnvelope;
+  attempts: number;
+  lastError: string;
+  ts: number;
+}
+
+export type TopicRole = 'viewer' | 'editor' | 'admin';
+
+export type TopicOperation = 'read' | 'subscribe' | 'publish' | 'manage';
+
+export interface UpdateTopicAccessInput {
+  topicId: string;
+  isPublic?: boolean;
+  allowedUsers?: string[];
+  allowedRoles?: string[];
+  publicRole?: TopicRole;
+  userRoles?: Array<{ userId: string; role: TopicRole }>;
+  operationRoles?: Array<{ operation: TopicOperation; role: TopicRole }>;
+}
+
 export interface AuthContext {
   userId: string;
   email?: string;
   permissions: string[];
+  roles: string[];
   tenantId: string;
 }
 
@@ -46,6 +181,16 @@ export interface PublishEventInput {
   type: string;
   data: Record<string, any>;
   priority?: number;
+  idempotencyKey?: string;
+  deliverAt?: string;
+  expiresAt?: string;
+}
+
+export interface IdempotencyRecord {
+  eventId: string;
+  seq: number; // 0 while a delayed event is still scheduled
+  topicId: string;
+  fingerprint: string; // hash of the original input, to catch key reuse
 }
 
 export interface SubscriptionContext {
@@ -54,14 +199,93 @@ export interface SubscriptionContext {
   connectionId: string;
 }
 
+// How envelopes are serialized on the wire and, optionally, event data in streams
+export type WireEncoding = 'json' | 'msgpack';
+
 export interface StoredEventData {
   id: string;
   type: string;
-  data: string;
+  data: string | Buffer; // JSON text, or MessagePack bytes when `encoding` is msgpack
+  encoding?: WireEncoding;
   seq: string;
   ts: string;
   userId: string;
-} 
+  deliverAt?: string;
+  expiresAt?: string;
+}
+
+export type PresenceChangeType = 'JOIN' | 'LEAVE' | 'TIMEOUT';
+
+export interface PresenceChange {
+  topicId: string;
+  tenantId: string;
+  userId: string;
+  type: PresenceChangeType;
+  ts: string;
+}
+
+export interface TopicSnapshot {
+  topicId: string;
+  tenantId: string;
+  seq: number; // last event seq folded into this snapshot
+  ts: string; // ISO timestamp when stored
+  data: Record<string, any>;
+  createdBy: string;
+}
+
+export interface SaveSnapshotInput {
+  topicId: string;
+  seq: number;
+  data: Record<string, any>;
+}
+
+export interface ResyncResult {
+  snapshot: TopicSnapshot | null;
+  events: EventEnvelope[];
+  latestSeq: number;
+  complete: boolean; // false when events after the snapshot were trimmed from the stream
+}
+
+export type HistoryDirection = 'forward' | 'backward';
+
+export interface EventPageOptions {
+  limit: number;
+  direction: HistoryDirection;
+  afterId?: string; // exclusive stream ID to continue from
+  fromMs?: number; // inclusive lower time bound
+  toMs?: number; // inclusive upper time bound
+  afterSeq?: number; // exclusive lower seq bound
+  beforeSeq?: number; // exclusive upper seq bound
+  includeExpired?: boolean; // also return expired events
+}
+
+export interface EventPage {
+  entries: Array<{ streamId: string; event: EventEnvelope }>;
+  hasMore: boolean;
+}
+
+// An event handed to one consumer of a consumer group
+export interface GroupDelivery {
+  streamId: string;
+  consumer: string;
+  deliveryCount: number;
+  event: EventEnvelope;
+}
+
+export interface PendingGroupEntry {
+  streamId: string;
+  consumer: string;
+  idleMs: number;
+  deliveryCount: number;
+}
+
+export interface PendingGroupSummary {
+  count: number;
+  firstId: string | null;
+  lastId: string | null;
+  consumers: Array<{ name: string; pending: number }>;
+  entries: PendingGroupEntry[];
+}
 
 // Backwards compatibility alias for legacy imports
 export type Event = EventEnvelope;
\ No newline at end of file
@@ -0,0 +1,41 @@
+import { EventEnvelope as Event, SlowClientPolicy } from '../types';
+import { statusEnvelope } from './envelope';
+
+export const SLOW_CLIENT_POLICIES: readonly SlowClientPolicy[] = ['drop_oldest', 'drop_newest', 'disconnect', 'pause_resync'];
+
+export interface DroppedRange {
+  fromSeq: number;
+  toSeq: number;
+  dropped: number;
+}
+
+export function isSlowClientPolicy(value: unknown): value is SlowClientPolicy {
+  return typeof value === 'string' && (SLOW_CLIENT_POLICIES as readonly string[]).includes(value);
+}
+
+const STATUS_CODES: Record<SlowClientPolicy, string> = {
+  drop_oldest: 'EVENTS_DROPPED',
+  drop_newest: 'EVENTS_DROPPED',
+  pause_resync: 'RESYNC_REQUIRED',
+  disconnect: 'DISCONNECTED',
+};
+
+export function widenDroppedRange(range: DroppedRange | undefined, events: Array<Pick<Event, 'seq'>>): DroppedRange {
+  let { fromSeq, toSeq, dropped } = range ?? { fromSeq: Infinity, toSeq: 0, dropped: 0 };
+  for (const event of events) {
+    fromSeq = Math.min(fromSeq, event.seq);
+    toSeq = Math.max(toSeq, event.seq);
+    dropped++;
+  }
+  return { fromSeq, toSeq, dropped };
+}
+
+/**
+ * Tells a subscriber which seqs it missed, so it can fetch them from history
+ * (`EVENTS_DROPPED`), resync from a snapshot (`RESYNC_REQUIRED`) or reconnect
+ * with `fromSeq` (`DISCONNECTED`). The range may have holes when drops
+ * skipped higher-priority events.
+ */
+export function droppedStatus(tenantId: string, topicId: string, policy: SlowClientPolicy, range: DroppedRange): Event {
+  return statusEnvelope(tenantId, topicId, { code: STATUS_CODES[policy], policy, ...range });
+}
@@ -0,0 +1,79 @@
+import { CoalescingPolicy, EventEnvelope as Event } from '../types';
+
+export type CoalescingRule = Pick<CoalescingPolicy, 'mode' | 'keyPath' | 'threshold'>;
+
+// Built-in rules, used when no policy is stored for a type
+export const DEFAULT_COALESCING_RULES: ReadonlyMap<string, CoalescingRule> = new Map<string, CoalescingRule>([
+  ['cursor', { mode: 'latest_per_sender', threshold: 0.75 }],
+  ['presence', { mode: 'latest_per_sender', threshold: 0.75 }],
+]);
+
+export const NO_COALESCING: CoalescingRule = { mode: 'none', threshold: 1 };
+
+export function readKeyPath(data: unknown, keyPath: string): unknown {
+  let current: unknown = data;
+  for (const segment of keyPath.split('.')) {
+    if (current === null || typeof current !== 'object' || Array.isArray(current)) {
+      return undefined;
+    }
+    current = (current as Record<string, unknown>)[segment];
+  }
+  return current;
+}
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+// Later values win; nested objects are merged, arrays and scalars replaced
+function mergeData(base: Record<string, any>, update: Record<string, any>): Record<string, any> {
+  const merged: Record<string, any> = { ...base };
+  for (const [key, value] of Object.entries(update)) {
+    merged[key] = isPlainObject(value) && isPlainObject(merged[key]) ? mergeData(merged[key], value) : value;
+  }
+  return merged;
+}
+
+// Events with the same group key collapse into one; null means never coalesce
+function groupKey(event: Event, rule: CoalescingRule): string | null {
+  const keyValue = rule.keyPath !== undefined ? readKeyPath(event.data, rule.keyPath) : undefined;
+  switch (rule.mode) {
+    case 'latest_per_sender':
+      return event.senderId;
+    case 'latest_per_key':
+      return keyValue === undefined ? null : JSON.stringify(keyValue);
+    case 'merge':
+      if (rule.keyPath === undefined) return event.senderId;
+      return keyValue === undefined ? null : `${event.senderId}|${JSON.stringify(keyValue)}`;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Works out which queued events of the same type the incoming event replaces.
+ * Returns their indexes and the event to enqueue in their place, which for
+ * `merge` carries the combined data of everything it replaced.
+ */
+export function coalesce(queued: Event[], event: Event, rule: CoalescingRule): { replaced: number[]; event: Event } {
+  const key = groupKey(event, rule);
+  if (key === null) {
+    return { replaced: [], event };
+  }
+
+  const replaced: number[] = [];
+  let mergedData: Record<string, any> = {};
+  queued.forEach((candidate, index) => {
+    if (candidate.type === event.type && groupKey(candidate, rule) === key) {
+      replaced.push(index);
+      if (rule.mode === 'merge') {
+        mergedData = mergeData(mergedData, candidate.data);
+      }
+    }
+  });
+
+  if (rule.mode === 'merge' && replaced.length > 0) {
+    return { replaced, event: { ...event, data: mergeData(mergedData, event.data) } };
+  }
+  return { replaced, event };
+}
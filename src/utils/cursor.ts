@@ -0,0 +1,17 @@
+const CURSOR_PREFIX = 'evt:';
+const STREAM_ID_PATTERN = /^\d+-\d+$/;
+
+/**
+ * Opaque pagination cursor wrapping a Redis Stream entry ID
+ */
+export function encodeCursor(streamId: string): string {
+  return Buffer.from(`${CURSOR_PREFIX}${streamId}`, 'utf8').toString('base64url');
+}
+
+export function decodeCursor(cursor: string): string | null {
+  const decoded = Buffer.from(cursor, 'base64url').toString('utf8');
+  if (!decoded.startsWith(CURSOR_PREFIX)) return null;
+
+  const streamId = decoded.slice(CURSOR_PREFIX.length);
+  return STREAM_ID_PATTERN.test(streamId) ? streamId : null;
+}
@@ -0,0 +1,21 @@
+import { decode, encode } from '@msgpack/msgpack';
+import { WireEncoding } from '../types';
+
+export const MSGPACK_MEDIA_TYPE = 'application/msgpack';
+
+// Media types clients send for MessagePack; the first one is used in responses
+export const MSGPACK_MEDIA_TYPES = [MSGPACK_MEDIA_TYPE, 'application/x-msgpack', 'application/vnd.msgpack'];
+
+export function isWireEncoding(value: unknown): value is WireEncoding {
+  return value === 'json' || value === 'msgpack';
+}
+
+// Undefined properties are left out, as JSON.stringify does
+export function encodeMsgpack(value: unknown): Buffer {
+  const bytes = encode(value, { ignoreUndefined: true });
+  return Buffer.from(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+}
+
+export function decodeMsgpack(bytes: Uint8Array): unknown {
+  return decode(bytes);
+}
@@ -1,6 +1,10 @@
-import { PublishEventInput } from '../types';
+import { v4 as uuidv4 } from 'uuid';
+import { EventEnvelope, PublishEventInput } from '../types';
 import { config } from '../config';
 
+// senderId of envelopes generated by the gateway itself
+export const GATEWAY_SENDER_ID = 'gateway';
+
 const BASELINE_TYPES = new Set(['op', 'cursor', 'presence', 'metric', 'status']);
 
 export interface ValidationResult {
@@ -47,4 +51,108 @@ export function validatePublishInput(input: PublishEventInput): ValidationResult
   return { valid: true };
 }
 
+// Events without expiresAt never expire
+export function isExpired(event: Pick<EventEnvelope, 'expiresAt'>, now: number = Date.now()): boolean {
+  return event.expiresAt !== undefined && Date.parse(event.expiresAt) <= now;
+}
+
+function priorityOf(event: Pick<EventEnvelope, 'priority'>): number {
+  return event.priority ?? 0;
+}
+
+/**
+ * Orders queued events for delivery, highest priority first. Each sender's
+ * events stay in arrival order: at every step the next event is picked from
+ * the front of one sender's run, so a high-priority event never overtakes an
+ * earlier event from the same sender. Ties go to the event that arrived first.
+ */
+export function orderByPriority<T extends Pick<EventEnvelope, 'priority' | 'senderId'>>(events: T[]): T[] {
+  const runs = new Map<string, Array<{ event: T; arrival: number }>>();
+  events.forEach((event, arrival) => {
+    const run = runs.get(event.senderId) ?? [];
+    run.push({ event, arrival });
+    runs.set(event.senderId, run);
+  });
+
+  const ordered: T[] = [];
+  while (ordered.length < events.length) {
+    let best: Array<{ event: T; arrival: number }> | null = null;
+    for (const run of runs.values()) {
+      const head = run[0];
+      if (!head) continue;
+      const bestHead = best?.[0];
+      if (
+        !bestHead ||
+        priorityOf(head.event) > priorityOf(bestHead.event) ||
+        (priorityOf(head.event) === priorityOf(bestHead.event) && head.arrival < bestHead.arrival)
+      ) {
+        best = run;
+      }
+    }
+    ordered.push(best!.shift()!.event);
+  }
+  return ordered;
+}
 
+/**
+ * Index of the event `orderByPriority` would deliver first, or -1 for an empty
+ * list: the highest-priority event at the front of its sender's run, earliest
+ * arrival on ties. One pass, for buffers that hand out one event at a time.
+ */
+export function nextByPriority(events: Array<Pick<EventEnvelope, 'priority' | 'senderId'>>): number {
+  const senders = new Set<string>();
+  let best = -1;
+  events.forEach((event, index) => {
+    if (senders.has(event.senderId)) return;
+    senders.add(event.senderId);
+    if (best === -1 || priorityOf(event) > priorityOf(events[best]!)) {
+      best = index;
+    }
+  });
+  return best;
+}
+
+/**
+ * Picks which queued events to drop when a queue is `count` over its limit:
+ * lowest priority first, then oldest (or newest) first within a priority.
+ * Returns indexes into `events`. Dropping never changes the order of the
+ * events that remain.
+ */
+export function selectOverflowVictims(
+  events: Array<Pick<EventEnvelope, 'priority'>>,
+  count: number,
+  order: 'oldest' | 'newest' = 'oldest'
+): number[] {
+  const direction = order === 'oldest' ? 1 : -1;
+  return events
+    .map((event, index) => ({ priority: priorityOf(event), index }))
+    .sort((a, b) => a.priority - b.priority || (a.index - b.index) * direction)
+    .slice(0, Math.max(0, count))
+    .map(victim => victim.index);
+}
+
+/**
+ * Builds a `status` envelope addressed to a single subscriber. Status
+ * envelopes never enter the stream and carry seq 0, so clients must not treat
+ * them as a position in the topic.
+ */
+export function statusEnvelope(tenantId: string, topicId: string, data: Record<string, any>): EventEnvelope {
+  return {
+    id: uuidv4(),
+    topicId,
+    type: 'status',
+    data,
+    seq: 0,
+    ts: new Date().toISOString(),
+    tenantId,
+    senderId: GATEWAY_SENDER_ID,
+  };
+}
+
+/**
+ * Tells a replaying subscriber that seqs `fromSeq`..`toSeq` are gone from the
+ * stream (trimmed by retention), so it must resync instead of expecting them.
+ */
+export function gapStatus(tenantId: string, topicId: string, fromSeq: number, toSeq: number): EventEnvelope {
+  return statusEnvelope(tenantId, topicId, { code: 'GAP', fromSeq, toSeq });
+}
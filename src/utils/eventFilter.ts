@@ -0,0 +1,97 @@
+import Joi from 'joi';
+import { EventEnvelope } from '../types';
+import { ValidationResult } from './inputSanitizer';
+
+export interface EventFilter {
+  includeTypes?: string[];
+  excludeTypes?: string[];
+  includeSenders?: string[];
+  excludeSenders?: string[];
+  excludeSelf?: boolean;
+  minPriority?: number;
+  dataEquals?: Record<string, string | number | boolean | null>;
+}
+
+const filterSchema = Joi.object({
+  includeTypes: Joi.array().items(Joi.string().max(128)).max(50).optional(),
+  excludeTypes: Joi.array().items(Joi.string().max(128)).max(50).optional(),
+  includeSenders: Joi.array().items(Joi.string().max(128)).max(100).optional(),
+  excludeSenders: Joi.array().items(Joi.string().max(128)).max(100).optional(),
+  excludeSelf: Joi.boolean().optional(),
+  minPriority: Joi.number().integer().min(0).max(9).optional(),
+  // Keys are dot-separated paths into event.data, values must be scalars
+  dataEquals: Joi.object()
+    .pattern(
+      Joi.string().max(200),
+      Joi.alternatives().try(Joi.string().max(1024), Joi.number(), Joi.boolean(), Joi.valid(null))
+    )
+    .max(20)
+    .optional(),
+});
+
+/**
+ * Validates a subscription filter argument
+ */
+export function validateEventFilter(filter: unknown): ValidationResult {
+  const { error, value } = filterSchema.validate(filter);
+
+  if (error) {
+    return {
+      isValid: false,
+      errors: error.details.map(detail => detail.message),
+    };
+  }
+
+  return {
+    isValid: true,
+    errors: [],
+    sanitizedData: value,
+  };
+}
+
+function readPath(data: Record<string, any>, path: string): unknown {
+  let current: any = data;
+  for (const part of path.split('.')) {
+    if (current === null || typeof current !== 'object' || !Object.prototype.hasOwnProperty.call(current, part)) {
+      return undefined;
+    }
+    current = current[part];
+  }
+  return current;
+}
+
+/**
+ * Returns true when the event passes every criterion set on the filter.
+ * `viewerId` is the subscribing user, used by `excludeSelf`.
+ */
+export function matchesEventFilter(event: EventEnvelope, filter: EventFilter | undefined, viewerId?: string): boolean {
+  if (!filter) return true;
+
+  if (filter.includeTypes && filter.includeTypes.length > 0 && !filter.includeTypes.includes(event.type)) {
+    return false;
+  }
+  if (filter.excludeTypes && filter.excludeTypes.includes(event.type)) {
+    return false;
+  }
+  if (filter.includeSenders && filter.includeSenders.length > 0 && !filter.includeSenders.includes(event.senderId)) {
+    return false;
+  }
+  if (filter.excludeSenders && filter.excludeSenders.includes(event.senderId)) {
+    return false;
+  }
+  if (filter.excludeSelf && viewerId && event.senderId === viewerId) {
+    return false;
+  }
+  if (typeof filter.minPriority === 'number' && (event.priority ?? 0) < filter.minPriority) {
+    return false;
+  }
+  if (filter.dataEquals) {
+    for (const [path, expected] of Object.entries(filter.dataEquals)) {
+      if (readPath(event.data, path) !== expected) {
+        return false;
+      }
+    }
+  }
+
+  return true;
+}
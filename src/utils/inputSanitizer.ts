@@ -2,8 +2,11 @@ import Joi from 'joi';
 import validator from 'validator';
 import DOMPurify from 'dompurify';
 import { JSDOM } from 'jsdom';
-import { PublishEventInput } from '../types';
+import { PublishEventInput, SaveSnapshotInput, CreateTopicInput, UpdateTopicInput, UpdateTopicAccessInput, RegisterEventSchemaInput, SetCoalescingPolicyInput, RegisterWebhookInput } from '../types';
 import { logger } from './logger';
+import { config } from '../config';
+import { TOPIC_OPERATIONS, TOPIC_ROLES } from './roles';
+import { SLOW_CLIENT_POLICIES } from './backpressure';
 
 // Configure DOMPurify for server-side usage
 const window = new JSDOM('').window;
@@ -42,10 +45,10 @@ const schemas = {
   eventType: Joi.string()
     .min(1)
     .max(100)
-    .pattern(/^[a-zA-Z0-9_\-]+$/)
+    .pattern(/^[a-zA-Z0-9_\-:]+$/)
     .required()
     .messages({
-      'string.pattern.base': 'Event type can only contain alphanumeric characters, hyphens, and underscores',
+      'string.pattern.base': 'Event type can only contain alphanumeric characters, hyphens, underscores, and colons',
       'string.max': 'Event type cannot exceed 100 characters',
     }),
 
@@ -69,6 +72,16 @@ const schemas = {
       'string.max': 'Tenant ID cannot exceed 100 characters',
     }),
 
+  groupName: Joi.string()
+    .min(1)
+    .max(100)
+    .pattern(/^[a-zA-Z0-9_\-:.]+$/)
+    .required()
+    .messages({
+      'string.pattern.base': 'Group and consumer names can only contain alphanumeric characters, hyphens, underscores, colons, and dots',
+      'string.max': 'Group and consumer names cannot exceed 100 characters',
+    }),
+
   priority: Joi.number()
     .integer()
     .min(0)
@@ -98,7 +111,8 @@ const schemas = {
     type: Joi.string()
       .min(1)
       .max(100)
-      .pattern(/^[a-zA-Z0-9_\-]+$/)
+      // Colons allow the `custom:*` namespace
+      .pattern(/^[a-zA-Z0-9_\-:]+$/)
       .required(),
     data: Joi.object()
       .unknown(true)
@@ -109,6 +123,176 @@ const schemas = {
       .min(0)
       .max(10)
       .optional(),
+    idempotencyKey: Joi.string()
+      .min(1)
+      .max(128)
+      .pattern(/^[a-zA-Z0-9_\-:.]+$/)
+      .optional()
+      .messages({
+        'string.pattern.base': 'Idempotency key can only contain alphanumeric characters, hyphens, underscores, colons, and dots',
+      }),
+    deliverAt: Joi.date().iso().optional(),
+    expiresAt: Joi.date().iso().optional(),
+  }).required(),
+
+  createTopicInput: Joi.object({
+    topicId: Joi.string()
+      .min(1)
+      .max(200)
+      .pattern(/^[a-zA-Z0-9_\-:.]+$/)
+      .required(),
+    description: Joi.string().max(1000).allow('').optional(),
+    metadata: Joi.object().unknown(true).max(20).optional(),
+    isPublic: Joi.boolean().optional(),
+    slowClientPolicy: Joi.string().valid(...SLOW_CLIENT_POLICIES).optional(),
+  }).required(),
+
+  updateTopicInput: Joi.object({
+    topicId: Joi.string()
+      .min(1)
+      .max(200)
+      .pattern(/^[a-zA-Z0-9_\-:.]+$/)
+      .required(),
+    description: Joi.string().max(1000).allow('').optional(),
+    metadata: Joi.object().unknown(true).max(20).optional(),
+    slowClientPolicy: Joi.string().valid(...SLOW_CLIENT_POLICIES).optional(),
+  }).required(),
+
+  registerEventSchemaInput: Joi.object({
+    topicId: Joi.string()
+      .min(1)
+      .max(200)
+      .pattern(/^[a-zA-Z0-9_\-:.]+$/)
+      .optional(),
+    eventType: Joi.string()
+      .min(1)
+      .max(100)
+      .pattern(/^[a-zA-Z0-9_\-:]+$/)
+      .optional()
+      .messages({
+        'string.pattern.base': 'Event type can only contain alphanumeric characters, hyphens, underscores, and colons',
+      }),
+    schema: Joi.object()
+      .unknown(true)
+      .required(),
+  }).or('topicId', 'eventType').required(),
+
+  setCoalescingPolicyInput: Joi.object({
+    topicId: Joi.string()
+      .min(1)
+      .max(200)
+      .pattern(/^[a-zA-Z0-9_\-:.]+$/)
+      .optional(),
+    eventType: Joi.string()
+      .min(1)
+      .max(100)
+      .pattern(/^[a-zA-Z0-9_\-:]+$/)
+      .required()
+      .messages({
+        'string.pattern.base': 'Event type can only contain alphanumeric characters, hyphens, underscores, and colons',
+      }),
+    mode: Joi.string()
+      .valid('latest_per_sender', 'latest_per_key', 'merge', 'none')
+      .required(),
+    keyPath: Joi.string()
+      .max(200)
+      .pattern(/^[a-zA-Z0-9_-]+(\.[a-zA-Z0-9_-]+)*$/)
+      .when('mode', { is: 'latest_per_key', then: Joi.required(), otherwise: Joi.optional() })
+      .messages({
+        'string.pattern.base': 'Key path must be dot-separated field names, e.g. selection.id',
+        'any.required': 'Key path is required for latest_per_key',
+      }),
+    threshold: Joi.number()
+      .min(0)
+      .max(1)
+      .optional()
+      .messages({
+        'number.min': 'Threshold must be between 0 and 1',
+        'number.max': 'Threshold must be between 0 and 1',
+      }),
+  }).required(),
+
+  registerWebhookInput: Joi.object({
+    topicId: Joi.string()
+      .min(1)
+      .max(200)
+      .pattern(/^[a-zA-Z0-9_\-:.]+$/)
+      .required(),
+    // Plain http only outside production, where endpoints are usually local
+    url: Joi.string()
+      .max(2048)
+      .uri({ scheme: config.server.nodeEnv === 'production' ? ['https'] : ['https', 'http'] })
+      .required()
+      .messages({
+        'string.uriCustomScheme': config.server.nodeEnv === 'production'
+          ? 'Webhook URL must use https'
+          : 'Webhook URL must use http or https',
+      }),
+    eventTypes: Joi.array()
+      .items(Joi.string().min(1).max(100).pattern(/^[a-zA-Z0-9_\-:]+$/))
+      .min(1)
+      .max(100)
+      .unique()
+      .optional(),
+  }).required(),
+
+  updateTopicAccessInput: Joi.object({
+    topicId: Joi.string()
+      .min(1)
+      .max(200)
+      .pattern(/^[a-zA-Z0-9_\-:.]+$/)
+      .required(),
+    isPublic: Joi.boolean().optional(),
+    allowedUsers: Joi.array()
+      .items(Joi.string().min(1).max(128).pattern(/^[a-zA-Z0-9_\-@.]+$/))
+      .max(1000)
+      .unique()
+      .optional()
+      .messages({
+        'string.pattern.base': 'User ID contains invalid characters',
+      }),
+    allowedRoles: Joi.array()
+      .items(Joi.string().min(1).max(64).pattern(/^[a-zA-Z0-9_\-:]+$/))
+      .max(50)
+      .unique()
+      .optional()
+      .messages({
+        'string.pattern.base': 'Role can only contain alphanumeric characters, hyphens, underscores, and colons',
+      }),
+    publicRole: Joi.string().valid(...TOPIC_ROLES).optional(),
+    userRoles: Joi.array()
+      .items(Joi.object({
+        userId: Joi.string().min(1).max(128).pattern(/^[a-zA-Z0-9_\-@.]+$/).required(),
+        role: Joi.string().valid(...TOPIC_ROLES).required(),
+      }))
+      .max(1000)
+      .unique('userId')
+      .optional()
+      .messages({
+        'string.pattern.base': 'User ID contains invalid characters',
+      }),
+    operationRoles: Joi.array()
+      .items(Joi.object({
+        operation: Joi.string().valid(...TOPIC_OPERATIONS).required(),
+        role: Joi.string().valid(...TOPIC_ROLES).required(),
+      }))
+      .unique('operation')
+      .optional(),
+  }).or('isPublic', 'allowedUsers', 'allowedRoles', 'publicRole', 'userRoles', 'operationRoles').required(),
+
+  saveSnapshotInput: Joi.object({
+    topicId: Joi.string()
+      .min(1)
+      .max(200)
+      .pattern(/^[a-zA-Z0-9_\-:.]+$/)
+      .required(),
+    seq: Joi.number()
+      .integer()
+      .min(1)
+      .required(),
+    data: Joi.object()
+      .unknown(true)
+      .required(),
   }).required(),
 };
 
@@ -223,6 +407,46 @@ export function validateUserId(userId: string): ValidationResult {
   };
 }
 
+/**
+ * Validates event type
+ */
+export function validateEventType(eventType: string): ValidationResult {
+  const { error } = schemas.eventType.validate(eventType);
+
+  if (error) {
+    return {
+      isValid: false,
+      errors: error.details.map(detail => detail.message),
+    };
+  }
+
+  return {
+    isValid: true,
+    errors: [],
+    sanitizedData: eventType,
+  };
+}
+
+/**
+ * Validates a consumer group or consumer name
+ */
+export function validateGroupName(name: string): ValidationResult {
+  const { error } = schemas.groupName.validate(name);
+
+  if (error) {
+    return {
+      isValid: false,
+      errors: error.details.map(detail => detail.message),
+    };
+  }
+
+  return {
+    isValid: true,
+    errors: [],
+    sanitizedData: name,
+  };
+}
+
 /**
  * Validates and sanitizes tenant ID
  */
@@ -275,6 +499,180 @@ export function validateAndSanitizePublishInput(input: PublishEventInput): Valid
     };
   }
 
+  // Joi converts the timing fields to Dates; envelopes carry ISO strings
+  const now = Date.now();
+  const deliverAt: Date | undefined = value.deliverAt;
+  const expiresAt: Date | undefined = value.expiresAt;
+  if (deliverAt && deliverAt.getTime() - now > config.scheduler.maxDelayMs) {
+    return {
+      isValid: false,
+      errors: [`deliverAt cannot be more than ${config.scheduler.maxDelayMs}ms in the future`],
+    };
+  }
+  if (expiresAt && expiresAt.getTime() <= Math.max(now, deliverAt?.getTime() ?? 0)) {
+    return {
+      isValid: false,
+      errors: ['expiresAt must be in the future and after deliverAt'],
+    };
+  }
+  if (deliverAt) sanitized.deliverAt = deliverAt.toISOString();
+  if (expiresAt) sanitized.expiresAt = expiresAt.toISOString();
+
+  return {
+    isValid: true,
+    errors: [],
+    sanitizedData: sanitized,
+  };
+}
+
+/**
+ * Validates and sanitizes topic create/update input
+ */
+export function validateAndSanitizeTopicInput(
+  input: CreateTopicInput | UpdateTopicInput,
+  mode: 'create' | 'update'
+): ValidationResult {
+  const schema = mode === 'create' ? schemas.createTopicInput : schemas.updateTopicInput;
+  const { error, value } = schema.validate(input);
+
+  if (error) {
+    return {
+      isValid: false,
+      errors: error.details.map(detail => detail.message),
+    };
+  }
+
+  const sanitized = {
+    ...value,
+    topicId: sanitizeString(value.topicId),
+    ...(value.description !== undefined ? { description: sanitizeString(value.description) } : {}),
+    ...(value.metadata !== undefined ? { metadata: sanitizeObject(value.metadata) } : {}),
+  };
+
+  return {
+    isValid: true,
+    errors: [],
+    sanitizedData: sanitized,
+  };
+}
+
+/**
+ * Validates event schema registrations. The schema itself is left untouched:
+ * sanitizing would rewrite `pattern` keywords and other string constraints.
+ */
+export function validateEventSchemaInput(input: RegisterEventSchemaInput): ValidationResult {
+  const { error, value } = schemas.registerEventSchemaInput.validate(input);
+
+  if (error) {
+    return {
+      isValid: false,
+      errors: error.details.map(detail => detail.message),
+    };
+  }
+
+  const schemaSize = Buffer.byteLength(JSON.stringify(value.schema), 'utf8');
+  if (schemaSize > config.limits.maxSchemaBytes) {
+    return {
+      isValid: false,
+      errors: [`Schema exceeds maximum size limit of ${config.limits.maxSchemaBytes} bytes`],
+    };
+  }
+
+  return {
+    isValid: true,
+    errors: [],
+    sanitizedData: value,
+  };
+}
+
+/**
+ * Validates topic ACL changes
+ */
+export function validateTopicAccessInput(input: UpdateTopicAccessInput): ValidationResult {
+  const { error, value } = schemas.updateTopicAccessInput.validate(input);
+
+  if (error) {
+    return {
+      isValid: false,
+      errors: error.details.map(detail => detail.message),
+    };
+  }
+
+  return {
+    isValid: true,
+    errors: [],
+    sanitizedData: value,
+  };
+}
+
+/**
+ * Validates coalescing policy changes
+ */
+export function validateCoalescingPolicyInput(input: SetCoalescingPolicyInput): ValidationResult {
+  const { error, value } = schemas.setCoalescingPolicyInput.validate(input);
+
+  if (error) {
+    return {
+      isValid: false,
+      errors: error.details.map(detail => detail.message),
+    };
+  }
+
+  return {
+    isValid: true,
+    errors: [],
+    sanitizedData: value,
+  };
+}
+
+/**
+ * Validates webhook registrations
+ */
+export function validateWebhookInput(input: RegisterWebhookInput): ValidationResult {
+  const { error, value } = schemas.registerWebhookInput.validate(input);
+
+  if (error) {
+    return {
+      isValid: false,
+      errors: error.details.map(detail => detail.message),
+    };
+  }
+
+  return {
+    isValid: true,
+    errors: [],
+    sanitizedData: value,
+  };
+}
+
+/**
+ * Validates and sanitizes snapshot input
+ */
+export function validateAndSanitizeSnapshotInput(input: SaveSnapshotInput): ValidationResult {
+  const { error, value } = schemas.saveSnapshotInput.validate(input);
+
+  if (error) {
+    return {
+      isValid: false,
+      errors: error.details.map(detail => detail.message),
+    };
+  }
+
+  const sanitized = {
+    ...value,
+    topicId: sanitizeString(value.topicId),
+    data: sanitizeObject(value.data),
+  };
+
+  // Snapshots carry full topic state, so they get their own (larger) size cap
+  const jsonSize = JSON.stringify(sanitized.data).length;
+  if (jsonSize > config.snapshot.maxBytes) {
+    return {
+      isValid: false,
+      errors: [`Snapshot data exceeds maximum size limit of ${config.snapshot.maxBytes} bytes`],
+    };
+  }
+
   return {
     isValid: true,
     errors: [],
@@ -314,6 +712,44 @@ export function validateQueryParams(params: {
   };
 }
 
+/**
+ * Validates cursor-paginated history arguments
+ */
+export function validateHistoryConnectionParams(params: {
+  first?: number;
+  after?: string;
+  afterSeq?: number;
+  beforeSeq?: number;
+  from?: string;
+  to?: string;
+  direction?: string;
+}): ValidationResult {
+  const schema = Joi.object({
+    first: Joi.number().integer().min(1).max(1000).optional(),
+    after: Joi.string().max(200).pattern(/^[A-Za-z0-9_-]+$/).optional(),
+    afterSeq: Joi.number().integer().min(0).optional(),
+    beforeSeq: Joi.number().integer().min(1).optional(),
+    from: Joi.date().iso().optional(),
+    to: Joi.date().iso().optional(),
+    direction: Joi.string().valid('FORWARD', 'BACKWARD').optional(),
+  });
+
+  const { error, value } = schema.validate(params);
+
+  if (error) {
+    return {
+      isValid: false,
+      errors: error.details.map(detail => detail.message),
+    };
+  }
+
+  return {
+    isValid: true,
+    errors: [],
+    sanitizedData: value,
+  };
+}
+
 /**
  * Validates and sanitizes GraphQL context
  */
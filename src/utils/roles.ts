@@ -0,0 +1,94 @@
+import { TopicOperation, TopicRole } from '../types';
+
+// Ordered lowest to highest; each role can do everything the roles below it can
+export const TOPIC_ROLES: TopicRole[] = ['viewer', 'editor', 'admin'];
+
+export const TOPIC_OPERATIONS: TopicOperation[] = ['read', 'subscribe', 'publish', 'manage'];
+
+export const DEFAULT_OPERATION_ROLES: Record<TopicOperation, TopicRole> = {
+  read: 'viewer',
+  subscribe: 'viewer',
+  publish: 'editor',
+  manage: 'admin',
+};
+
+// Role granted to public-topic visitors and `allowedUsers` entries without an explicit role
+export const DEFAULT_MEMBER_ROLE: TopicRole = 'editor';
+
+/**
+ * The parts of a topic ACL that decide which role a user holds on it
+ */
+export interface TopicRoleGrants {
+  isPublic: boolean;
+  allowedUsers: string[];
+  allowedRoles: string[];
+  publicRole?: TopicRole;
+  userRoles?: Record<string, TopicRole>;
+  operationRoles?: Partial<Record<TopicOperation, TopicRole>>;
+}
+
+export function isTopicRole(role: string): role is TopicRole {
+  return (TOPIC_ROLES as string[]).includes(role);
+}
+
+function roleRank(role: TopicRole): number {
+  return TOPIC_ROLES.indexOf(role);
+}
+
+/**
+ * Reads roles from token custom claims: either a `roles` array or a single `role`
+ */
+export function rolesFromClaims(claims: Record<string, unknown>): string[] {
+  if (Array.isArray(claims.roles)) {
+    return claims.roles.filter((role): role is string => typeof role === 'string');
+  }
+  return typeof claims.role === 'string' ? [claims.role] : [];
+}
+
+/**
+ * Resolves the highest role a user holds on a topic, or null for no access.
+ * A hierarchy role listed in `allowedRoles` also admits every role above it;
+ * other role names must match exactly and grant viewer access.
+ */
+export function resolveTopicRole(grants: TopicRoleGrants, userId: string, userRoles: string[]): TopicRole | null {
+  const candidates: TopicRole[] = [];
+
+  if (grants.isPublic) {
+    candidates.push(grants.publicRole ?? DEFAULT_MEMBER_ROLE);
+  }
+
+  const explicit = grants.userRoles?.[userId];
+  if (explicit) {
+    candidates.push(explicit);
+  } else if (grants.allowedUsers.includes(userId)) {
+    candidates.push(DEFAULT_MEMBER_ROLE);
+  }
+
+  for (const role of userRoles) {
+    if (isTopicRole(role)) {
+      const admitted = grants.allowedRoles.some(allowed => isTopicRole(allowed) && roleRank(allowed) <= roleRank(role));
+      if (admitted) {
+        candidates.push(role);
+      }
+    } else if (grants.allowedRoles.includes(role)) {
+      candidates.push('viewer');
+    }
+  }
+
+  return candidates.reduce<TopicRole | null>(
+    (best, role) => (best === null || roleRank(role) > roleRank(best) ? role : best),
+    null
+  );
+}
+
+export function canPerform(
+  role: TopicRole | null,
+  operation: TopicOperation,
+  operationRoles?: Partial<Record<TopicOperation, TopicRole>>
+): boolean {
+  if (role === null) {
+    return false;
+  }
+  const required = operationRoles?.[operation] ?? DEFAULT_OPERATION_ROLES[operation];
+  return roleRank(role) >= roleRank(required);
+}
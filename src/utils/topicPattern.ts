@@ -0,0 +1,58 @@
+import Joi from 'joi';
+import { ValidationResult } from './inputSanitizer';
+
+const MAX_PATTERNS = 20;
+
+// Same character set as topic IDs plus the glob wildcards `*` and `?`
+const patternSchema = Joi.array()
+  .items(
+    Joi.string()
+      .min(1)
+      .max(200)
+      .pattern(/^[a-zA-Z0-9_\-:.*?]+$/)
+      .messages({
+        'string.pattern.base': 'Topic pattern can only contain topic ID characters and the wildcards * and ?',
+      })
+  )
+  .min(1)
+  .max(MAX_PATTERNS)
+  .unique()
+  .required();
+
+/**
+ * Validates a list of topic glob patterns
+ */
+export function validateTopicPatterns(patterns: string[]): ValidationResult {
+  const { error, value } = patternSchema.validate(patterns);
+
+  if (error) {
+    return {
+      isValid: false,
+      errors: error.details.map(detail => detail.message),
+    };
+  }
+
+  return {
+    isValid: true,
+    errors: [],
+    sanitizedData: value,
+  };
+}
+
+export function isTopicPattern(pattern: string): boolean {
+  return pattern.includes('*') || pattern.includes('?');
+}
+
+/**
+ * Compiles a glob using Redis PSUBSCRIBE semantics: `*` matches any run of
+ * characters (including `:`), `?` matches exactly one.
+ */
+export function compileTopicPattern(pattern: string): RegExp {
+  const escaped = pattern.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+  return new RegExp(`^${escaped.replace(/\*/g, '.*').replace(/\?/g, '.')}$`);
+}
+
+export function createTopicMatcher(patterns: string[]): (topicId: string) => boolean {
+  const compiled = patterns.map(compileTopicPattern);
+  return (topicId: string) => compiled.some(re => re.test(topicId));
+}
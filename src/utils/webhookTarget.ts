@@ -0,0 +1,77 @@
+import { BlockList, isIP } from 'net';
+import { promises as dns } from 'dns';
+import { ValidationResult } from './inputSanitizer';
+
+// Loopback, private, link-local (cloud metadata lives at 169.254.169.254) and
+// other non-routable ranges a webhook must never reach
+const blockedRanges = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 4],
+  ['240.0.0.0', 4],
+] as const) {
+  blockedRanges.addSubnet(network, prefix, 'ipv4');
+}
+// BlockList already checks IPv4-mapped addresses against the IPv4 ranges
+for (const [network, prefix] of [
+  ['::', 96], // unspecified, loopback and IPv4-compatible
+  ['64:ff9b::', 96],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8],
+] as const) {
+  blockedRanges.addSubnet(network, prefix, 'ipv6');
+}
+
+export function isPrivateAddress(address: string): boolean {
+  const family = isIP(address);
+  if (family === 0) {
+    return false;
+  }
+  return blockedRanges.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+/**
+ * Checks that a webhook URL points at a public host. Host names are resolved
+ * and every address they resolve to must be public, so this runs again before
+ * each delivery: DNS can change after the webhook was registered.
+ */
+export async function validateWebhookTarget(url: string): Promise<ValidationResult> {
+  const rejected = (error: string): ValidationResult => ({ isValid: false, errors: [error] });
+
+  let hostname: string;
+  try {
+    // IPv6 literals keep their brackets in URL.hostname
+    hostname = new URL(url).hostname.replace(/^\[(.*)\]$/, '$1').toLowerCase();
+  } catch {
+    return rejected('Webhook URL is not a valid URL');
+  }
+
+  if (hostname === 'localhost' || hostname.endsWith('.localhost')) {
+    return rejected('Webhook URL must not point to a private, loopback or link-local address');
+  }
+
+  let addresses: string[];
+  if (isIP(hostname) !== 0) {
+    addresses = [hostname];
+  } else {
+    try {
+      addresses = (await dns.lookup(hostname, { all: true, verbatim: true })).map(entry => entry.address);
+    } catch {
+      return rejected(`Webhook URL host ${hostname} could not be resolved`);
+    }
+  }
+
+  if (addresses.some(isPrivateAddress)) {
+    return rejected('Webhook URL must not point to a private, loopback or link-local address');
+  }
+  return { isValid: true, errors: [], sanitizedData: url };
+}
@@ -0,0 +1,41 @@
+// Mock Redis connection first
+const mockRedis = {
+  get: jest.fn(),
+  set: jest.fn(),
+  eval: jest.fn(),
+};
+
+jest.mock('../src/redis/connection', () => ({
+  redisConnection: {
+    getClient: () => mockRedis,
+  }
+}));
+
+import { AckCursorStore } from '../src/redis/ackStore';
+
+describe('Ack Cursor Store Tests', () => {
+  let cursors: AckCursorStore;
+
+  beforeEach(() => {
+    cursors = new AckCursorStore();
+    jest.clearAllMocks();
+  });
+
+  test('should keep a separate cursor for each of a user\'s consumers', async () => {
+    mockRedis.eval.mockResolvedValue(9);
+    await cursors.advance('t1', 'doc:1', 'u1', 'phone', 9);
+    mockRedis.set.mockResolvedValue('OK');
+    await cursors.init('t1', 'doc:1', 'u1', 'tablet', 4);
+
+    const advanced = mockRedis.eval.mock.calls[0][1].keys[0];
+    const started = mockRedis.set.mock.calls[0][0];
+    expect(advanced).toMatch(/:cursor:t1:\{doc:1\}:u1:phone$/);
+    expect(started).toMatch(/:cursor:t1:\{doc:1\}:u1:tablet$/);
+  });
+
+  test('should return the existing cursor instead of starting a new one', async () => {
+    mockRedis.set.mockResolvedValue(null);
+    mockRedis.get.mockResolvedValue('7');
+    await expect(cursors.init('t1', 'doc:1', 'u1', 'tablet', 12)).resolves.toBe(7);
+  });
+});
@@ -0,0 +1,123 @@
+const mockReadFromSeq = jest.fn();
+const mockGetCursor = jest.fn();
+
+jest.mock('../src/redis/topicManager', () => ({
+  redisTopicManager: { readFromSeq: mockReadFromSeq },
+}));
+
+jest.mock('../src/redis/ackStore', () => ({
+  ackCursorStore: { get: mockGetCursor },
+}));
+
+import { AckedEventIterator } from '../src/graphql/ackedIterator';
+import { BoundedEventIterator } from '../src/graphql/boundedIterator';
+import { EventEnvelope } from '../src/types';
+import { config } from '../src/config';
+
+function event(seq: number, type = 'op'): EventEnvelope {
+  return { id: `e${seq}`, topicId: 'doc:1', type, data: {}, seq, ts: '', tenantId: 't1', senderId: 'u1' };
+}
+
+// Live iterator fed by the test
+function liveSource() {
+  const waiting: Array<(result: IteratorResult<{ topicEvents: EventEnvelope }>) => void> = [];
+  return {
+    push: (evt: EventEnvelope) => waiting.shift()?.({ value: { topicEvents: evt }, done: false }),
+    iterator: {
+      next: () => new Promise<IteratorResult<{ topicEvents: EventEnvelope }>>(resolve => waiting.push(resolve)),
+      return: async () => {
+        waiting.splice(0).forEach(resolve => resolve({ value: undefined, done: true }));
+        return { value: undefined, done: true } as IteratorResult<{ topicEvents: EventEnvelope }>;
+      },
+    },
+  };
+}
+
+const flush = () => new Promise(resolve => setImmediate(resolve));
+
+describe('Acked Event Iterator Tests', () => {
+  const options = { tenantId: 't1', topicId: 'doc:1', userId: 'u1', consumer: 'tablet', fromSeq: 3 };
+  let iterator: AckedEventIterator;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  afterEach(async () => {
+    await iterator.return();
+  });
+
+  test('should replay the backlog before live events and drop duplicates', async () => {
+    mockReadFromSeq.mockResolvedValue([event(3), event(4)]);
+    const live = liveSource();
+    iterator = new AckedEventIterator(live.iterator, options);
+    await flush();
+
+    live.push(event(4));
+    await flush();
+    live.push(event(5));
+    await flush();
+
+    const seqs = [];
+    for (let i = 0; i < 3; i++) {
+      seqs.push((await iterator.next()).value.topicEvents.seq);
+    }
+    expect(mockReadFromSeq).toHaveBeenCalledWith('t1', 'doc:1', 3);
+    expect(seqs).toEqual([3, 4, 5]);
+  });
+
+  test('should apply the accept filter', async () => {
+    mockReadFromSeq.mockResolvedValue([event(3, 'cursor'), event(4)]);
+    iterator = new AckedEventIterator(liveSource().iterator, { ...options, accept: e => e.type === 'op' });
+    await flush();
+
+    expect((await iterator.next()).value.topicEvents.seq).toBe(4);
+  });
+
+  test('should redeliver events the cursor has not covered after the timeout', async () => {
+    mockReadFromSeq.mockResolvedValue([event(3), event(4)]);
+    iterator = new AckedEventIterator(liveSource().iterator, options);
+    await flush();
+    await iterator.next();
+    await iterator.next();
+
+    const realNow = Date.now;
+    Date.now = () => realNow() + config.ack.timeoutMs;
+    try {
+      mockGetCursor.mockResolvedValue(3);
+      await iterator.retryUnacked();
+    } finally {
+      Date.now = realNow;
+    }
+
+    const redelivered = await iterator.next();
+    expect(redelivered.value.topicEvents.seq).toBe(4);
+    expect(mockGetCursor).toHaveBeenCalledWith('t1', 'doc:1', 'u1', 'tablet');
+  });
+
+  test('should redeliver events a bounded buffer dropped for a slow client', async () => {
+    mockReadFromSeq.mockResolvedValue([event(3), event(4), event(5), event(6)]);
+    iterator = new AckedEventIterator(liveSource().iterator, options);
+    const bounded = new BoundedEventIterator(iterator, { tenantId: 't1', capacity: 2, policyFor: () => 'drop_oldest' });
+    await flush();
+
+    const notice = (await bounded.next()).value.topicEvents;
+    expect(notice.type).toBe('status');
+    expect(notice.data).toMatchObject({ fromSeq: 3, toSeq: 4, dropped: 2 });
+    expect((await bounded.next()).value.topicEvents.seq).toBe(5);
+    expect((await bounded.next()).value.topicEvents.seq).toBe(6);
+
+    const redelivered = bounded.next();
+    const realNow = Date.now;
+    Date.now = () => realNow() + config.ack.timeoutMs;
+    try {
+      mockGetCursor.mockResolvedValue(2);
+      await iterator.retryUnacked();
+    } finally {
+      Date.now = realNow;
+    }
+
+    expect((await redelivered).value.topicEvents.seq).toBe(3);
+    await bounded.return();
+  });
+});
@@ -0,0 +1,114 @@
+import { BoundedEventIterator } from '../src/graphql/boundedIterator';
+import { metricsCollector } from '../src/monitoring/metrics';
+import { EventEnvelope, SlowClientPolicy } from '../src/types';
+
+function event(seq: number, priority?: number, senderId = 'u1'): EventEnvelope {
+  return {
+    id: `e${seq}`, topicId: 'doc:1', type: 'op', data: {}, seq, ts: '', tenantId: 't1', senderId,
+    ...(priority !== undefined ? { priority } : {}),
+  };
+}
+
+// Live iterator that has every event ready at once, like a burst the client cannot keep up with
+function burst(events: EventEnvelope[]) {
+  const queue = [...events];
+  let pending: ((result: IteratorResult<{ topicEvents: EventEnvelope }>) => void) | null = null;
+  return {
+    push: (evt: EventEnvelope) => {
+      if (pending) {
+        pending({ value: { topicEvents: evt }, done: false });
+        pending = null;
+      } else {
+        queue.push(evt);
+      }
+    },
+    iterator: {
+      next: () => {
+        const next = queue.shift();
+        if (next) return Promise.resolve({ value: { topicEvents: next }, done: false as const });
+        return new Promise<IteratorResult<{ topicEvents: EventEnvelope }>>(resolve => { pending = resolve; });
+      },
+      return: jest.fn(async () => ({ value: undefined, done: true as const })),
+    },
+  };
+}
+
+const flush = () => new Promise(resolve => setImmediate(resolve));
+
+function bounded(policy: SlowClientPolicy, live: ReturnType<typeof burst>) {
+  return new BoundedEventIterator(live.iterator, { tenantId: 't1', capacity: 3, policyFor: () => policy });
+}
+
+async function take(iterator: BoundedEventIterator, count: number): Promise<EventEnvelope[]> {
+  const taken: EventEnvelope[] = [];
+  for (let i = 0; i < count; i++) {
+    const result = await iterator.next();
+    if (result.done) break;
+    taken.push(result.value.topicEvents);
+  }
+  return taken;
+}
+
+describe('Bounded Event Iterator Tests', () => {
+  beforeEach(() => {
+    metricsCollector.resetMetrics();
+  });
+
+  test('should drop the oldest events and report the range first', async () => {
+    const iterator = bounded('drop_oldest', burst([1, 2, 3, 4, 5].map(seq => event(seq))));
+    await flush();
+
+    const [status, ...rest] = await take(iterator, 4);
+    expect(status!.type).toBe('status');
+    expect(status!.data).toEqual({ code: 'EVENTS_DROPPED', policy: 'drop_oldest', fromSeq: 1, toSeq: 2, dropped: 2 });
+    expect(rest.map(e => e.seq)).toEqual([3, 4, 5]);
+    expect(metricsCollector.getMetrics().events.dropped).toBe(2);
+    await iterator.return();
+  });
+
+  test('should drop the newest low-priority events under drop_newest', async () => {
+    const iterator = bounded('drop_newest', burst([event(1, 5), event(2), event(3), event(4)]));
+    await flush();
+
+    const [status, ...rest] = await take(iterator, 4);
+    expect(status!.data).toMatchObject({ fromSeq: 4, toSeq: 4, dropped: 1 });
+    expect(rest.map(e => e.seq)).toEqual([1, 2, 3]);
+    await iterator.return();
+  });
+
+  test('should hand out buffered events highest priority first', async () => {
+    const live = burst([event(1, 0, 'a'), event(2, 0, 'b'), event(3, 9, 'c'), event(4, 5, 'd'), event(5, 9, 'e')]);
+    const iterator = new BoundedEventIterator(live.iterator, { tenantId: 't1', capacity: 10, policyFor: () => 'drop_oldest' });
+    await flush();
+
+    expect((await take(iterator, 5)).map(e => e.seq)).toEqual([3, 5, 4, 1, 2]);
+    await iterator.return();
+  });
+
+  test('should pause until the resync notice is read', async () => {
+    const live = burst([1, 2, 3, 4].map(seq => event(seq)));
+    const iterator = bounded('pause_resync', live);
+    await flush();
+    live.push(event(5));
+    await flush();
+
+    const [status] = await take(iterator, 1);
+    expect(status!.data).toMatchObject({ code: 'RESYNC_REQUIRED', fromSeq: 1, toSeq: 5, dropped: 5 });
+
+    live.push(event(6));
+    await flush();
+    expect((await take(iterator, 1)).map(e => e.seq)).toEqual([6]);
+    await iterator.return();
+  });
+
+  test('should end the subscription after the disconnect notice', async () => {
+    const live = burst([1, 2, 3, 4].map(seq => event(seq)));
+    const iterator = bounded('disconnect', live);
+    await flush();
+
+    const [status] = await take(iterator, 1);
+    expect(status!.data).toMatchObject({ code: 'DISCONNECTED', dropped: 4 });
+    expect((await iterator.next()).done).toBe(true);
+    expect(live.iterator.return).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,41 @@
+import { coalesce, readKeyPath } from '../src/utils/coalescing';
+import { EventEnvelope } from '../src/types';
+
+function event(id: string, senderId: string, data: Record<string, any>, type = 'custom:selection'): EventEnvelope {
+  return { id, topicId: 'doc:1', type, data, seq: 0, ts: '', tenantId: 't1', senderId };
+}
+
+describe('Coalescing Tests', () => {
+  test('should read nested key paths', () => {
+    expect(readKeyPath({ selection: { id: 's1' } }, 'selection.id')).toBe('s1');
+    expect(readKeyPath({ selection: 's1' }, 'selection.id')).toBeUndefined();
+    expect(readKeyPath({ list: [1] }, 'list.0')).toBeUndefined();
+  });
+
+  test('should keep only the latest event per sender', () => {
+    const queued = [event('a', 'u1', {}), event('b', 'u2', {}), event('c', 'u1', {}), event('d', 'u1', {}, 'op')];
+    const result = coalesce(queued, event('e', 'u1', {}), { mode: 'latest_per_sender', threshold: 0 });
+    expect(result.replaced).toEqual([0, 2]);
+    expect(result.event.id).toBe('e');
+  });
+
+  test('should keep only the latest event per key', () => {
+    const queued = [event('a', 'u1', { selection: { id: 's1' } }), event('b', 'u2', { selection: { id: 's2' } })];
+    const rule = { mode: 'latest_per_key' as const, keyPath: 'selection.id', threshold: 0 };
+    expect(coalesce(queued, event('c', 'u2', { selection: { id: 's1' } }), rule).replaced).toEqual([0]);
+    // Events without the key are never coalesced
+    expect(coalesce(queued, event('d', 'u1', {}), rule).replaced).toEqual([]);
+  });
+
+  test('should merge data from the same sender', () => {
+    const queued = [event('a', 'u1', { x: 1, style: { bold: true } }), event('b', 'u2', { y: 2 })];
+    const result = coalesce(queued, event('c', 'u1', { z: 3, style: { italic: true } }), { mode: 'merge', threshold: 0 });
+    expect(result.replaced).toEqual([0]);
+    expect(result.event.data).toEqual({ x: 1, z: 3, style: { bold: true, italic: true } });
+  });
+
+  test('should leave the queue alone when coalescing is off', () => {
+    const queued = [event('a', 'u1', {})];
+    expect(coalesce(queued, event('b', 'u1', {}), { mode: 'none', threshold: 0 }).replaced).toEqual([]);
+  });
+});
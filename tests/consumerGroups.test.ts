@@ -0,0 +1,100 @@
+// Mock Redis connection first
+const mockRedis = {
+  xGroupCreate: jest.fn(),
+  xReadGroup: jest.fn(),
+  xPendingRange: jest.fn(),
+  xClaim: jest.fn(),
+  xAck: jest.fn(),
+};
+
+jest.mock('../src/redis/connection', () => ({
+  redisConnection: {
+    getClient: () => mockRedis,
+  }
+}));
+
+import { ConsumerGroupManager } from '../src/redis/consumerGroups';
+import { encodeMsgpack } from '../src/utils/encoding';
+
+function entry(id: string, seq: number, extra: Record<string, string> = {}) {
+  return {
+    id,
+    message: { id: `e${seq}`, type: 'job', data: '{"n":1}', seq: `${seq}`, ts: '2024-01-01T00:00:00.000Z', userId: 'u1', ...extra },
+  };
+}
+
+describe('Consumer Group Tests', () => {
+  let groups: ConsumerGroupManager;
+
+  beforeEach(() => {
+    groups = new ConsumerGroupManager();
+    jest.clearAllMocks();
+  });
+
+  test('should ignore groups that already exist', async () => {
+    mockRedis.xGroupCreate.mockRejectedValueOnce(new Error('BUSYGROUP Consumer Group name already exists'));
+    await expect(groups.ensureGroup('t1', 'jobs', 'workers')).resolves.toBeUndefined();
+
+    mockRedis.xGroupCreate.mockRejectedValueOnce(new Error('WRONGTYPE'));
+    await expect(groups.ensureGroup('t1', 'jobs', 'workers')).rejects.toThrow('WRONGTYPE');
+  });
+
+  test('should read new entries and ack expired ones away', async () => {
+    mockRedis.xReadGroup.mockResolvedValue([
+      { name: 'rt:stream:t1:jobs', messages: [entry('1-0', 1), entry('2-0', 2, { expiresAt: '2000-01-01T00:00:00.000Z' })] },
+    ]);
+
+    const deliveries = await groups.readNew('t1', 'jobs', 'workers', 'w1', 10);
+
+    expect(mockRedis.xReadGroup).toHaveBeenCalledWith(expect.anything(), 'workers', 'w1', { key: expect.stringMatching(/:stream:t1:jobs$/), id: '>' }, { COUNT: 10 });
+    expect(deliveries).toHaveLength(1);
+    expect(deliveries[0]).toMatchObject({ streamId: '1-0', consumer: 'w1', deliveryCount: 1, event: { seq: 1, data: { n: 1 } } });
+    expect(mockRedis.xAck).toHaveBeenCalledWith(expect.any(String), 'workers', ['2-0']);
+  });
+
+  test('should decode entries stored as MessagePack', async () => {
+    // Stream reads return buffers; ids and text fields come back as Buffers too
+    const stored = entry('3-0', 3);
+    mockRedis.xReadGroup.mockResolvedValue([{
+      name: Buffer.from('rt:stream:t1:jobs'),
+      messages: [{
+        id: Buffer.from('3-0'),
+        message: {
+          ...Object.fromEntries(Object.entries(stored.message).map(([name, value]) => [name, Buffer.from(value)])),
+          data: encodeMsgpack({ samples: [1, 2.5, 3] }),
+          encoding: Buffer.from('msgpack'),
+        },
+      }],
+    }]);
+
+    const deliveries = await groups.readNew('t1', 'jobs', 'workers', 'w1', 10);
+
+    expect(deliveries[0]).toMatchObject({ streamId: '3-0', event: { id: 'e3', seq: 3, data: { samples: [1, 2.5, 3] } } });
+  });
+
+  test('should claim stuck entries and skip trimmed ones', async () => {
+    mockRedis.xPendingRange.mockResolvedValue([
+      { id: '1-0', owner: 'w1', millisecondsSinceLastDelivery: 90000, deliveriesCounter: 2 },
+      { id: '2-0', owner: 'w1', millisecondsSinceLastDelivery: 90000, deliveriesCounter: 1 },
+    ]);
+    mockRedis.xClaim.mockResolvedValue([entry('1-0', 1), null]);
+
+    const result = await groups.claim('t1', 'jobs', 'workers', 'w2', { minIdleMs: 60000, count: 10 });
+
+    expect(mockRedis.xPendingRange).toHaveBeenCalledWith(expect.any(String), 'workers', '-', '+', 10, { IDLE: 60000 });
+    expect(mockRedis.xClaim).toHaveBeenCalledWith(expect.anything(), expect.any(String), 'workers', 'w2', 60000, ['1-0', '2-0']);
+    expect(result.scanned).toBe(2);
+    expect(result.lastId).toBe('2-0');
+    expect(result.deliveries).toEqual([expect.objectContaining({ streamId: '1-0', consumer: 'w2', deliveryCount: 3 })]);
+  });
+
+  test('should not claim when nothing is pending', async () => {
+    mockRedis.xPendingRange.mockResolvedValue([]);
+
+    const result = await groups.claim('t1', 'jobs', 'workers', 'w1', { minIdleMs: 0, count: 10, owner: 'w1' });
+
+    expect(mockRedis.xPendingRange).toHaveBeenCalledWith(expect.any(String), 'workers', '-', '+', 10, { IDLE: 0, consumer: 'w1' });
+    expect(mockRedis.xClaim).not.toHaveBeenCalled();
+    expect(result).toEqual({ deliveries: [], scanned: 0, lastId: null });
+  });
+});
@@ -0,0 +1,62 @@
+import { nextByPriority, orderByPriority, selectOverflowVictims } from '../src/utils/envelope';
+
+type Queued = { id: string; senderId: string; priority?: number };
+
+function ids(events: Queued[]): string[] {
+  return events.map(event => event.id);
+}
+
+describe('Envelope Priority Tests', () => {
+  test('should drain higher priority first', () => {
+    const events: Queued[] = [
+      { id: 'a', senderId: 'u1' },
+      { id: 'b', senderId: 'u2', priority: 5 },
+      { id: 'c', senderId: 'u3', priority: 9 },
+    ];
+    expect(ids(orderByPriority(events))).toEqual(['c', 'b', 'a']);
+  });
+
+  test('should never reorder events from the same sender', () => {
+    const events: Queued[] = [
+      { id: 'a1', senderId: 'a', priority: 1 },
+      { id: 'b1', senderId: 'b', priority: 5 },
+      { id: 'a2', senderId: 'a', priority: 9 },
+      { id: 'b2', senderId: 'b' },
+    ];
+    // a2 must wait for a1; b1 goes ahead of a1 on priority
+    expect(ids(orderByPriority(events))).toEqual(['b1', 'a1', 'a2', 'b2']);
+  });
+
+  test('should keep arrival order within a priority', () => {
+    const events: Queued[] = [
+      { id: 'x', senderId: 'u1', priority: 3 },
+      { id: 'y', senderId: 'u2', priority: 3 },
+      { id: 'z', senderId: 'u1', priority: 3 },
+    ];
+    expect(ids(orderByPriority(events))).toEqual(['x', 'y', 'z']);
+  });
+
+  test('should pick the same next event as the full ordering', () => {
+    const events: Queued[] = [
+      { id: 'a1', senderId: 'a', priority: 1 },
+      { id: 'a2', senderId: 'a', priority: 9 },
+      { id: 'b1', senderId: 'b', priority: 5 },
+      { id: 'c1', senderId: 'c', priority: 5 },
+    ];
+    expect(events[nextByPriority(events)]).toBe(orderByPriority(events)[0]);
+    expect(nextByPriority([])).toBe(-1);
+  });
+
+  test('should drop the oldest lowest-priority events first', () => {
+    const events: Queued[] = [
+      { id: 'a', senderId: 'u1', priority: 5 },
+      { id: 'b', senderId: 'u1' },
+      { id: 'c', senderId: 'u2', priority: 2 },
+      { id: 'd', senderId: 'u2' },
+    ];
+    expect(selectOverflowVictims(events, 1)).toEqual([1]);
+    expect(selectOverflowVictims(events, 3)).toEqual([1, 3, 2]);
+    expect(selectOverflowVictims(events, 0)).toEqual([]);
+    expect(selectOverflowVictims(events, 2, 'newest')).toEqual([3, 1]);
+  });
+});
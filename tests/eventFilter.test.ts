@@ -0,0 +1,64 @@
+import { matchesEventFilter, validateEventFilter } from '../src/utils/eventFilter';
+import { EventEnvelope } from '../src/types';
+
+function makeEvent(overrides: Partial<EventEnvelope> = {}): EventEnvelope {
+  return {
+    id: 'evt-1',
+    topicId: 'doc:123',
+    type: 'metric',
+    data: { kind: 'cpu', meta: { host: 'a' } },
+    seq: 1,
+    ts: new Date().toISOString(),
+    tenantId: 'default',
+    senderId: 'user-1',
+    ...overrides,
+  };
+}
+
+describe('Event Filter Tests', () => {
+  describe('Matching', () => {
+    test('should pass everything without a filter', () => {
+      expect(matchesEventFilter(makeEvent(), undefined)).toBe(true);
+    });
+
+    test('should include and exclude by type', () => {
+      expect(matchesEventFilter(makeEvent(), { includeTypes: ['metric'] })).toBe(true);
+      expect(matchesEventFilter(makeEvent({ type: 'cursor' }), { includeTypes: ['metric'] })).toBe(false);
+      expect(matchesEventFilter(makeEvent({ type: 'cursor' }), { excludeTypes: ['cursor'] })).toBe(false);
+    });
+
+    test('should include and exclude by sender', () => {
+      expect(matchesEventFilter(makeEvent(), { includeSenders: ['user-2'] })).toBe(false);
+      expect(matchesEventFilter(makeEvent(), { excludeSenders: ['user-1'] })).toBe(false);
+      expect(matchesEventFilter(makeEvent(), { excludeSenders: ['user-2'] })).toBe(true);
+    });
+
+    test('should drop own events with excludeSelf', () => {
+      expect(matchesEventFilter(makeEvent(), { excludeSelf: true }, 'user-1')).toBe(false);
+      expect(matchesEventFilter(makeEvent(), { excludeSelf: true }, 'user-2')).toBe(true);
+    });
+
+    test('should treat missing priority as zero', () => {
+      expect(matchesEventFilter(makeEvent(), { minPriority: 1 })).toBe(false);
+      expect(matchesEventFilter(makeEvent({ priority: 5 }), { minPriority: 5 })).toBe(true);
+    });
+
+    test('should compare data fields by dotted path', () => {
+      expect(matchesEventFilter(makeEvent(), { dataEquals: { kind: 'cpu', 'meta.host': 'a' } })).toBe(true);
+      expect(matchesEventFilter(makeEvent(), { dataEquals: { 'meta.host': 'b' } })).toBe(false);
+      expect(matchesEventFilter(makeEvent(), { dataEquals: { 'missing.path': 'a' } })).toBe(false);
+    });
+  });
+
+  describe('Validation', () => {
+    test('should accept a well-formed filter', () => {
+      const result = validateEventFilter({ includeTypes: ['metric'], minPriority: 3, dataEquals: { kind: 'cpu' } });
+      expect(result.isValid).toBe(true);
+    });
+
+    test('should reject out-of-range priority and non-scalar data predicates', () => {
+      expect(validateEventFilter({ minPriority: 12 }).isValid).toBe(false);
+      expect(validateEventFilter({ dataEquals: { kind: { nested: true } } }).isValid).toBe(false);
+    });
+  });
+});
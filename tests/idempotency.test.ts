@@ -0,0 +1,45 @@
+// Mock Redis connection first
+const mockRedis = {
+  set: jest.fn(),
+  get: jest.fn(),
+  del: jest.fn(),
+};
+
+jest.mock('../src/redis/connection', () => ({
+  redisConnection: {
+    getClient: () => mockRedis,
+  }
+}));
+
+import { IdempotencyStore } from '../src/redis/idempotency';
+import { config } from '../src/config';
+
+describe('Idempotency Store Tests', () => {
+  let store: IdempotencyStore;
+
+  beforeEach(() => {
+    store = new IdempotencyStore();
+    jest.clearAllMocks();
+  });
+
+  test('should hold a reservation only briefly and keep the completed record for the full TTL', async () => {
+    mockRedis.set.mockResolvedValue('OK');
+
+    await expect(store.reserve('t1', 'u1', 'k1')).resolves.toEqual({ state: 'reserved' });
+    expect(mockRedis.set).toHaveBeenLastCalledWith(expect.stringMatching(/:idem:t1:u1:k1$/), 'pending', {
+      NX: true,
+      EX: config.idempotency.pendingTtlSeconds,
+    });
+
+    await store.complete('t1', 'u1', 'k1', { eventId: 'e1', seq: 3, topicId: 'doc:1', fingerprint: 'f' });
+    expect(mockRedis.set).toHaveBeenLastCalledWith(expect.stringMatching(/:idem:t1:u1:k1$/), expect.any(String), {
+      EX: config.idempotency.ttlSeconds,
+    });
+  });
+
+  test('should report an unfinished reservation as pending', async () => {
+    mockRedis.set.mockResolvedValue(null);
+    mockRedis.get.mockResolvedValue('pending');
+    await expect(store.reserve('t1', 'u1', 'k1')).resolves.toEqual({ state: 'pending' });
+  });
+});
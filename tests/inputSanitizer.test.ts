@@ -4,6 +4,11 @@ import {
   validateTopicId,
   validateUserId,
   validateAndSanitizePublishInput,
+  validateAndSanitizeSnapshotInput,
+  validateHistoryConnectionParams,
+  validateTopicAccessInput,
+  validateCoalescingPolicyInput,
+  validateWebhookInput,
   checkInputRateLimit
 } from '../src/utils/inputSanitizer';
 
@@ -109,6 +114,16 @@ describe('Input Sanitization Security Tests', () => {
       expect(result.sanitizedData).toEqual(input);
     });
 
+    test('should accept custom namespaced event types', () => {
+      const result = validateAndSanitizePublishInput({
+        topicId: 'doc:123',
+        type: 'custom:annotation',
+        data: { text: 'note' },
+      });
+
+      expect(result.isValid).toBe(true);
+    });
+
     test('should sanitize malicious data payload', () => {
       const input = {
         topicId: 'chat:room1',
@@ -162,6 +177,29 @@ describe('Input Sanitization Security Tests', () => {
       expect(result.isValid).toBe(false);
       expect(result.errors[0]).toContain('50');
     });
+
+    test('should accept and keep a well-formed idempotency key', () => {
+      const result = validateAndSanitizePublishInput({
+        topicId: 'chat:room1',
+        type: 'message',
+        data: { text: 'hi' },
+        idempotencyKey: 'device-42:retry.7',
+      });
+
+      expect(result.isValid).toBe(true);
+      expect(result.sanitizedData.idempotencyKey).toBe('device-42:retry.7');
+    });
+
+    test('should reject malformed idempotency keys', () => {
+      const result = validateAndSanitizePublishInput({
+        topicId: 'chat:room1',
+        type: 'message',
+        data: { text: 'hi' },
+        idempotencyKey: 'key with spaces',
+      });
+
+      expect(result.isValid).toBe(false);
+    });
   });
 
   describe('Input Rate Limiting', () => {
@@ -211,4 +249,149 @@ describe('Input Sanitization Security Tests', () => {
       });
     });
   });
-});
\ No newline at end of file
+
+  describe('Snapshot Input Validation', () => {
+    test('should accept and sanitize valid snapshot input', () => {
+      const result = validateAndSanitizeSnapshotInput({
+        topicId: 'doc:123',
+        seq: 42,
+        data: { title: '<script>alert(1)</script>Doc' },
+      });
+
+      expect(result.isValid).toBe(true);
+      expect(result.sanitizedData.seq).toBe(42);
+      expect(result.sanitizedData.data.title).toBe('Doc');
+    });
+
+    test('should reject non-positive seq', () => {
+      const result = validateAndSanitizeSnapshotInput({
+        topicId: 'doc:123',
+        seq: 0,
+        data: {},
+      });
+
+      expect(result.isValid).toBe(false);
+    });
+
+    test('should reject snapshots over the size limit', () => {
+      const result = validateAndSanitizeSnapshotInput({
+        topicId: 'doc:123',
+        seq: 1,
+        data: { blob: 'x'.repeat(2 * 1024 * 1024) },
+      });
+
+      expect(result.isValid).toBe(false);
+      expect(result.errors[0]).toContain('Snapshot data exceeds maximum size limit');
+    });
+  });
+
+  describe('History Pagination Validation', () => {
+    test('should accept cursors, seq bounds and ISO time ranges', () => {
+      const result = validateHistoryConnectionParams({
+        first: 20,
+        after: 'ZXZ0OjE3MDAwMDAwMDAwMDAtMA',
+        afterSeq: 10,
+        from: '2024-01-01T00:00:00.000Z',
+        to: '2024-01-02T00:00:00.000Z',
+        direction: 'FORWARD',
+      });
+
+      expect(result.isValid).toBe(true);
+      expect(result.sanitizedData.from).toBeInstanceOf(Date);
+    });
+
+    test('should reject malformed timestamps and oversized pages', () => {
+      expect(validateHistoryConnectionParams({ from: 'yesterday' }).isValid).toBe(false);
+      expect(validateHistoryConnectionParams({ first: 5000 }).isValid).toBe(false);
+      expect(validateHistoryConnectionParams({ direction: 'SIDEWAYS' }).isValid).toBe(false);
+    });
+  });
+
+  describe('Topic Access Validation', () => {
+    test('should accept ACL changes', () => {
+      const result = validateTopicAccessInput({
+        topicId: 'doc:123',
+        isPublic: false,
+        allowedUsers: ['user-1', 'someone@example.com'],
+        allowedRoles: ['editor'],
+        userRoles: [{ userId: 'user-1', role: 'admin' }],
+        operationRoles: [{ operation: 'publish', role: 'viewer' }],
+      });
+
+      expect(result.isValid).toBe(true);
+    });
+
+    test('should reject empty changes and invalid entries', () => {
+      expect(validateTopicAccessInput({ topicId: 'doc:123' }).isValid).toBe(false);
+      expect(validateTopicAccessInput({ topicId: 'doc:123', allowedUsers: ['<script>'] }).isValid).toBe(false);
+      expect(validateTopicAccessInput({ topicId: 'doc:123', allowedRoles: ['a', 'a'] }).isValid).toBe(false);
+      expect(validateTopicAccessInput({
+        topicId: 'doc:123',
+        userRoles: [{ userId: 'u1', role: 'owner' as any }],
+      }).isValid).toBe(false);
+    });
+  });
+
+  describe('Coalescing Policy Validation', () => {
+    test('should accept policies for custom types', () => {
+      const result = validateCoalescingPolicyInput({ eventType: 'custom:selection', mode: 'latest_per_key', keyPath: 'selection.id' });
+      expect(result.isValid).toBe(true);
+    });
+
+    test('should require a key path for latest_per_key', () => {
+      expect(validateCoalescingPolicyInput({ eventType: 'cursor', mode: 'latest_per_key' }).isValid).toBe(false);
+      expect(validateCoalescingPolicyInput({ eventType: 'cursor', mode: 'merge', keyPath: 'a..b' }).isValid).toBe(false);
+    });
+
+    test('should reject thresholds outside 0-1', () => {
+      expect(validateCoalescingPolicyInput({ eventType: 'cursor', mode: 'none', threshold: 1.5 }).isValid).toBe(false);
+    });
+  });
+
+  describe('Webhook Validation', () => {
+    test('should accept http(s) endpoints with optional type filters', () => {
+      expect(validateWebhookInput({ topicId: 'doc:123', url: 'https://hooks.example.com/rt' }).isValid).toBe(true);
+      expect(validateWebhookInput({ topicId: 'doc:123', url: 'http://localhost:9000/hook', eventTypes: ['op'] }).isValid).toBe(true);
+    });
+
+    test('should reject other schemes and empty type filters', () => {
+      expect(validateWebhookInput({ topicId: 'doc:123', url: 'ftp://example.com/hook' }).isValid).toBe(false);
+      expect(validateWebhookInput({ topicId: 'doc:123', url: 'not a url' }).isValid).toBe(false);
+      expect(validateWebhookInput({ topicId: 'doc:123', url: 'https://example.com', eventTypes: [] }).isValid).toBe(false);
+    });
+  });
+
+  describe('Delivery Timing Validation', () => {
+    const base = { topicId: 'doc:123', type: 'status', data: { state: 'typing' } };
+
+    test('should normalize deliverAt and expiresAt to ISO strings', () => {
+      const deliverAt = new Date(Date.now() + 60000);
+      const expiresAt = new Date(Date.now() + 120000);
+      const result = validateAndSanitizePublishInput({
+        ...base,
+        deliverAt: deliverAt.toISOString(),
+        expiresAt: expiresAt.toISOString(),
+      });
+
+      expect(result.isValid).toBe(true);
+      expect(result.sanitizedData.deliverAt).toBe(deliverAt.toISOString());
+      expect(result.sanitizedData.expiresAt).toBe(expiresAt.toISOString());
+    });
+
+    test('should reject expiry in the past or before delivery', () => {
+      const past = new Date(Date.now() - 1000).toISOString();
+      const soon = new Date(Date.now() + 60000).toISOString();
+      const later = new Date(Date.now() + 120000).toISOString();
+
+      expect(validateAndSanitizePublishInput({ ...base, expiresAt: past }).isValid).toBe(false);
+      expect(validateAndSanitizePublishInput({ ...base, deliverAt: later, expiresAt: soon }).isValid).toBe(false);
+      expect(validateAndSanitizePublishInput({ ...base, deliverAt: 'tomorrow' }).isValid).toBe(false);
+    });
+
+    test('should reject deliverAt beyond the maximum delay', () => {
+      const farFuture = new Date(Date.now() + 365 * 24 * 3600 * 1000).toISOString();
+
+      expect(validateAndSanitizePublishInput({ ...base, deliverAt: farFuture }).isValid).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,120 @@
+// Just enough of Redis, in memory, for the topic manager's subscriber bookkeeping
+const hashes = new Map<string, Record<string, string>>();
+const sets = new Map<string, Set<string>>();
+const lists = new Map<string, string[]>();
+
+const mockRedis = {
+  hSet: jest.fn(async (key: string, field: string | Record<string, string>, value?: string) => {
+    const hash = hashes.get(key) ?? {};
+    Object.assign(hash, typeof field === 'string' ? { [field]: value } : field);
+    hashes.set(key, hash);
+  }),
+  hGetAll: jest.fn(async (key: string) => ({ ...hashes.get(key) })),
+  sAdd: jest.fn(async (key: string, member: string) => {
+    sets.set(key, (sets.get(key) ?? new Set()).add(member));
+  }),
+  sMembers: jest.fn(async (key: string) => [...(sets.get(key) ?? [])]),
+  sRem: jest.fn(async (key: string, member: string) => (sets.get(key)?.delete(member) ? 1 : 0)),
+  lLen: jest.fn(async (key: string) => lists.get(key)?.length ?? 0),
+  lRange: jest.fn(async (key: string) => [...(lists.get(key) ?? [])]),
+  exists: jest.fn(async (key: string) => (hashes.has(key) || lists.has(key) ? 1 : 0)),
+  keys: jest.fn(async (pattern: string) => {
+    const regex = new RegExp(`^${pattern.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*')}$`);
+    return [...hashes.keys()].filter(key => regex.test(key));
+  }),
+  del: jest.fn(async (key: string) => {
+    hashes.delete(key);
+    lists.delete(key);
+  }),
+  expire: jest.fn(async () => true),
+  // Commands queued on a transaction run back to back at exec
+  multi: jest.fn(() => {
+    const queued: Array<() => Promise<unknown>> = [];
+    const chain = {
+      lRange: (key: string) => { queued.push(() => mockRedis.lRange(key)); return chain; },
+      hGetAll: (key: string) => { queued.push(() => mockRedis.hGetAll(key)); return chain; },
+      del: (key: string) => { queued.push(() => mockRedis.del(key)); return chain; },
+      exec: async () => {
+        const replies = [];
+        for (const command of queued) replies.push(await command());
+        return replies;
+      },
+    };
+    return chain;
+  }),
+};
+
+jest.mock('../src/redis/connection', () => ({
+  redisConnection: {
+    getClient: () => mockRedis,
+  }
+}));
+
+jest.mock('../src/gateway/auth', () => ({
+  firebaseAuth: {
+    verifyToken: async () => ({ userId: 'u1', tenantId: 't1', roles: [] }),
+    checkTopicAccess: async () => true,
+  },
+}));
+
+jest.mock('../src/redis/rateLimiter', () => ({
+  rateLimiter: {
+    checkUserRateLimit: async () => ({ allowed: true, remaining: 99, resetTime: Date.now() + 60000, limit: 100 }),
+  },
+}));
+
+import express from 'express';
+import request from 'supertest';
+import { config } from '../src/config';
+import { redisTopicManager } from '../src/redis/topicManager';
+import { createSubscribersRouter } from '../src/rest/subscribers';
+
+describe('Long Poll Cleanup Tests', () => {
+  const saved = { ...config.longPoll };
+  const savedThreshold = config.topic.slowClientThresholdMs;
+
+  beforeEach(() => {
+    hashes.clear();
+    sets.clear();
+    lists.clear();
+    hashes.set(`${config.redis.keyPrefix}:topic:t1:doc:1:meta`, { createdBy: 'u1' });
+    config.longPoll.pollIntervalMs = 20;
+    config.longPoll.subscriberTtlMs = 100;
+    config.topic.slowClientThresholdMs = 50;
+  });
+
+  afterAll(() => {
+    Object.assign(config.longPoll, saved);
+    config.topic.slowClientThresholdMs = savedThreshold;
+  });
+
+  test('should keep a waiting subscriber through a cleanup sweep', async () => {
+    const server = express();
+    server.use(express.json());
+    server.use('/v1', createSubscribersRouter());
+
+    const registered = await request(server).post('/v1/subscribers').set('Authorization', 'Bearer token').send({ topicId: 'doc:1' });
+    const subscriberId = registered.body.id;
+    const metaKey = `${config.redis.keyPrefix}:subscriber:t1:${subscriberId}:meta`;
+    expect(hashes.get(metaKey)?.idleTimeoutMs).toBe('100');
+
+    const poll = request(server).get(`/v1/subscribers/${subscriberId}/events?wait=2`).set('Authorization', 'Bearer token').then(res => res);
+
+    // Longer into the wait than the subscriber's TTL, the sweep runs and then an event arrives
+    await new Promise(resolve => setTimeout(resolve, 300));
+    await redisTopicManager.cleanupInactiveSubscribers();
+    expect(hashes.has(metaKey)).toBe(true);
+    lists.set(`${config.redis.keyPrefix}:sub:t1:${subscriberId}:topic:doc:1:queue`, [JSON.stringify({ id: 'e1', seq: 1, topicId: 'doc:1' })]);
+
+    const res = await poll;
+    expect(res.body.events.map((event: { id: string }) => event.id)).toEqual(['e1']);
+  });
+
+  test('should clean up a subscriber that stops polling for longer than its TTL', async () => {
+    await redisTopicManager.addSubscriber('t1', 'doc:1', 's1', 'u1', 100);
+    await new Promise(resolve => setTimeout(resolve, 150));
+
+    await redisTopicManager.cleanupInactiveSubscribers();
+    expect(await redisTopicManager.findSubscriber('t1', 's1')).toBeNull();
+  });
+});
@@ -0,0 +1,113 @@
+// Presence hashes kept in memory; eval stands in for the remove-if-stale script
+const hashes = new Map<string, Map<string, string>>();
+
+function hash(key: string): Map<string, string> {
+  if (!hashes.has(key)) hashes.set(key, new Map());
+  return hashes.get(key)!;
+}
+
+const mockRedis = {
+  hSet: jest.fn(async (key: string, field: string, value: string) => {
+    const added = hash(key).has(field) ? 0 : 1;
+    hash(key).set(field, value);
+    return added;
+  }),
+  hDel: jest.fn(async (key: string, field: string) => (hash(key).delete(field) ? 1 : 0)),
+  hGetAll: jest.fn(async (key: string) => Object.fromEntries(hash(key))),
+  expire: jest.fn(async () => 1),
+  keys: jest.fn(),
+  scanIterator: jest.fn(async function* ({ MATCH }: { MATCH: string }) {
+    const prefix = MATCH.slice(0, -1);
+    for (const key of [...hashes.keys()]) {
+      if (key.startsWith(prefix)) yield key;
+    }
+  }),
+  eval: jest.fn(async (_script: string, { keys, arguments: args }: { keys: string[]; arguments: string[] }) => {
+    const lastSeen = parseInt(hash(keys[0]!).get(args[0]!) ?? '0', 10);
+    return lastSeen < parseInt(args[1]!, 10) && hash(keys[0]!).delete(args[0]!) ? 1 : 0;
+  }),
+};
+
+const mockPublish = jest.fn();
+
+jest.mock('../src/redis/connection', () => ({
+  redisConnection: {
+    getClient: () => mockRedis,
+  }
+}));
+
+jest.mock('../src/graphql/pubsub', () => ({
+  graphqlPubSub: { publish: mockPublish },
+  channelForPresence: (tenantId: string, topicId: string) => `PRESENCE_CHANGES:${tenantId}:${topicId}`,
+}));
+
+import { PresenceManager } from '../src/redis/presence';
+import { config } from '../src/config';
+
+describe('Presence Manager Tests', () => {
+  const presenceKey = `${config.redis.keyPrefix}:presence:t1:doc:1`;
+  const stale = () => (Date.now() - (config.presence.ttlSeconds + 5) * 1000).toString();
+  let presence: PresenceManager;
+
+  function emitted(): Array<[string, string]> {
+    return mockPublish.mock.calls.map(([, { presenceChanged }]) => [presenceChanged.userId, presenceChanged.type]);
+  }
+
+  beforeEach(() => {
+    hashes.clear();
+    jest.clearAllMocks();
+    presence = new PresenceManager();
+  });
+
+  test('should announce a join once and a leave once', async () => {
+    await presence.join('t1', 'doc:1', 'u1');
+    await presence.heartbeat('t1', 'doc:1', 'u1');
+    await presence.leave('t1', 'doc:1', 'u1');
+    await presence.leave('t1', 'doc:1', 'u1');
+
+    expect(emitted()).toEqual([['u1', 'JOIN'], ['u1', 'LEAVE']]);
+    expect(mockPublish.mock.calls[0][0]).toBe('PRESENCE_CHANGES:t1:doc:1');
+  });
+
+  test('should time out members that stopped heartbeating', async () => {
+    await presence.join('t1', 'doc:1', 'u1');
+    await presence.join('t1', 'doc:1', 'u2');
+    hash(presenceKey).set('u1', stale());
+    mockPublish.mockClear();
+
+    await presence.sweepExpired();
+
+    expect(emitted()).toEqual([['u1', 'TIMEOUT']]);
+    expect(mockPublish.mock.calls[0][0]).toBe('PRESENCE_CHANGES:t1:doc:1');
+    expect(await presence.list('t1', 'doc:1')).toEqual(['u2']);
+    expect(mockRedis.keys).not.toHaveBeenCalled();
+  });
+
+  test('should keep a member whose heartbeat lands during the sweep', async () => {
+    hash(presenceKey).set('u1', stale());
+    // The sweep reads the stale heartbeat, then a fresh one arrives before the removal
+    mockRedis.hGetAll.mockImplementationOnce(async (key: string) => {
+      const members = Object.fromEntries(hash(key));
+      await presence.heartbeat('t1', 'doc:1', 'u1');
+      return members;
+    });
+    mockPublish.mockClear();
+
+    await presence.sweepExpired();
+
+    expect(mockRedis.eval).toHaveBeenCalledWith(expect.stringContaining('HDEL'), {
+      keys: [presenceKey],
+      arguments: ['u1', expect.any(String)],
+    });
+    expect(emitted()).toEqual([]);
+    expect(await presence.list('t1', 'doc:1')).toEqual(['u1']);
+  });
+
+  test('should announce a heartbeat after a timeout as a join', async () => {
+    hash(presenceKey).set('u1', stale());
+    await presence.sweepExpired();
+    await presence.heartbeat('t1', 'doc:1', 'u1');
+
+    expect(emitted()).toEqual([['u1', 'TIMEOUT'], ['u1', 'JOIN']]);
+  });
+});
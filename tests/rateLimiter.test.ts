@@ -177,4 +177,34 @@ describe('Rate Limiter Security Tests', () => {
       );
     });
   });
+
+  describe('Weighted Requests', () => {
+    test('should pass the cost to the Lua script for batches', async () => {
+      mockRedis.eval.mockResolvedValue(['1', '75', '1234567890', '100']);
+
+      await rateLimiter.checkUserRateLimit('user123', 'publish', 25);
+
+      expect(mockRedis.eval).toHaveBeenCalledWith(
+        expect.any(String),
+        expect.objectContaining({
+          keys: ['rate_limit:user:user123:publish'],
+          arguments: ['100', '60', expect.any(String), '25']
+        })
+      );
+    });
+
+    test('should count each unit of cost in fallback mode', async () => {
+      mockRedis.eval.mockRejectedValue(new Error('Redis unavailable'));
+
+      // Fallback limit is 10% of 100 = 10
+      const first = await rateLimiter.checkRateLimit('batch-key', 100, 60000, 8);
+      const second = await rateLimiter.checkRateLimit('batch-key', 100, 60000, 3);
+      const third = await rateLimiter.checkRateLimit('batch-key', 100, 60000, 2);
+
+      expect(first.allowed).toBe(true);
+      expect(second.allowed).toBe(false);
+      expect(third.allowed).toBe(true);
+      expect(third.remaining).toBe(0);
+    });
+  });
 });
\ No newline at end of file
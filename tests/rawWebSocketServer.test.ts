@@ -0,0 +1,178 @@
+const mockVerifyToken = jest.fn();
+const mockPublishEvent = jest.fn();
+const mockAckEvents = jest.fn();
+const mockSubscribe = jest.fn();
+
+jest.mock('../src/gateway/auth', () => ({
+  firebaseAuth: { verifyToken: mockVerifyToken },
+}));
+
+jest.mock('../src/graphql/resolvers', () => ({
+  resolvers: {
+    Mutation: { publishEvent: mockPublishEvent, ackEvents: mockAckEvents },
+    Subscription: { topicEvents: { subscribe: mockSubscribe } },
+  },
+}));
+
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+import WebSocket from 'ws';
+import { RawWebSocketServer, parseClientMessage } from '../src/gateway/rawWebSocketServer';
+import { decodeMsgpack, encodeMsgpack } from '../src/utils/encoding';
+
+const user = { userId: 'u1', tenantId: 't1', roles: [] };
+
+// A live iterator the test feeds by hand
+function liveIterator() {
+  const waiters: Array<(result: IteratorResult<any>) => void> = [];
+  const iterator = {
+    next: () => new Promise<IteratorResult<any>>(resolve => waiters.push(resolve)),
+    return: jest.fn(async () => {
+      waiters.splice(0).forEach(resolve => resolve({ value: undefined, done: true }));
+      return { value: undefined, done: true };
+    }),
+    push: (event: unknown) => waiters.shift()?.({ value: { topicEvents: event }, done: false }),
+    end: () => waiters.shift()?.({ value: undefined, done: true }),
+  };
+  return iterator;
+}
+
+describe('Raw WebSocket Server Tests', () => {
+  let server: Server;
+  let raw: RawWebSocketServer;
+  let url: string;
+  const sockets: WebSocket[] = [];
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    mockVerifyToken.mockImplementation(async (token: string) => (token === 'good' ? user : null));
+    raw = new RawWebSocketServer();
+    server = createServer();
+    server.on('upgrade', (req, socket, head) => {
+      void raw.handleUpgrade(req, socket, head);
+    });
+    await new Promise<void>(resolve => server.listen(0, resolve));
+    url = `ws://127.0.0.1:${(server.address() as AddressInfo).port}/ws`;
+  });
+
+  afterEach(async () => {
+    sockets.splice(0).forEach(socket => socket.terminate());
+    raw.close();
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  async function connect(protocol?: string): Promise<{ socket: WebSocket; next: () => Promise<any> }> {
+    const socket = new WebSocket(`${url}?token=good`, protocol);
+    sockets.push(socket);
+    const received: any[] = [];
+    const waiters: Array<(message: any) => void> = [];
+    socket.on('message', (data, isBinary) => {
+      const message = isBinary ? { binary: decodeMsgpack(data as Buffer) } : JSON.parse(data.toString());
+      const waiter = waiters.shift();
+      if (waiter) waiter(message);
+      else received.push(message);
+    });
+    await new Promise((resolve, reject) => {
+      socket.once('open', resolve);
+      socket.once('error', reject);
+    });
+    const next = () => (received.length > 0 ? Promise.resolve(received.shift()) : new Promise(resolve => waiters.push(resolve)));
+    return { socket, next };
+  }
+
+  test('should validate the shape of client messages', () => {
+    expect(parseClientMessage('not json')).toBe('Invalid message: not valid JSON');
+    expect(parseClientMessage('{"type":"subscribe","topicId":"doc:1"}')).toMatch(/needs an id/);
+    expect(parseClientMessage('{"type":"shout"}')).toBe('Invalid message: unknown type');
+    expect(parseClientMessage('{"type":"ack","topicId":"doc:1","upToSeq":3}')).toEqual({ type: 'ack', topicId: 'doc:1', upToSeq: 3 });
+    expect(parseClientMessage('{"type":"ack","topicId":"doc:1","upToSeq":3,"consumer":7}')).toBe('Invalid message: consumer must be a string');
+  });
+
+  test('should refuse the handshake without a valid token', async () => {
+    const socket = new WebSocket(`${url}?token=bad`);
+    socket.on('error', () => undefined); // terminating a refused handshake reports an error
+    sockets.push(socket);
+    const status = await new Promise(resolve => socket.once('unexpected-response', (_, res) => resolve(res.statusCode)));
+    expect(status).toBe(401);
+  });
+
+  test('should answer pings and route publish and ack through the resolvers', async () => {
+    mockPublishEvent.mockResolvedValue({ success: true, eventId: 'e1', seq: 4 });
+    mockAckEvents.mockResolvedValue({ success: true, committedSeq: 4, message: null });
+    const { socket, next } = await connect();
+
+    socket.send(JSON.stringify({ type: 'ping', id: 'p1' }));
+    expect(await next()).toEqual({ type: 'pong', id: 'p1' });
+
+    socket.send(JSON.stringify({ type: 'publish', id: 'r1', event: { topicId: 'doc:1', type: 'cursor', data: { x: 1 } } }));
+    expect(await next()).toEqual({ type: 'result', id: 'r1', result: { success: true, eventId: 'e1', seq: 4 } });
+    expect(mockPublishEvent.mock.calls[0][1]).toEqual({ input: { topicId: 'doc:1', type: 'cursor', data: { x: 1 } } });
+    expect(mockPublishEvent.mock.calls[0][2].user).toEqual(user);
+
+    socket.send(JSON.stringify({ type: 'ack', topicId: 'doc:1', upToSeq: 4, consumer: 'tablet' }));
+    expect((await next()).result.committedSeq).toBe(4);
+    expect(mockAckEvents.mock.calls[0][1]).toEqual({ topicId: 'doc:1', upToSeq: 4, consumer: 'tablet' });
+  });
+
+  test('should stream subscription events until the client unsubscribes', async () => {
+    const live = liveIterator();
+    mockSubscribe.mockResolvedValue(live);
+    const { socket, next } = await connect();
+
+    socket.send(JSON.stringify({ type: 'subscribe', id: 'c1', topicId: 'doc:1', fromSeq: 3 }));
+    expect(await next()).toEqual({ type: 'subscribed', id: 'c1' });
+    expect(mockSubscribe.mock.calls[0][1]).toEqual({ topicId: 'doc:1', fromSeq: 3 });
+
+    live.push({ id: 'e1', seq: 3 });
+    expect(await next()).toEqual({ type: 'event', id: 'c1', event: { id: 'e1', seq: 3 } });
+
+    socket.send(JSON.stringify({ type: 'subscribe', id: 'c1', topicId: 'doc:1' }));
+    expect((await next()).message).toMatch(/already exists/);
+
+    socket.send(JSON.stringify({ type: 'unsubscribe', id: 'c1' }));
+    socket.send(JSON.stringify({ type: 'ping' }));
+    expect(await next()).toEqual({ type: 'pong' });
+    expect(live.return).toHaveBeenCalled();
+  });
+
+  test('should report subscribe failures and server-side completion', async () => {
+    mockSubscribe.mockRejectedValueOnce(new Error('Failed to subscribe to topic'));
+    const { socket, next } = await connect();
+
+    socket.send(JSON.stringify({ type: 'subscribe', id: 'c1', topicId: 'doc:1' }));
+    expect(await next()).toEqual({ type: 'error', id: 'c1', message: 'Failed to subscribe to topic' });
+
+    const live = liveIterator();
+    mockSubscribe.mockResolvedValue(live);
+    socket.send(JSON.stringify({ type: 'subscribe', id: 'c2', topicId: 'doc:1' }));
+    expect(await next()).toEqual({ type: 'subscribed', id: 'c2' });
+    live.end();
+    expect(await next()).toEqual({ type: 'complete', id: 'c2' });
+  });
+
+  test('should speak MessagePack in binary frames on the msgpack subprotocol', async () => {
+    const live = liveIterator();
+    mockSubscribe.mockResolvedValue(live);
+    const { socket, next } = await connect('msgpack');
+    expect(socket.protocol).toBe('msgpack');
+
+    socket.send(encodeMsgpack({ type: 'subscribe', id: 'c1', topicId: 'telemetry:1' }));
+    expect(await next()).toEqual({ binary: { type: 'subscribed', id: 'c1' } });
+
+    live.push({ id: 'e1', seq: 1, data: { samples: [0.5, 1.5] } });
+    expect(await next()).toEqual({ binary: { type: 'event', id: 'c1', event: { id: 'e1', seq: 1, data: { samples: [0.5, 1.5] } } } });
+
+    // Text frames are still read as JSON
+    socket.send(JSON.stringify({ type: 'ping', id: 'p1' }));
+    expect(await next()).toEqual({ binary: { type: 'pong', id: 'p1' } });
+  });
+
+  test('should refuse an unknown encoding parameter', async () => {
+    const socket = new WebSocket(`${url}?token=good&encoding=xml`);
+    socket.on('error', () => undefined);
+    sockets.push(socket);
+    const status = await new Promise(resolve => socket.once('unexpected-response', (_, res) => resolve(res.statusCode)));
+    expect(status).toBe(400);
+    expect(parseClientMessage(Buffer.from([0xc1]))).toBe('Invalid message: not valid MessagePack');
+  });
+});
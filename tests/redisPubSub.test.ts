@@ -0,0 +1,87 @@
+// Mock Redis connection first; publishes loop back through the pattern listener
+let patternListener: ((message: string, channel: string) => void) | null = null;
+const mockSubscriber = {
+  connect: jest.fn(),
+  disconnect: jest.fn(),
+  pSubscribe: jest.fn(async (_pattern: string, listener: (message: string, channel: string) => void) => {
+    patternListener = listener;
+  }),
+  pUnsubscribe: jest.fn(),
+};
+const mockRedis = {
+  duplicate: () => mockSubscriber,
+  publish: jest.fn(async (channel: string, message: string) => {
+    patternListener?.(message, channel);
+    return 1;
+  }),
+};
+
+jest.mock('../src/redis/connection', () => ({
+  redisConnection: {
+    getClient: () => mockRedis,
+  }
+}));
+
+import { RedisPubSub } from '../src/graphql/redisPubSub';
+
+describe('Redis PubSub Tests', () => {
+  let pubsub: RedisPubSub;
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    patternListener = null;
+    pubsub = new RedisPubSub();
+    await pubsub.start();
+  });
+
+  afterEach(async () => {
+    await pubsub.stop();
+  });
+
+  test('should hold one pattern subscription and publish through Redis', async () => {
+    const received: unknown[] = [];
+    await pubsub.subscribe('TOPIC_EVENTS:t1:doc:1', payload => received.push(payload));
+    await pubsub.subscribe('TENANT_EVENTS:t1', payload => received.push(payload));
+
+    await pubsub.publish('TOPIC_EVENTS:t1:doc:1', { topicEvents: { id: 'e1', seq: 1 } });
+
+    expect(mockSubscriber.pSubscribe).toHaveBeenCalledTimes(1);
+    expect(mockSubscriber.pSubscribe).toHaveBeenCalledWith('rt:gql:*', expect.any(Function));
+    expect(mockRedis.publish).toHaveBeenCalledWith('rt:gql:TOPIC_EVENTS:t1:doc:1', JSON.stringify({ topicEvents: { id: 'e1', seq: 1 } }));
+    expect(received).toEqual([{ topicEvents: { id: 'e1', seq: 1 } }]);
+  });
+
+  test('should deliver an envelope id once per trigger', async () => {
+    const topic: unknown[] = [];
+    const tenant: unknown[] = [];
+    await pubsub.subscribe('TOPIC_EVENTS:t1:doc:1', payload => topic.push(payload));
+    await pubsub.subscribe('TENANT_EVENTS:t1', payload => tenant.push(payload));
+
+    await pubsub.publish('TOPIC_EVENTS:t1:doc:1', { topicEvents: { id: 'e1' } });
+    await pubsub.publish('TOPIC_EVENTS:t1:doc:1', { topicEvents: { id: 'e1' } });
+    await pubsub.publish('TENANT_EVENTS:t1', { topicEvents: { id: 'e1' } });
+
+    expect(topic).toHaveLength(1);
+    expect(tenant).toHaveLength(1);
+  });
+
+  test('should not dedupe payloads without an envelope id', async () => {
+    const received: unknown[] = [];
+    await pubsub.subscribe('PRESENCE_CHANGES:t1:doc:1', payload => received.push(payload));
+    const change = { presenceChanged: { topicId: 'doc:1', userId: 'u1', type: 'JOIN' } };
+
+    await pubsub.publish('PRESENCE_CHANGES:t1:doc:1', change);
+    await pubsub.publish('PRESENCE_CHANGES:t1:doc:1', change);
+
+    expect(received).toHaveLength(2);
+  });
+
+  test('should stop delivering after unsubscribe', async () => {
+    const received: unknown[] = [];
+    const id = await pubsub.subscribe('TOPIC_EVENTS:t1:doc:1', payload => received.push(payload));
+    pubsub.unsubscribe(id);
+
+    await pubsub.publish('TOPIC_EVENTS:t1:doc:1', { topicEvents: { id: 'e2' } });
+    expect(received).toHaveLength(0);
+  });
+});
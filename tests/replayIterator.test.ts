@@ -0,0 +1,118 @@
+const mockReadEventPage = jest.fn();
+const mockGetLatestSeq = jest.fn();
+
+jest.mock('../src/redis/topicManager', () => ({
+  redisTopicManager: { readEventPage: mockReadEventPage, getLatestSeq: mockGetLatestSeq },
+}));
+
+import { ReplayEventIterator } from '../src/graphql/replayIterator';
+import { EventEnvelope } from '../src/types';
+
+type Payload = { topicEvents: EventEnvelope };
+
+function event(seq: number, type = 'op'): EventEnvelope {
+  return { id: `e${seq}`, topicId: 'doc:1', type, data: {}, seq, ts: '', tenantId: 't1', senderId: 'u1' };
+}
+
+function page(events: EventEnvelope[], hasMore = false) {
+  return { entries: events.map(e => ({ streamId: `${e.seq}-0`, event: e })), hasMore };
+}
+
+// Live iterator holding what was published while the replay ran
+function liveSource(events: EventEnvelope[]) {
+  const queued = [...events];
+  return {
+    returned: false,
+    next: async (): Promise<IteratorResult<Payload>> => {
+      const next = queued.shift();
+      return next ? { value: { topicEvents: next }, done: false } : { value: undefined, done: true };
+    },
+    async return(): Promise<IteratorResult<Payload>> {
+      this.returned = true;
+      return { value: undefined, done: true };
+    },
+  };
+}
+
+async function drain(iterator: ReplayEventIterator): Promise<EventEnvelope[]> {
+  const events: EventEnvelope[] = [];
+  for (let result = await iterator.next(); !result.done; result = await iterator.next()) {
+    events.push(result.value.topicEvents);
+  }
+  return events;
+}
+
+describe('Replay Event Iterator Tests', () => {
+  const options = { tenantId: 't1', topicId: 'doc:1', fromSeq: 3 };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  test('should replay the backlog then switch to live events without duplicates', async () => {
+    mockReadEventPage.mockResolvedValue(page([event(3), event(4)]));
+    mockGetLatestSeq.mockResolvedValue(4);
+    const iterator = new ReplayEventIterator(liveSource([event(2), event(4), event(5)]), options);
+
+    const events = await drain(iterator);
+    expect(mockReadEventPage).toHaveBeenCalledWith('t1', 'doc:1', {
+      limit: 1000, direction: 'forward', afterSeq: 2, includeExpired: true,
+    });
+    expect(events.map(e => e.seq)).toEqual([3, 4, 5]);
+  });
+
+  test('should page through a backlog longer than one read', async () => {
+    mockReadEventPage
+      .mockResolvedValueOnce(page([event(3), event(4)], true))
+      .mockResolvedValueOnce(page([event(5), event(6)], true))
+      .mockResolvedValueOnce(page([event(7)]));
+    mockGetLatestSeq.mockResolvedValue(7);
+    const iterator = new ReplayEventIterator(liveSource([event(8)]), options);
+
+    expect((await drain(iterator)).map(e => e.seq)).toEqual([3, 4, 5, 6, 7, 8]);
+    expect(mockReadEventPage).toHaveBeenCalledTimes(3);
+    expect(mockReadEventPage.mock.calls[1][2]).toMatchObject({ afterId: '4-0' });
+    expect(mockReadEventPage.mock.calls[2][2]).toMatchObject({ afterId: '6-0' });
+  });
+
+  test('should stop paging at the seq that was latest when the replay started', async () => {
+    mockReadEventPage.mockResolvedValueOnce(page([event(3), event(4)], true));
+    mockGetLatestSeq.mockResolvedValue(4);
+    const iterator = new ReplayEventIterator(liveSource([event(5)]), options);
+
+    expect((await drain(iterator)).map(e => e.seq)).toEqual([3, 4, 5]);
+    expect(mockReadEventPage).toHaveBeenCalledTimes(1);
+  });
+
+  test('should send a gap status when the requested seq was trimmed', async () => {
+    mockReadEventPage.mockResolvedValue(page([event(7), event(8)]));
+    mockGetLatestSeq.mockResolvedValue(8);
+    const iterator = new ReplayEventIterator(liveSource([]), options);
+
+    const [gap, ...rest] = await drain(iterator);
+    expect(gap!.type).toBe('status');
+    expect(gap!.data).toEqual({ code: 'GAP', fromSeq: 3, toSeq: 6 });
+    expect(rest.map(e => e.seq)).toEqual([7, 8]);
+  });
+
+  test('should not report a gap when nothing was published past the requested seq', async () => {
+    mockReadEventPage.mockResolvedValue(page([]));
+    mockGetLatestSeq.mockResolvedValue(2);
+    const iterator = new ReplayEventIterator(liveSource([event(3)]), options);
+
+    expect((await drain(iterator)).map(e => e.seq)).toEqual([3]);
+  });
+
+  test('should filter the backlog and skip expired events', async () => {
+    const expired = { ...event(4), expiresAt: new Date(Date.now() - 1000).toISOString() };
+    mockReadEventPage.mockResolvedValue(page([event(3, 'cursor'), expired, event(5)]));
+    mockGetLatestSeq.mockResolvedValue(5);
+    const live = liveSource([event(4)]);
+    const iterator = new ReplayEventIterator(live, { ...options, accept: e => e.type === 'op' });
+
+    // Seq 4 was replayed (and skipped as expired), so its live copy is not delivered either
+    expect((await drain(iterator)).map(e => e.seq)).toEqual([5]);
+    await iterator.return();
+    expect(live.returned).toBe(true);
+  });
+});
@@ -0,0 +1,187 @@
+const mockPublishEvent = jest.fn();
+const mockPublishEvents = jest.fn();
+const mockVerifyToken = jest.fn();
+const mockCheckTopicAccess = jest.fn();
+const mockCheckUserRateLimit = jest.fn();
+const mockReadFromSeq = jest.fn();
+
+jest.mock('../src/graphql/resolvers', () => ({
+  resolvers: { Mutation: { publishEvent: mockPublishEvent, publishEvents: mockPublishEvents } },
+}));
+
+jest.mock('../src/gateway/auth', () => ({
+  firebaseAuth: { verifyToken: mockVerifyToken, checkTopicAccess: mockCheckTopicAccess },
+}));
+
+jest.mock('../src/redis/rateLimiter', () => ({
+  rateLimiter: { checkUserRateLimit: mockCheckUserRateLimit },
+}));
+
+jest.mock('../src/redis/topicManager', () => ({
+  redisTopicManager: { readFromSeq: mockReadFromSeq },
+}));
+
+import express from 'express';
+import request from 'supertest';
+import { createEventsRouter, statusForPublishError } from '../src/rest/events';
+import { negotiateEncoding, rateLimitHeaders } from '../src/rest/middleware';
+import { MSGPACK_MEDIA_TYPES, decodeMsgpack, encodeMsgpack } from '../src/utils/encoding';
+
+const user = { userId: 'u1', tenantId: 't1', roles: [] };
+
+function app() {
+  const server = express();
+  server.use(express.json());
+  server.use('/v1', express.raw({ type: MSGPACK_MEDIA_TYPES }), negotiateEncoding);
+  server.use('/v1', createEventsRouter());
+  return server;
+}
+
+describe('REST Events Tests', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockVerifyToken.mockResolvedValue(user);
+  });
+
+  test('should require a bearer token', async () => {
+    mockVerifyToken.mockResolvedValue(null);
+    const res = await request(app()).post('/v1/topics/doc:1/events').send({ type: 'op', data: {} });
+    expect(res.status).toBe(401);
+    expect(mockPublishEvent).not.toHaveBeenCalled();
+  });
+
+  test('should publish a single event through the resolver with rate limit headers', async () => {
+    mockPublishEvent.mockImplementation(async (_: unknown, __: unknown, context: any) => {
+      context.rateLimits.push({ allowed: true, remaining: 99, resetTime: Date.now() + 30000, limit: 100 });
+      context.rateLimits.push({ allowed: true, remaining: 5, resetTime: Date.now() + 10000, limit: 1000 });
+      return { success: true, eventId: 'e1', seq: 7, duplicate: false, scheduled: false };
+    });
+
+    const res = await request(app())
+      .post('/v1/topics/doc:1/events')
+      .set('Authorization', 'Bearer token')
+      .send({ type: 'op', data: { n: 1 } });
+
+    expect(res.status).toBe(201);
+    expect(res.body.seq).toBe(7);
+    expect(mockPublishEvent.mock.calls[0][1]).toEqual({ input: { topicId: 'doc:1', type: 'op', data: { n: 1 } } });
+    expect(res.headers['ratelimit-limit']).toBe('1000');
+    expect(res.headers['ratelimit-remaining']).toBe('5');
+    expect(Number(res.headers['ratelimit-reset'])).toBeLessThanOrEqual(10);
+  });
+
+  test('should publish arrays as a batch and reject events for another topic', async () => {
+    mockPublishEvents.mockResolvedValue({ success: true, results: [] });
+    const ok = await request(app())
+      .post('/v1/topics/doc:1/events')
+      .set('Authorization', 'Bearer token')
+      .send([{ type: 'op', data: {} }, { type: 'op', data: {} }]);
+    expect(ok.status).toBe(201);
+    expect(mockPublishEvents.mock.calls[0][1].inputs).toHaveLength(2);
+
+    const mismatched = await request(app())
+      .post('/v1/topics/doc:1/events')
+      .set('Authorization', 'Bearer token')
+      .send([{ topicId: 'doc:2', type: 'op', data: {} }]);
+    expect(mismatched.status).toBe(400);
+  });
+
+  test('should reject schema failures with 422 for single events and batches', async () => {
+    const fieldErrors = [{ path: '/n', message: 'must be number' }];
+    mockPublishEvent.mockResolvedValue({ success: false, eventId: '', message: 'Payload does not match schema', errors: fieldErrors });
+    mockPublishEvents.mockResolvedValue({
+      success: false,
+      message: 'Invalid input: batch rejected, no events were published',
+      results: [
+        { index: 0, success: false, message: 'Not published: batch rejected', errors: null },
+        { index: 1, success: false, message: 'Payload does not match schema', errors: fieldErrors },
+      ],
+    });
+
+    const single = await request(app()).post('/v1/topics/doc:1/events').set('Authorization', 'Bearer token').send({ type: 'op', data: {} });
+    const batch = await request(app()).post('/v1/topics/doc:1/events').set('Authorization', 'Bearer token').send([{ type: 'op', data: {} }, { type: 'op', data: {} }]);
+    expect(single.status).toBe(422);
+    expect(batch.status).toBe(422);
+
+    mockPublishEvents.mockResolvedValue({
+      success: false,
+      message: 'Invalid input: batch rejected, no events were published',
+      results: [{ index: 0, success: false, message: 'Invalid input: "type" is required' }],
+    });
+    const invalid = await request(app()).post('/v1/topics/doc:1/events').set('Authorization', 'Bearer token').send([{ data: {} }]);
+    expect(invalid.status).toBe(400);
+  });
+
+  test('should map resolver failures to status codes', async () => {
+    mockPublishEvent.mockImplementation(async (_: unknown, __: unknown, context: any) => {
+      context.rateLimits.push({ allowed: false, remaining: 0, resetTime: Date.now() + 20000, limit: 100 });
+      return { success: false, eventId: '', message: 'Rate limit exceeded. Try again in 20 seconds' };
+    });
+
+    const res = await request(app())
+      .post('/v1/topics/doc:1/events')
+      .set('Authorization', 'Bearer token')
+      .send({ type: 'op', data: {} });
+
+    expect(res.status).toBe(429);
+    expect(res.headers['retry-after']).toBeDefined();
+    expect(statusForPublishError('Access denied to topic')).toBe(403);
+    expect(statusForPublishError('Invalid input: "type" is required')).toBe(400);
+    expect(statusForPublishError('Topic is archived; publishing is disabled')).toBe(409);
+  });
+
+  test('should read events from a seq after the ACL check', async () => {
+    mockCheckUserRateLimit.mockResolvedValue({ allowed: true, remaining: 10, resetTime: Date.now() + 60000, limit: 100 });
+    mockCheckTopicAccess.mockResolvedValue(true);
+    mockReadFromSeq.mockResolvedValue([{ id: 'e5', seq: 5 }, { id: 'e6', seq: 6 }, { id: 'e7', seq: 7 }]);
+
+    const res = await request(app())
+      .get('/v1/topics/doc:1/events?fromSeq=5&limit=2')
+      .set('Authorization', 'Bearer token');
+
+    expect(res.status).toBe(200);
+    expect(mockCheckTopicAccess).toHaveBeenCalledWith('u1', 'doc:1', 'read', []);
+    expect(mockReadFromSeq).toHaveBeenCalledWith('t1', 'doc:1', 5);
+    expect(res.body.events.map((e: { seq: number }) => e.seq)).toEqual([5, 6]);
+    expect(res.body.nextSeq).toBe(7);
+    expect(res.headers['ratelimit-remaining']).toBe('10');
+  });
+
+  test('should reject reads without access', async () => {
+    mockCheckUserRateLimit.mockResolvedValue({ allowed: true, remaining: 10, resetTime: Date.now() + 60000, limit: 100 });
+    mockCheckTopicAccess.mockResolvedValue(false);
+
+    const res = await request(app()).get('/v1/topics/doc:1/events?fromSeq=1').set('Authorization', 'Bearer token');
+    expect(res.status).toBe(403);
+    expect(rateLimitHeaders([])).toEqual({});
+  });
+
+  test('should accept and return MessagePack when negotiated', async () => {
+    mockPublishEvent.mockResolvedValue({ success: true, eventId: 'e1', seq: 8, duplicate: false, scheduled: false });
+
+    const res = await request(app())
+      .post('/v1/topics/doc:1/events')
+      .set('Authorization', 'Bearer token')
+      .set('Content-Type', 'application/msgpack')
+      .set('Accept', 'application/msgpack')
+      .send(encodeMsgpack({ type: 'telemetry', data: { samples: [1, 2, 3] } }))
+      .buffer(true)
+      .parse((response, callback) => {
+        const chunks: Buffer[] = [];
+        response.on('data', (chunk: Buffer) => chunks.push(chunk));
+        response.on('end', () => callback(null, Buffer.concat(chunks)));
+      });
+
+    expect(res.status).toBe(201);
+    expect(res.headers['content-type']).toMatch(/^application\/msgpack/);
+    expect(decodeMsgpack(res.body)).toMatchObject({ success: true, seq: 8 });
+    expect(mockPublishEvent.mock.calls[0][1].input.data).toEqual({ samples: [1, 2, 3] });
+
+    const broken = await request(app())
+      .post('/v1/topics/doc:1/events')
+      .set('Authorization', 'Bearer token')
+      .set('Content-Type', 'application/msgpack')
+      .send(Buffer.from([0xc1]));
+    expect(broken.status).toBe(400);
+  });
+});
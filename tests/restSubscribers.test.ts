@@ -0,0 +1,122 @@
+const mockVerifyToken = jest.fn();
+const mockCheckTopicAccess = jest.fn();
+const mockCheckUserRateLimit = jest.fn();
+const mockAddSubscriber = jest.fn();
+const mockFindSubscriber = jest.fn();
+const mockTouchSubscriber = jest.fn();
+const mockHasSubscriberEvents = jest.fn();
+const mockGetSubscriberEvents = jest.fn();
+const mockRemoveSubscriber = jest.fn();
+
+jest.mock('../src/gateway/auth', () => ({
+  firebaseAuth: { verifyToken: mockVerifyToken, checkTopicAccess: mockCheckTopicAccess },
+}));
+
+jest.mock('../src/redis/rateLimiter', () => ({
+  rateLimiter: { checkUserRateLimit: mockCheckUserRateLimit },
+}));
+
+jest.mock('../src/redis/topicManager', () => ({
+  redisTopicManager: {
+    addSubscriber: mockAddSubscriber,
+    findSubscriber: mockFindSubscriber,
+    touchSubscriber: mockTouchSubscriber,
+    hasSubscriberEvents: mockHasSubscriberEvents,
+    getSubscriberEvents: mockGetSubscriberEvents,
+    removeSubscriber: mockRemoveSubscriber,
+  },
+}));
+
+import express from 'express';
+import request from 'supertest';
+import { config } from '../src/config';
+import { createSubscribersRouter, parseWait } from '../src/rest/subscribers';
+
+const user = { userId: 'u1', tenantId: 't1', roles: [] };
+const subscriber = { id: 's1', topicId: 'doc:1', userId: 'u1', queue: [], lastSeen: 0, isActive: true };
+
+function app() {
+  const server = express();
+  server.use(express.json());
+  server.use('/v1', createSubscribersRouter());
+  return server;
+}
+
+describe('REST Subscribers Tests', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockVerifyToken.mockResolvedValue(user);
+    mockCheckTopicAccess.mockResolvedValue(true);
+    mockCheckUserRateLimit.mockResolvedValue({ allowed: true, remaining: 99, resetTime: Date.now() + 60000, limit: 100 });
+    mockFindSubscriber.mockResolvedValue(subscriber);
+  });
+
+  test('should parse wait within the configured maximum', () => {
+    expect(parseWait(undefined)).toBe(0);
+    expect(parseWait('5')).toBe(5);
+    expect(parseWait(String(config.longPoll.maxWaitSeconds + 1))).toBeNull();
+    expect(parseWait('-1')).toBeNull();
+    expect(parseWait('1.5')).toBeNull();
+  });
+
+  test('should register a subscriber after checking subscribe access', async () => {
+    const res = await request(app()).post('/v1/subscribers').set('Authorization', 'Bearer token').send({ topicId: 'doc:1' });
+    expect(res.status).toBe(201);
+    expect(res.body.topicId).toBe('doc:1');
+    expect(mockCheckTopicAccess).toHaveBeenCalledWith('u1', 'doc:1', 'subscribe', []);
+    expect(mockAddSubscriber).toHaveBeenCalledWith('t1', 'doc:1', res.body.id, 'u1', config.longPoll.subscriberTtlMs);
+
+    mockCheckTopicAccess.mockResolvedValue(false);
+    const denied = await request(app()).post('/v1/subscribers').set('Authorization', 'Bearer token').send({ topicId: 'doc:1' });
+    expect(denied.status).toBe(403);
+  });
+
+  test('should drain queued events as soon as they arrive', async () => {
+    const events = [{ id: 'e1', seq: 1 }];
+    mockHasSubscriberEvents.mockResolvedValueOnce(false).mockResolvedValueOnce(true);
+    mockGetSubscriberEvents.mockResolvedValue(events);
+
+    const res = await request(app()).get('/v1/subscribers/s1/events?wait=5').set('Authorization', 'Bearer token');
+
+    expect(res.status).toBe(200);
+    expect(res.body).toEqual({ subscriberId: 's1', topicId: 'doc:1', events });
+    expect(mockTouchSubscriber).toHaveBeenCalledWith('t1', 's1');
+    expect(mockGetSubscriberEvents).toHaveBeenCalledWith('t1', 'doc:1', 's1');
+    expect(res.headers['ratelimit-limit']).toBe('100');
+  });
+
+  test('should leave the queue alone once the client has hung up', async () => {
+    mockHasSubscriberEvents.mockResolvedValueOnce(false).mockResolvedValue(true);
+
+    await expect(
+      request(app()).get('/v1/subscribers/s1/events?wait=5').set('Authorization', 'Bearer token').timeout(100)
+    ).rejects.toThrow();
+    await new Promise(resolve => setTimeout(resolve, config.longPoll.pollIntervalMs + 200));
+
+    expect(mockGetSubscriberEvents).not.toHaveBeenCalled();
+  });
+
+  test('should return an empty batch when nothing arrives in time', async () => {
+    mockHasSubscriberEvents.mockResolvedValue(false);
+    const res = await request(app()).get('/v1/subscribers/s1/events?wait=0').set('Authorization', 'Bearer token');
+    expect(res.status).toBe(200);
+    expect(res.body.events).toEqual([]);
+    expect(mockGetSubscriberEvents).not.toHaveBeenCalled();
+  });
+
+  test('should hide subscribers registered by other users', async () => {
+    mockFindSubscriber.mockResolvedValue({ ...subscriber, userId: 'someone-else' });
+    const poll = await request(app()).get('/v1/subscribers/s1/events').set('Authorization', 'Bearer token');
+    expect(poll.status).toBe(404);
+
+    const removal = await request(app()).delete('/v1/subscribers/s1').set('Authorization', 'Bearer token');
+    expect(removal.status).toBe(404);
+    expect(mockRemoveSubscriber).not.toHaveBeenCalled();
+  });
+
+  test('should reject an out of range wait', async () => {
+    const res = await request(app()).get('/v1/subscribers/s1/events?wait=3600').set('Authorization', 'Bearer token');
+    expect(res.status).toBe(400);
+    expect(mockFindSubscriber).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,58 @@
+import { canPerform, resolveTopicRole, rolesFromClaims, TopicRoleGrants } from '../src/utils/roles';
+
+const privateTopic: TopicRoleGrants = {
+  isPublic: false,
+  allowedUsers: ['member'],
+  allowedRoles: [],
+};
+
+describe('Topic Role Tests', () => {
+  test('should give public visitors and listed users the default member role', () => {
+    expect(resolveTopicRole({ ...privateTopic, isPublic: true }, 'anyone', [])).toBe('editor');
+    expect(resolveTopicRole(privateTopic, 'member', [])).toBe('editor');
+    expect(resolveTopicRole(privateTopic, 'stranger', [])).toBeNull();
+  });
+
+  test('should honour per-user and public role overrides', () => {
+    const grants: TopicRoleGrants = {
+      ...privateTopic,
+      isPublic: true,
+      publicRole: 'viewer',
+      userRoles: { member: 'viewer', owner: 'admin' },
+    };
+
+    expect(resolveTopicRole(grants, 'anyone', [])).toBe('viewer');
+    expect(resolveTopicRole(grants, 'member', [])).toBe('viewer');
+    expect(resolveTopicRole(grants, 'owner', [])).toBe('admin');
+  });
+
+  test('should admit higher roles through the hierarchy', () => {
+    const grants: TopicRoleGrants = { ...privateTopic, allowedRoles: ['editor', 'support'] };
+
+    expect(resolveTopicRole(grants, 'u', ['admin'])).toBe('admin');
+    expect(resolveTopicRole(grants, 'u', ['editor'])).toBe('editor');
+    expect(resolveTopicRole(grants, 'u', ['viewer'])).toBeNull();
+    expect(resolveTopicRole(grants, 'u', ['support'])).toBe('viewer');
+  });
+
+  test('should gate each operation separately', () => {
+    expect(canPerform('viewer', 'read')).toBe(true);
+    expect(canPerform('viewer', 'subscribe')).toBe(true);
+    expect(canPerform('viewer', 'publish')).toBe(false);
+    expect(canPerform('editor', 'publish')).toBe(true);
+    expect(canPerform('editor', 'manage')).toBe(false);
+    expect(canPerform('admin', 'manage')).toBe(true);
+    expect(canPerform(null, 'read')).toBe(false);
+  });
+
+  test('should apply per-topic operation requirements', () => {
+    expect(canPerform('viewer', 'read', { read: 'editor' })).toBe(false);
+    expect(canPerform('viewer', 'publish', { publish: 'viewer' })).toBe(true);
+  });
+
+  test('should read roles from custom claims', () => {
+    expect(rolesFromClaims({ roles: ['editor', 42] })).toEqual(['editor']);
+    expect(rolesFromClaims({ role: 'viewer' })).toEqual(['viewer']);
+    expect(rolesFromClaims({})).toEqual([]);
+  });
+});
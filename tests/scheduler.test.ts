@@ -0,0 +1,72 @@
+// Mock Redis connection first
+const mockRedis = {
+  zRangeByScore: jest.fn(),
+  zRem: jest.fn(),
+  zAdd: jest.fn(),
+  hIncrBy: jest.fn(),
+  hDel: jest.fn(),
+};
+const mockPublishEvent = jest.fn();
+
+jest.mock('../src/redis/connection', () => ({
+  redisConnection: {
+    getClient: () => mockRedis,
+  }
+}));
+
+jest.mock('../src/redis/topicManager', () => ({
+  redisTopicManager: { isTopicArchived: async () => false },
+}));
+
+jest.mock('../src/redis/eventDistributor', () => ({
+  eventDistributor: { publishEvent: mockPublishEvent },
+}));
+
+import { EventScheduler } from '../src/redis/scheduler';
+import { config } from '../src/config';
+
+const member = JSON.stringify({
+  id: 'e1', topicId: 'doc:1', type: 'op', data: {}, seq: 0, ts: '', tenantId: 't1', senderId: 'u1', deliverAt: new Date(0).toISOString(),
+});
+
+describe('Event Scheduler Tests', () => {
+  let scheduler: EventScheduler;
+
+  beforeEach(() => {
+    scheduler = new EventScheduler();
+    jest.clearAllMocks();
+    mockRedis.zRangeByScore.mockResolvedValue([member]);
+    mockRedis.zRem.mockResolvedValue(1);
+  });
+
+  test('should put an event back with a backoff when its publish fails', async () => {
+    mockPublishEvent.mockRejectedValue(new Error('Redis unavailable'));
+    mockRedis.hIncrBy.mockResolvedValue(2);
+    const before = Date.now();
+
+    await scheduler.releaseDue();
+
+    expect(mockRedis.zAdd).toHaveBeenCalledWith(expect.stringMatching(/:scheduled$/), { score: expect.any(Number), value: member });
+    expect(mockRedis.zAdd.mock.calls[0][1].score).toBeGreaterThanOrEqual(before + config.scheduler.retryDelayMs * 2);
+  });
+
+  test('should drop an event after the last attempt fails', async () => {
+    mockPublishEvent.mockRejectedValue(new Error('Redis unavailable'));
+    mockRedis.hIncrBy.mockResolvedValue(config.scheduler.maxAttempts);
+
+    await scheduler.releaseDue();
+
+    expect(mockRedis.zAdd).not.toHaveBeenCalled();
+    expect(mockRedis.hDel).toHaveBeenCalledWith(expect.stringMatching(/:scheduled:attempts$/), 'e1');
+  });
+
+  test('should clear the attempt count once the event is published', async () => {
+    mockPublishEvent.mockResolvedValue(undefined);
+
+    await scheduler.releaseDue();
+
+    expect(mockPublishEvent).toHaveBeenCalledWith('doc:1', expect.objectContaining({ id: 'e1' }));
+    expect(mockRedis.hDel).toHaveBeenCalledWith(expect.stringMatching(/:scheduled:attempts$/), 'e1');
+    expect(mockRedis.zAdd).not.toHaveBeenCalled();
+  });
+});
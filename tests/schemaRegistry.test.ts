@@ -0,0 +1,68 @@
+// Mock Redis connection first
+const mockRedis = {
+  hmGet: jest.fn(),
+};
+
+jest.mock('../src/redis/connection', () => ({
+  redisConnection: {
+    getClient: () => mockRedis,
+  }
+}));
+
+import { SchemaRegistry, SchemaValidationError } from '../src/redis/schemaRegistry';
+
+const opSchema = {
+  type: 'object',
+  required: ['op', 'pos'],
+  properties: {
+    op: { type: 'string', enum: ['insert', 'delete'] },
+    pos: { type: 'integer', minimum: 0 },
+  },
+  additionalProperties: false,
+};
+
+function stored(version: number, schema: Record<string, any>): string {
+  return JSON.stringify({ topicId: 'doc:1', eventType: 'op', version, schema, createdBy: 'u1', createdAt: 0 });
+}
+
+describe('Schema Registry Tests', () => {
+  let registry: SchemaRegistry;
+
+  beforeEach(() => {
+    registry = new SchemaRegistry();
+    jest.clearAllMocks();
+  });
+
+  test('should reject schemas that do not compile', () => {
+    expect(registry.checkSchema(opSchema)).toEqual([]);
+    expect(registry.checkSchema({ type: 'nope' }).length).toBeGreaterThan(0);
+    expect(registry.checkSchema({ $ref: 'https://example.com/remote.json' }).length).toBeGreaterThan(0);
+  });
+
+  test('should look up the most specific scope first', async () => {
+    mockRedis.hmGet.mockResolvedValue([null, null, null]);
+
+    await expect(registry.validate('t1', 'doc:1', 'custom:edit', {})).resolves.toBeNull();
+    expect(mockRedis.hmGet).toHaveBeenCalledWith(expect.any(String), ['doc:1|custom:edit', 'doc:1|*', '*|custom:edit']);
+  });
+
+  test('should return the version of a matching schema', async () => {
+    mockRedis.hmGet.mockResolvedValue([null, stored(3, opSchema), null]);
+
+    await expect(registry.validate('t1', 'doc:1', 'op', { op: 'insert', pos: 4 })).resolves.toBe(3);
+  });
+
+  test('should report field-level errors', async () => {
+    mockRedis.hmGet.mockResolvedValue([stored(2, opSchema), null, null]);
+
+    const error = await registry.validate('t1', 'doc:1', 'op', { op: 'move', extra: true }).catch(e => e);
+
+    expect(error).toBeInstanceOf(SchemaValidationError);
+    expect(error.message).toContain('schema v2');
+    expect(error.fieldErrors).toEqual(expect.arrayContaining([
+      expect.objectContaining({ path: '/pos' }),
+      expect.objectContaining({ path: '/extra' }),
+      expect.objectContaining({ path: '/op' }),
+    ]));
+  });
+});
@@ -0,0 +1,159 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+
+const snapshots = new Map<string, Record<string, string>>();
+
+const mockRedis = {
+  hSet: jest.fn(async (key: string, fields: Record<string, string>) => {
+    snapshots.set(key, { ...fields });
+    return Object.keys(fields).length;
+  }),
+  hGetAll: jest.fn(async (key: string) => ({ ...snapshots.get(key) })),
+  del: jest.fn(async (key: string) => (snapshots.delete(key) ? 1 : 0)),
+};
+
+const mockReadFromSeq = jest.fn();
+const mockGetLatestSeq = jest.fn();
+
+jest.mock('../src/redis/connection', () => ({
+  redisConnection: {
+    getClient: () => mockRedis,
+  }
+}));
+
+jest.mock('../src/redis/topicManager', () => ({
+  redisTopicManager: { readFromSeq: mockReadFromSeq, getLatestSeq: mockGetLatestSeq },
+}));
+
+import { SnapshotStore } from '../src/redis/snapshotStore';
+import { config } from '../src/config';
+import { EventEnvelope, TopicSnapshot } from '../src/types';
+
+function event(seq: number): EventEnvelope {
+  return { id: `e${seq}`, topicId: 'doc:1', type: 'op', data: { seq }, seq, ts: '', tenantId: 't1', senderId: 'u1' };
+}
+
+function snapshotAt(seq: number): TopicSnapshot {
+  return { topicId: 'doc:1', tenantId: 't1', seq, ts: '2024-01-01T00:00:00.000Z', data: { text: `v${seq}` }, createdBy: 'u1' };
+}
+
+describe('Snapshot Store Tests', () => {
+  let store: SnapshotStore;
+
+  beforeEach(() => {
+    snapshots.clear();
+    jest.clearAllMocks();
+    store = new SnapshotStore();
+  });
+
+  test('should return the snapshot and the delta after its seq', async () => {
+    await store.save(snapshotAt(10));
+    mockReadFromSeq.mockResolvedValue([event(11), event(12)]);
+    mockGetLatestSeq.mockResolvedValue(12);
+
+    const result = await store.resync('t1', 'doc:1');
+
+    expect(mockReadFromSeq).toHaveBeenCalledWith('t1', 'doc:1', 11, 1000, true);
+    expect(result.snapshot).toEqual(snapshotAt(10));
+    expect(result.events.map(e => e.seq)).toEqual([11, 12]);
+    expect(result).toMatchObject({ latestSeq: 12, complete: true });
+  });
+
+  test('should count expired events toward a complete delta without returning them', async () => {
+    await store.save(snapshotAt(10));
+    const expired = { ...event(11), expiresAt: new Date(Date.now() - 1000).toISOString() };
+    mockReadFromSeq.mockResolvedValue([expired, event(12)]);
+    mockGetLatestSeq.mockResolvedValue(12);
+
+    const result = await store.resync('t1', 'doc:1');
+
+    expect(result.events.map(e => e.seq)).toEqual([12]);
+    expect(result.complete).toBe(true);
+  });
+
+  test('should mark the resync incomplete when the snapshot is older than retention', async () => {
+    await store.save(snapshotAt(10));
+    mockReadFromSeq.mockResolvedValue([event(20), event(21)]);
+    mockGetLatestSeq.mockResolvedValue(21);
+
+    const result = await store.resync('t1', 'doc:1');
+
+    expect(result.snapshot?.seq).toBe(10);
+    expect(result.events.map(e => e.seq)).toEqual([20, 21]);
+    expect(result.complete).toBe(false);
+  });
+
+  test('should be complete when nothing was published after the snapshot', async () => {
+    await store.save(snapshotAt(10));
+    mockReadFromSeq.mockResolvedValue([]);
+    mockGetLatestSeq.mockResolvedValue(10);
+
+    await expect(store.resync('t1', 'doc:1')).resolves.toMatchObject({ events: [], latestSeq: 10, complete: true });
+  });
+
+  test('should return the whole stream when there is no snapshot', async () => {
+    mockReadFromSeq.mockResolvedValue([event(1), event(2)]);
+    mockGetLatestSeq.mockResolvedValue(2);
+
+    const result = await store.resync('t1', 'doc:1');
+
+    expect(mockReadFromSeq).toHaveBeenCalledWith('t1', 'doc:1', 1, 1000, true);
+    expect(result.snapshot).toBeNull();
+    expect(result.events.map(e => e.seq)).toEqual([1, 2]);
+    expect(result.complete).toBe(true);
+  });
+
+  test('should report a trimmed stream without a snapshot as incomplete', async () => {
+    mockReadFromSeq.mockResolvedValue([event(5)]);
+    mockGetLatestSeq.mockResolvedValue(5);
+
+    await expect(store.resync('t1', 'doc:1')).resolves.toMatchObject({ snapshot: null, complete: false });
+  });
+
+  describe('file backend', () => {
+    const saved = { ...config.snapshot };
+    let dir: string;
+
+    beforeEach(async () => {
+      dir = await fs.mkdtemp(path.join(os.tmpdir(), 'snapshots-'));
+      config.snapshot.backend = 'file';
+      config.snapshot.fileDir = dir;
+    });
+
+    afterEach(async () => {
+      Object.assign(config.snapshot, saved);
+      await fs.rm(dir, { recursive: true, force: true });
+    });
+
+    test('should store snapshots on disk instead of in Redis', async () => {
+      await store.save(snapshotAt(10));
+
+      expect(mockRedis.hSet).not.toHaveBeenCalled();
+      await expect(store.getLatest('t1', 'doc:1')).resolves.toEqual(snapshotAt(10));
+      const files = await fs.readdir(path.join(dir, 't1'));
+      expect(files).toEqual([`${encodeURIComponent('doc:1')}.json`]);
+    });
+
+    test('should return null for a topic without a snapshot and after delete', async () => {
+      await expect(store.getLatest('t1', 'doc:1')).resolves.toBeNull();
+
+      await store.save(snapshotAt(10));
+      await store.delete('t1', 'doc:1');
+      await expect(store.getLatest('t1', 'doc:1')).resolves.toBeNull();
+    });
+
+    test('should resync from a file-backed snapshot', async () => {
+      await store.save(snapshotAt(10));
+      mockReadFromSeq.mockResolvedValue([event(11)]);
+      mockGetLatestSeq.mockResolvedValue(11);
+
+      const result = await store.resync('t1', 'doc:1');
+
+      expect(mockRedis.hGetAll).not.toHaveBeenCalled();
+      expect(result.snapshot).toEqual(snapshotAt(10));
+      expect(result.events.map(e => e.seq)).toEqual([11]);
+      expect(result.complete).toBe(true);
+    });
+  });
+});
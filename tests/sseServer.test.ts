@@ -0,0 +1,204 @@
+const mockVerifyToken = jest.fn();
+const mockSubscribe = jest.fn();
+
+jest.mock('../src/gateway/auth', () => ({
+  firebaseAuth: { verifyToken: mockVerifyToken },
+}));
+
+jest.mock('../src/graphql/resolvers', () => ({
+  resolvers: {
+    Subscription: {
+      topicEvents: {
+        resolve: (payload: { topicEvents: unknown }) => payload.topicEvents,
+        subscribe: mockSubscribe,
+      },
+    },
+  },
+}));
+
+import express from 'express';
+import request from 'supertest';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { SseSubscriptionServer } from '../src/gateway/sseServer';
+
+function event(seq: number, type = 'op') {
+  return { id: `e${seq}`, topicId: 'doc:1', type, data: {}, seq, ts: '', tenantId: 't1', senderId: 'u1' };
+}
+
+function app() {
+  const server = express();
+  server.use(express.json());
+  new SseSubscriptionServer(server);
+  return server;
+}
+
+// Collects the raw event stream until the server ends it
+function stream(req: request.Test): Promise<{ status: number; body: string }> {
+  return new Promise((resolve, reject) => {
+    req
+      .buffer(true)
+      .parse((res, callback) => {
+        let body = '';
+        res.on('data', (chunk: Buffer) => { body += chunk.toString(); });
+        res.on('end', () => callback(null, body));
+      })
+      .end((error, res) => (error ? reject(error) : resolve({ status: res.status, body: res.body })));
+  });
+}
+
+const subscription = { query: 'subscription { topicEvents(topicId: "doc:1") { seq type } }' };
+
+describe('SSE Subscription Server Tests', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockVerifyToken.mockResolvedValue({ userId: 'u1', tenantId: 't1', roles: [] });
+  });
+
+  test('should require a bearer token', async () => {
+    mockVerifyToken.mockResolvedValue(null);
+    const res = await request(app()).post('/graphql/stream').send(subscription);
+    expect(res.status).toBe(401);
+  });
+
+  test('should reject invalid operations before streaming', async () => {
+    const res = await request(app())
+      .post('/graphql/stream')
+      .set('Authorization', 'Bearer token')
+      .send({ query: 'subscription { nope }' });
+    expect(res.status).toBe(400);
+    expect(res.body.errors.length).toBeGreaterThan(0);
+  });
+
+  test('should stream events with their seq as the event id, then complete', async () => {
+    mockSubscribe.mockImplementation(async function* () {
+      yield { topicEvents: event(4) };
+      yield { topicEvents: { ...event(0, 'status') } };
+      yield { topicEvents: event(5) };
+    });
+
+    const res = await stream(
+      request(app()).post('/graphql/stream').set('Authorization', 'Bearer token').send(subscription)
+    );
+
+    expect(res.status).toBe(200);
+    expect(res.body).toBe([
+      'id: 4\nevent: next\ndata: {"data":{"topicEvents":{"seq":4,"type":"op"}}}\n\n',
+      'event: next\ndata: {"data":{"topicEvents":{"seq":0,"type":"status"}}}\n\n',
+      'id: 5\nevent: next\ndata: {"data":{"topicEvents":{"seq":5,"type":"op"}}}\n\n',
+      'event: complete\ndata: \n\n',
+    ].join(''));
+  });
+
+  test('should resume after Last-Event-ID', async () => {
+    mockSubscribe.mockImplementation(async function* () {
+      yield { topicEvents: event(8) };
+    });
+
+    await stream(
+      request(app())
+        .get('/graphql/stream')
+        .query(subscription)
+        .set('Authorization', 'Bearer token')
+        .set('Last-Event-ID', '7')
+    );
+
+    const context = mockSubscribe.mock.calls[0][2];
+    expect(context.resumeAfterSeq).toBe(7);
+    expect(context.user.userId).toBe('u1');
+  });
+
+  test('should send subscribe errors as a result and complete', async () => {
+    mockSubscribe.mockRejectedValue(new Error('Failed to subscribe to topic'));
+
+    const res = await stream(
+      request(app()).post('/graphql/stream').set('Authorization', 'Bearer token').send(subscription)
+    );
+
+    expect(res.status).toBe(200);
+    expect(res.body).toContain('Failed to subscribe to topic');
+    expect(res.body).toContain('event: complete');
+  });
+
+  test('should end the subscription when the client aborts mid-stream', async () => {
+    const waiters: Array<(result: IteratorResult<unknown>) => void> = [];
+    const live = {
+      [Symbol.asyncIterator]() { return this; },
+      next: () => new Promise<IteratorResult<unknown>>(resolve => waiters.push(resolve)),
+      return: jest.fn(async () => {
+        waiters.splice(0).forEach(resolve => resolve({ value: undefined, done: true }));
+        return { value: undefined, done: true };
+      }),
+    };
+    mockSubscribe.mockResolvedValue(live);
+
+    const server = http.createServer(app());
+    await new Promise<void>(resolve => server.listen(0, resolve));
+    const body = JSON.stringify(subscription);
+    const req = http.request({
+      port: (server.address() as AddressInfo).port,
+      path: '/graphql/stream',
+      method: 'POST',
+      headers: { Authorization: 'Bearer token', 'Content-Type': 'application/json', 'Content-Length': Buffer.byteLength(body) },
+    });
+    req.on('error', () => undefined);
+
+    const first = new Promise<string>(resolve => {
+      req.on('response', res => res.once('data', (chunk: Buffer) => resolve(chunk.toString())));
+    });
+    req.end(body);
+    await new Promise<void>(resolve => {
+      const check = () => (waiters.length > 0 ? resolve() : setTimeout(check, 5));
+      check();
+    });
+    waiters.shift()!({ value: { topicEvents: event(1) }, done: false });
+    expect(await first).toContain('id: 1');
+
+    req.destroy();
+    await new Promise<void>(resolve => {
+      const check = () => (live.return.mock.calls.length > 0 ? resolve() : setTimeout(check, 5));
+      check();
+    });
+    expect(live.return).toHaveBeenCalled();
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  test('should end a subscription whose client left while it was being set up', async () => {
+    const live = {
+      [Symbol.asyncIterator]() { return this; },
+      next: () => new Promise<IteratorResult<unknown>>(() => undefined),
+      return: jest.fn(async () => ({ value: undefined, done: true })),
+    };
+    let finishSubscribe: () => void = () => undefined;
+    mockSubscribe.mockImplementation(() => new Promise(resolve => {
+      finishSubscribe = () => resolve(live);
+    }));
+
+    const server = http.createServer(app());
+    await new Promise<void>(resolve => server.listen(0, resolve));
+    const body = JSON.stringify(subscription);
+    const req = http.request({
+      port: (server.address() as AddressInfo).port,
+      path: '/graphql/stream',
+      method: 'POST',
+      headers: { Authorization: 'Bearer token', 'Content-Type': 'application/json', 'Content-Length': Buffer.byteLength(body) },
+    });
+    req.on('error', () => undefined);
+    await new Promise<void>(resolve => {
+      req.on('response', () => resolve());
+      req.end(body);
+    });
+
+    // Headers are out and the resolver is still subscribing when the client leaves
+    req.destroy();
+    await new Promise(resolve => setTimeout(resolve, 50));
+    finishSubscribe();
+    await new Promise<void>(resolve => {
+      const check = () => (live.return.mock.calls.length > 0 ? resolve() : setTimeout(check, 5));
+      check();
+    });
+
+    expect(live.return).toHaveBeenCalled();
+    await new Promise(resolve => server.close(resolve));
+  });
+});
@@ -0,0 +1,72 @@
+jest.mock('../src/gateway/auth', () => ({
+  firebaseAuth: { verifyToken: jest.fn() },
+}));
+
+jest.mock('../src/graphql/resolvers', () => ({
+  resolvers: {},
+}));
+
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+import WebSocket from 'ws';
+import { SubscriptionServer } from '../src/gateway/subscriptionServer';
+import { decodeMsgpack } from '../src/utils/encoding';
+
+describe('GraphQL WebSocket Server Tests', () => {
+  let server: Server;
+  let url: string;
+  const sockets: WebSocket[] = [];
+
+  beforeEach(async () => {
+    const subscriptions = new SubscriptionServer();
+    server = createServer();
+    server.on('upgrade', (req, socket, head) => subscriptions.handleUpgrade(req, socket, head));
+    await new Promise<void>(resolve => server.listen(0, resolve));
+    url = `ws://127.0.0.1:${(server.address() as AddressInfo).port}/graphql`;
+  });
+
+  afterEach(async () => {
+    sockets.splice(0).forEach(socket => socket.terminate());
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  async function init(payload: Record<string, unknown>): Promise<WebSocket> {
+    const socket = new WebSocket(url, 'graphql-transport-ws');
+    sockets.push(socket);
+    await new Promise(resolve => socket.once('open', resolve));
+    socket.send(JSON.stringify({ type: 'connection_init', payload }));
+    return socket;
+  }
+
+  test('should acknowledge in JSON text by default', async () => {
+    const socket = await init({ authorization: 'Bearer good' });
+    const [data, isBinary] = await new Promise<[WebSocket.RawData, boolean]>(resolve => {
+      socket.once('message', (message, binary) => resolve([message, binary]));
+    });
+    expect(isBinary).toBe(false);
+    expect(JSON.parse(data.toString())).toEqual({ type: 'connection_ack' });
+  });
+
+  test('should send MessagePack binary frames when the connection params ask for it', async () => {
+    const socket = await init({ authorization: 'Bearer good', encoding: 'msgpack' });
+    const [data, isBinary] = await new Promise<[WebSocket.RawData, boolean]>(resolve => {
+      socket.once('message', (message, binary) => resolve([message, binary]));
+    });
+    expect(isBinary).toBe(true);
+    expect(decodeMsgpack(data as Buffer)).toEqual({ type: 'connection_ack' });
+
+    // Client messages are still JSON text
+    socket.send(JSON.stringify({ type: 'ping' }));
+    const pong = await new Promise<WebSocket.RawData>(resolve => socket.once('message', resolve));
+    expect(decodeMsgpack(pong as Buffer)).toEqual({ type: 'pong' });
+  });
+
+  test('should close the connection on an unknown encoding', async () => {
+    const socket = await init({ encoding: 'xml' });
+    const [code, reason] = await new Promise<[number, string]>(resolve => {
+      socket.once('close', (closeCode, closeReason) => resolve([closeCode, closeReason.toString()]));
+    });
+    expect(code).toBe(4400);
+    expect(reason).toBe('Invalid encoding');
+  });
+});
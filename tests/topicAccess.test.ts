@@ -0,0 +1,38 @@
+// Mock Redis connection first
+const mockRedis = {
+  keys: jest.fn(),
+  scanIterator: jest.fn(),
+  del: jest.fn(),
+};
+
+jest.mock('../src/redis/connection', () => ({
+  redisConnection: {
+    getClient: () => mockRedis,
+  }
+}));
+
+jest.mock('firebase-admin/firestore', () => ({
+  getFirestore: () => ({}),
+  FieldValue: {},
+}));
+
+import { TopicAccessControl } from '../src/firebase/topicAccess';
+
+describe('Topic Access Control Tests', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  test('should invalidate cached decisions with SCAN in batches', async () => {
+    const cached = Array.from({ length: 150 }, (_, i) => `realtime:acl:doc:1:user${i}:read`);
+    mockRedis.scanIterator.mockImplementation(async function* () {
+      yield* cached;
+    });
+
+    await new TopicAccessControl().invalidateCache('doc:1');
+
+    expect(mockRedis.scanIterator).toHaveBeenCalledWith({ MATCH: expect.stringMatching(/:acl:doc:1:\*$/), COUNT: 100 });
+    expect(mockRedis.keys).not.toHaveBeenCalled();
+    expect(mockRedis.del.mock.calls.map(([keys]) => keys.length)).toEqual([100, 50]);
+  });
+});
@@ -0,0 +1,171 @@
+// In-memory stand-in for the Redis commands the ack cursor store uses
+const store = new Map<string, string>();
+
+function globToRegExp(pattern: string): RegExp {
+  return new RegExp(`^${pattern.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*')}$`);
+}
+
+const mockRedis = {
+  get: jest.fn(async (key: string) => store.get(key) ?? null),
+  set: jest.fn(async (key: string, value: string, options?: { NX?: boolean }) => {
+    if (options?.NX && store.has(key)) return null;
+    store.set(key, value);
+    return 'OK';
+  }),
+  eval: jest.fn(async (_script: string, { keys, arguments: args }: { keys: string[]; arguments: string[] }) => {
+    const current = parseInt(store.get(keys[0]!) ?? '0', 10);
+    const target = parseInt(args[0]!, 10);
+    if (target > current) store.set(keys[0]!, args[0]!);
+    return Math.max(current, target);
+  }),
+  scanIterator: jest.fn(async function* ({ MATCH }: { MATCH: string }) {
+    yield* [...store.keys()].filter(key => globToRegExp(MATCH).test(key));
+  }),
+  del: jest.fn(async (keys: string | string[]) => {
+    (Array.isArray(keys) ? keys : [keys]).forEach(key => store.delete(key));
+  }),
+};
+
+const mockTopics = {
+  getTopic: jest.fn(),
+  deleteTopic: jest.fn(),
+  addSubscriber: jest.fn(),
+  getLatestSeq: jest.fn(),
+  readFromSeq: jest.fn(),
+  readEventPage: jest.fn(),
+  updateTopic: jest.fn(),
+  getSlowClientPolicy: jest.fn(async () => 'drop_oldest'),
+  isTopicArchived: jest.fn(async () => false),
+};
+
+jest.mock('../src/redis/connection', () => ({
+  redisConnection: {
+    getClient: () => mockRedis,
+  }
+}));
+
+jest.mock('../src/redis/topicManager', () => ({
+  redisTopicManager: mockTopics,
+}));
+
+jest.mock('../src/gateway/auth', () => ({
+  firebaseAuth: {
+    checkTopicAccess: async () => true,
+    canManageTopic: () => true,
+    deleteTopicAccess: jest.fn(),
+  },
+}));
+
+jest.mock('../src/graphql/pubsub', () => ({
+  graphqlPubSub: {
+    asyncIterator: () => ({
+      next: () => new Promise(() => undefined),
+      return: async () => ({ value: undefined, done: true }),
+    }),
+  },
+  channelForTopic: (tenantId: string, topicId: string) => `TOPIC_EVENTS:${tenantId}:${topicId}`,
+  channelForTenant: (tenantId: string) => `TENANT_EVENTS:${tenantId}`,
+  channelForPresence: (tenantId: string, topicId: string) => `PRESENCE_CHANGES:${tenantId}:${topicId}`,
+}));
+
+jest.mock('../src/redis/scheduler', () => ({ eventScheduler: { cancelTopic: jest.fn() } }));
+jest.mock('../src/redis/snapshotStore', () => ({ snapshotStore: { delete: jest.fn() } }));
+jest.mock('../src/redis/schemaRegistry', () => ({
+  ...jest.requireActual('../src/redis/schemaRegistry'),
+  schemaRegistry: { validate: jest.fn(), deleteTopicSchemas: jest.fn() },
+}));
+jest.mock('../src/redis/coalescingPolicies', () => ({ coalescingPolicies: { deleteTopicPolicies: jest.fn() } }));
+jest.mock('../src/redis/webhooks', () => ({ webhookStore: { deleteTopicWebhooks: jest.fn() } }));
+jest.mock('../src/redis/eventDistributor', () => ({ eventDistributor: { publishEvent: jest.fn() } }));
+jest.mock('../src/redis/rateLimiter', () => {
+  const allowed = async () => ({ allowed: true, remaining: 100, resetTime: Date.now() + 60000 });
+  return { rateLimiter: { checkUserRateLimit: allowed, checkTopicRateLimit: allowed } };
+});
+
+import { resolvers } from '../src/graphql/resolvers';
+import { firebaseAuth } from '../src/gateway/auth';
+import { eventDistributor } from '../src/redis/eventDistributor';
+import { eventScheduler } from '../src/redis/scheduler';
+import { snapshotStore } from '../src/redis/snapshotStore';
+import { schemaRegistry } from '../src/redis/schemaRegistry';
+import { coalescingPolicies } from '../src/redis/coalescingPolicies';
+import { webhookStore } from '../src/redis/webhooks';
+
+const context = { user: { userId: 'u1', tenantId: 't1', roles: [] } };
+let topic = { id: 'doc:1', tenantId: 't1', status: 'active', createdBy: 'u1' };
+
+async function subscribeAcked(topicId: string): Promise<void> {
+  const iterator = await resolvers.Subscription.topicEvents.subscribe(undefined, { topicId, ack: true }, context);
+  await iterator.return();
+}
+
+describe('Topic Lifecycle Tests', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    store.clear();
+    topic = { id: 'doc:1', tenantId: 't1', status: 'active', createdBy: 'u1' };
+    mockTopics.getTopic.mockImplementation(async () => topic);
+    mockTopics.readFromSeq.mockResolvedValue([]);
+    mockTopics.updateTopic.mockImplementation(async (_tenantId: string, _topicId: string, patch: { status?: string }) => {
+      topic = { ...topic, ...patch };
+      return topic;
+    });
+    mockTopics.isTopicArchived.mockImplementation(async () => topic.status === 'archived');
+  });
+
+  test('should reject publishes to an archived topic but keep its history readable', async () => {
+    const publish = () => resolvers.Mutation.publishEvent(undefined, { input: { topicId: 'doc:1', type: 'op', data: {} } }, context);
+
+    expect((await resolvers.Mutation.archiveTopic(undefined, { topicId: 'doc:1' }, context)).status).toBe('archived');
+    await expect(publish()).resolves.toMatchObject({ success: false, message: 'Topic is archived; publishing is disabled' });
+    expect(eventDistributor.publishEvent).not.toHaveBeenCalled();
+
+    mockTopics.readEventPage.mockResolvedValue({ entries: [{ streamId: '1-0', event: { seq: 1 } }], hasMore: false });
+    const history = await resolvers.Query.eventHistoryConnection(undefined, { topicId: 'doc:1' }, context);
+    expect(history.edges.map((edge: { node: { seq: number } }) => edge.node.seq)).toEqual([1]);
+
+    await resolvers.Mutation.archiveTopic(undefined, { topicId: 'doc:1', archived: false }, context);
+    await expect(publish()).resolves.toMatchObject({ success: true });
+    expect(eventDistributor.publishEvent).toHaveBeenCalledTimes(1);
+  });
+
+  test('should purge every store that holds topic data', async () => {
+    await expect(resolvers.Mutation.deleteTopic(undefined, { topicId: 'doc:1' }, context)).resolves.toEqual({ success: true, message: 'deleted' });
+
+    expect(eventScheduler.cancelTopic).toHaveBeenCalledWith('t1', 'doc:1');
+    expect(mockTopics.deleteTopic).toHaveBeenCalledWith('t1', 'doc:1');
+    expect(snapshotStore.delete).toHaveBeenCalledWith('t1', 'doc:1');
+    expect(schemaRegistry.deleteTopicSchemas).toHaveBeenCalledWith('t1', 'doc:1');
+    expect(coalescingPolicies.deleteTopicPolicies).toHaveBeenCalledWith('t1', 'doc:1');
+    expect(webhookStore.deleteTopicWebhooks).toHaveBeenCalledWith('t1', 'doc:1');
+    expect(firebaseAuth.deleteTopicAccess).toHaveBeenCalledWith('doc:1');
+  });
+
+  test('should not purge a topic that does not exist', async () => {
+    mockTopics.getTopic.mockResolvedValue(null);
+
+    await expect(resolvers.Mutation.deleteTopic(undefined, { topicId: 'doc:1' }, context)).rejects.toThrow('Topic not found');
+    expect(mockTopics.deleteTopic).not.toHaveBeenCalled();
+    expect(firebaseAuth.deleteTopicAccess).not.toHaveBeenCalled();
+  });
+
+  test('should start a recreated topic\'s acked subscribers from its first event', async () => {
+    mockTopics.getLatestSeq.mockResolvedValue(0);
+    await subscribeAcked('doc:1');
+    mockTopics.getLatestSeq.mockResolvedValue(50);
+    expect((await resolvers.Mutation.ackEvents(undefined, { topicId: 'doc:1', upToSeq: 50 }, context)).committedSeq).toBe(50);
+
+    // A topic nested under the deleted one keeps its cursor
+    mockTopics.getLatestSeq.mockResolvedValue(7);
+    await subscribeAcked('doc:1:comments');
+
+    await resolvers.Mutation.deleteTopic(undefined, { topicId: 'doc:1' }, context);
+    expect([...store.keys()]).toEqual([expect.stringContaining('{doc:1:comments}')]);
+
+    // Recreated, the topic's seq starts over
+    mockTopics.getLatestSeq.mockResolvedValue(0);
+    mockTopics.readFromSeq.mockClear();
+    await subscribeAcked('doc:1');
+    expect(mockTopics.readFromSeq).toHaveBeenCalledWith('t1', 'doc:1', 1);
+  });
+});
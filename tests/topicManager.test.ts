@@ -0,0 +1,111 @@
+// Mock Redis connection first
+const mockRedis = {
+  exists: jest.fn(),
+  hSetNX: jest.fn(),
+  hSet: jest.fn(),
+  hGetAll: jest.fn(),
+  del: jest.fn(),
+  lRange: jest.fn(),
+  rPush: jest.fn(),
+  multi: jest.fn(),
+  sMembers: jest.fn(),
+};
+
+jest.mock('../src/redis/connection', () => ({
+  redisConnection: {
+    getClient: () => mockRedis,
+  }
+}));
+
+import { RedisTopicManager } from '../src/redis/topicManager';
+import { config } from '../src/config';
+
+describe('Topic Manager Tests', () => {
+  let topics: RedisTopicManager;
+
+  beforeEach(() => {
+    topics = new RedisTopicManager();
+    jest.clearAllMocks();
+  });
+
+  test('should not let a topic that already has events be claimed', async () => {
+    mockRedis.exists.mockResolvedValue(2); // stream and seq from earlier publishes
+
+    await expect(topics.createTopic('t1', 'doc:1', { createdBy: 'intruder' })).rejects.toThrow('Topic already exists');
+    expect(mockRedis.hSetNX).not.toHaveBeenCalled();
+    expect(mockRedis.hSet).not.toHaveBeenCalled();
+  });
+
+  test('should create a new topic and discard only its meta hash', async () => {
+    mockRedis.exists.mockResolvedValue(0);
+    mockRedis.hSetNX.mockResolvedValue(true);
+    mockRedis.hGetAll.mockResolvedValue({ createdAt: '1', createdBy: 'u1', lastEventId: '0' });
+
+    const topic = await topics.createTopic('t1', 'doc:1', { createdBy: 'u1' });
+    expect(topic.createdBy).toBe('u1');
+
+    await topics.discardCreatedTopic('t1', 'doc:1');
+    expect(mockRedis.del).toHaveBeenCalledWith(expect.stringMatching(/:topic:t1:doc:1:meta$/));
+  });
+
+  test('should purge every key of a deleted topic', async () => {
+    const prefix = config.redis.keyPrefix;
+    mockRedis.sMembers.mockResolvedValue(['s1', 's2']);
+
+    await topics.deleteTopic('t1', 'doc:1');
+
+    expect(mockRedis.del).toHaveBeenCalledTimes(1);
+    expect([...mockRedis.del.mock.calls[0][0]].sort()).toEqual([
+      `${prefix}:sub:t1:s1:topic:doc:1:dropped`,
+      `${prefix}:sub:t1:s2:topic:doc:1:dropped`,
+      `${prefix}:presence:t1:doc:1`,
+      `${prefix}:rl:t1:doc:1`,
+      `${prefix}:seq:t1:doc:1`,
+      `${prefix}:stream:t1:doc:1`,
+      `${prefix}:sub:t1:s1:topic:doc:1:queue`,
+      `${prefix}:sub:t1:s2:topic:doc:1:queue`,
+      `${prefix}:topic:t1:doc:1:meta`,
+      `${prefix}:topic:t1:doc:1:subscribers`,
+    ].sort());
+  });
+
+  test('should not lose events queued while a subscriber queue is drained', async () => {
+    // Commands run as they are issued; a transaction runs all of its commands at exec
+    const lists = new Map<string, string[]>();
+    const run = {
+      lRange: (key: string) => [...(lists.get(key) ?? [])],
+      del: (key: string) => lists.delete(key),
+      hGetAll: () => ({}),
+    };
+    mockRedis.lRange.mockImplementation(async (key: string) => run.lRange(key));
+    mockRedis.del.mockImplementation(async (key: string) => run.del(key));
+    mockRedis.hGetAll.mockImplementation(async () => run.hGetAll());
+    mockRedis.rPush.mockImplementation(async (key: string, value: string) => {
+      lists.set(key, [...(lists.get(key) ?? []), value]);
+    });
+    mockRedis.multi.mockImplementation(() => {
+      const queued: Array<() => unknown> = [];
+      const chain = {
+        lRange: (key: string) => { queued.push(() => run.lRange(key)); return chain; },
+        del: (key: string) => { queued.push(() => run.del(key)); return chain; },
+        hGetAll: () => { queued.push(() => run.hGetAll()); return chain; },
+        exec: async () => queued.map(command => command()),
+      };
+      return chain;
+    });
+
+    const queueKey = `${config.redis.keyPrefix}:sub:t1:s1:topic:doc:1:queue`;
+    const event = (seq: number) => JSON.stringify({ id: `e${seq}`, topicId: 'doc:1', type: 'op', data: {}, seq, ts: '', tenantId: 't1', senderId: 'u1' });
+    lists.set(queueKey, [event(1)]);
+
+    // The distributor pushes while the drain is in flight, and a second poll drains too
+    const [first, , second] = await Promise.all([
+      topics.getSubscriberEvents('t1', 'doc:1', 's1'),
+      mockRedis.rPush(queueKey, event(2)),
+      topics.getSubscriberEvents('t1', 'doc:1', 's1'),
+    ]);
+
+    const seen = [...first, ...second, ...(lists.get(queueKey) ?? []).map(raw => JSON.parse(raw))].map(e => e.seq);
+    expect(seen.sort()).toEqual([1, 2]);
+  });
+});
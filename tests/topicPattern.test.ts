@@ -0,0 +1,35 @@
+import { compileTopicPattern, createTopicMatcher, isTopicPattern, validateTopicPatterns } from '../src/utils/topicPattern';
+
+describe('Topic Pattern Tests', () => {
+  test('should match globs with Redis semantics', () => {
+    expect(compileTopicPattern('doc:123:*').test('doc:123:cursor')).toBe(true);
+    expect(compileTopicPattern('doc:123:*').test('doc:123:a:b')).toBe(true);
+    expect(compileTopicPattern('doc:123:*').test('doc:124:cursor')).toBe(false);
+    expect(compileTopicPattern('doc:?').test('doc:1')).toBe(true);
+    expect(compileTopicPattern('doc:?').test('doc:12')).toBe(false);
+  });
+
+  test('should treat dots literally', () => {
+    expect(compileTopicPattern('a.b').test('a.b')).toBe(true);
+    expect(compileTopicPattern('a.b').test('axb')).toBe(false);
+  });
+
+  test('should merge several patterns', () => {
+    const matches = createTopicMatcher(['doc:1:*', 'chat:lobby']);
+    expect(matches('doc:1:x')).toBe(true);
+    expect(matches('chat:lobby')).toBe(true);
+    expect(matches('chat:other')).toBe(false);
+  });
+
+  test('should detect wildcards', () => {
+    expect(isTopicPattern('doc:*')).toBe(true);
+    expect(isTopicPattern('doc:1')).toBe(false);
+  });
+
+  test('should validate pattern lists', () => {
+    expect(validateTopicPatterns(['doc:123:*']).isValid).toBe(true);
+    expect(validateTopicPatterns([]).isValid).toBe(false);
+    expect(validateTopicPatterns(['doc/<script>']).isValid).toBe(false);
+    expect(validateTopicPatterns(['a', 'a']).isValid).toBe(false);
+  });
+});
@@ -0,0 +1,104 @@
+const mockListStored = jest.fn();
+const mockRecordAttempt = jest.fn();
+const mockDeadLetter = jest.fn();
+const mockLookup = jest.fn();
+
+jest.mock('../src/redis/webhooks', () => ({
+  webhookStore: { listStored: mockListStored, recordAttempt: mockRecordAttempt, deadLetter: mockDeadLetter },
+}));
+
+jest.mock('dns', () => ({
+  promises: { lookup: mockLookup },
+}));
+
+import { WebhookDispatcher, signPayload } from '../src/gateway/webhookDispatcher';
+import { EventEnvelope } from '../src/types';
+import { config } from '../src/config';
+
+const event: EventEnvelope = { id: 'e1', topicId: 'doc:1', type: 'op', data: { n: 1 }, seq: 3, ts: '', tenantId: 't1', senderId: 'u1' };
+const webhook = { id: 'w1', topicId: 'doc:1', url: 'https://hooks.example.com/rt', eventTypes: null, createdBy: 'u1', createdAt: 0, secret: 's3cret' };
+
+describe('Webhook Dispatcher Tests', () => {
+  const realFetch = global.fetch;
+  const mockFetch = jest.fn();
+  let dispatcher: WebhookDispatcher;
+
+  beforeAll(() => {
+    global.fetch = mockFetch as unknown as typeof fetch;
+    Object.assign(config.webhooks, { maxAttempts: 3, retryDelayMs: 1, maxRetryDelayMs: 1, breakerThreshold: 5 });
+  });
+
+  afterAll(() => {
+    global.fetch = realFetch;
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    dispatcher = new WebhookDispatcher();
+    mockListStored.mockResolvedValue([webhook]);
+    mockLookup.mockResolvedValue([{ address: '93.184.216.34', family: 4 }]);
+  });
+
+  test('should post a signed body and record the attempt', async () => {
+    mockFetch.mockResolvedValue({ ok: true, status: 204 });
+
+    await dispatcher.dispatch(event);
+
+    const [url, init] = mockFetch.mock.calls[0];
+    expect(url).toBe(webhook.url);
+    expect(init.redirect).toBe('manual');
+    expect(init.body).toBe(JSON.stringify(event));
+    const timestamp = Number(init.headers['X-Webhook-Timestamp']);
+    expect(init.headers['X-Webhook-Signature']).toBe(signPayload('s3cret', timestamp, init.body));
+    expect(mockRecordAttempt).toHaveBeenCalledWith('t1', expect.objectContaining({ webhookId: 'w1', attempt: 1, outcome: 'delivered', status: 204 }));
+    expect(mockDeadLetter).not.toHaveBeenCalled();
+  });
+
+  test('should retry failures and dead-letter the event once attempts run out', async () => {
+    mockFetch.mockResolvedValue({ ok: false, status: 500 });
+
+    await dispatcher.dispatch(event);
+
+    expect(mockFetch).toHaveBeenCalledTimes(3);
+    expect(mockRecordAttempt.mock.calls.map(([, attempt]) => [attempt.attempt, attempt.outcome, attempt.status]))
+      .toEqual([[1, 'failed', 500], [2, 'failed', 500], [3, 'failed', 500]]);
+    expect(mockDeadLetter).toHaveBeenCalledWith('t1', expect.objectContaining({ webhookId: 'w1', event, attempts: 3 }));
+  });
+
+  test('should not deliver to a host that now resolves to a private address', async () => {
+    mockLookup.mockResolvedValue([{ address: '169.254.169.254', family: 4 }]);
+
+    await dispatcher.dispatch(event);
+
+    expect(mockFetch).not.toHaveBeenCalled();
+    expect(mockRecordAttempt.mock.calls[0][1]).toMatchObject({
+      outcome: 'failed',
+      error: 'Webhook URL must not point to a private, loopback or link-local address',
+    });
+    expect(mockDeadLetter).toHaveBeenCalledWith('t1', expect.objectContaining({ webhookId: 'w1', attempts: 3 }));
+  });
+
+  test('should stop calling an endpoint once its circuit breaker opens', async () => {
+    config.webhooks.breakerThreshold = 2;
+    dispatcher = new WebhookDispatcher();
+    mockFetch.mockRejectedValue(new Error('ECONNREFUSED'));
+
+    try {
+      await dispatcher.dispatch(event);
+    } finally {
+      config.webhooks.breakerThreshold = 5;
+    }
+
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+    expect(mockRecordAttempt.mock.calls[2][1].outcome).toBe('circuit_open');
+    expect(mockDeadLetter).toHaveBeenCalledWith('t1', expect.objectContaining({ lastError: 'Circuit breaker is open' }));
+  });
+
+  test('should only deliver the event types a webhook asked for', async () => {
+    mockListStored.mockResolvedValue([{ ...webhook, eventTypes: ['cursor'] }]);
+
+    await dispatcher.dispatch(event);
+
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,61 @@
+const mockLookup = jest.fn();
+
+jest.mock('dns', () => ({
+  promises: { lookup: mockLookup },
+}));
+
+import { isPrivateAddress, validateWebhookTarget } from '../src/utils/webhookTarget';
+
+describe('Webhook Target Tests', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  test('should flag private, loopback and link-local addresses', () => {
+    for (const address of [
+      '127.0.0.1', '10.1.2.3', '172.16.0.1', '172.31.255.255', '192.168.1.1', '169.254.169.254', '0.0.0.0', '100.64.0.1',
+      '::', '::1', 'fd00::1', 'fe80::1', '::ffff:127.0.0.1', '::ffff:a9fe:a9fe',
+    ]) {
+      expect([address, isPrivateAddress(address)]).toEqual([address, true]);
+    }
+    for (const address of ['8.8.8.8', '172.32.0.1', '192.169.0.1', '2606:4700:4700::1111']) {
+      expect([address, isPrivateAddress(address)]).toEqual([address, false]);
+    }
+  });
+
+  test('should reject URLs naming a private host without resolving it', async () => {
+    for (const url of [
+      'http://localhost:8080/hook',
+      'http://api.localhost/hook',
+      'http://127.0.0.1/hook',
+      'http://169.254.169.254/latest/meta-data',
+      'https://[::1]/hook',
+      'https://[::ffff:10.0.0.1]/hook',
+    ]) {
+      const result = await validateWebhookTarget(url);
+      expect([url, result.isValid]).toEqual([url, false]);
+    }
+    expect(mockLookup).not.toHaveBeenCalled();
+  });
+
+  test('should reject host names that resolve to a private address', async () => {
+    mockLookup.mockResolvedValue([{ address: '93.184.216.34', family: 4 }, { address: '10.0.0.5', family: 4 }]);
+
+    const result = await validateWebhookTarget('https://hooks.example.com/rt');
+
+    expect(mockLookup).toHaveBeenCalledWith('hooks.example.com', { all: true, verbatim: true });
+    expect(result.isValid).toBe(false);
+    expect(result.errors).toEqual(['Webhook URL must not point to a private, loopback or link-local address']);
+  });
+
+  test('should accept public hosts and reject ones that do not resolve', async () => {
+    mockLookup.mockResolvedValue([{ address: '93.184.216.34', family: 4 }]);
+    await expect(validateWebhookTarget('https://hooks.example.com/rt')).resolves.toMatchObject({ isValid: true });
+
+    mockLookup.mockRejectedValue(Object.assign(new Error('getaddrinfo ENOTFOUND'), { code: 'ENOTFOUND' }));
+    await expect(validateWebhookTarget('https://missing.example.com/rt')).resolves.toEqual({
+      isValid: false,
+      errors: ['Webhook URL host missing.example.com could not be resolved'],
+    });
+  });
+});